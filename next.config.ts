@@ -1,6 +1,26 @@
+import { execSync } from "node:child_process";
 import type { NextConfig } from "next";
 
+/**
+ * The deployed commit (Vercel sets it; local builds ask git), else a per-build stamp. It names
+ * this build and the service worker's caches, so each deploy replaces the previous offline copy.
+ */
+function buildId(): string {
+  if (process.env.VERCEL_GIT_COMMIT_SHA) return process.env.VERCEL_GIT_COMMIT_SHA.slice(0, 12);
+  try {
+    return execSync("git rev-parse --short=12 HEAD", { stdio: ["ignore", "pipe", "ignore"] })
+      .toString()
+      .trim();
+  } catch {
+    return Date.now().toString(36);
+  }
+}
+
+const BUILD_ID = buildId();
+
 const nextConfig: NextConfig = {
+  generateBuildId: async () => BUILD_ID,
+  env: { NEXT_PUBLIC_BUILD_ID: BUILD_ID },
   /** Allow localhost and forwarded IDE preview domains in dev. */
   allowedDevOrigins: [
     "http://127.0.0.1:3000",
@@ -9,6 +29,18 @@ const nextConfig: NextConfig = {
     "*.preview.app",
     "*.cursor.sh",
   ],
+  /** The service worker must be revalidated on every load so new versions roll out. */
+  async headers() {
+    return [
+      {
+        source: "/sw.js",
+        headers: [
+          { key: "Cache-Control", value: "no-cache, no-store, must-revalidate" },
+          { key: "Service-Worker-Allowed", value: "/" },
+        ],
+      },
+    ];
+  },
   images: {
     remotePatterns: [
       {
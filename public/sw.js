@@ -0,0 +1,117 @@
+/*
+ * SmartCourt NYC service worker: keeps the app shell, the court catalogue and the logos available
+ * offline. Pages are network-first so live data wins whenever there is a connection; build assets
+ * and images are cache-first. Live reports come from Supabase and are never cached here.
+ * VERSION is the build ID the page registers this script with (`/sw.js?v=…`), so every deploy
+ * gets fresh caches and the old ones are dropped on activate.
+ */
+const VERSION = new URL(self.location.href).searchParams.get('v') || 'dev';
+const PAGES_CACHE = `smartcourt-pages-${VERSION}`;
+const ASSETS_CACHE = `smartcourt-assets-${VERSION}`;
+const OFFLINE_URL = '/offline.html';
+
+/** Tab routes (the Courts tab carries the whole court catalogue) plus the offline fallback. */
+const PRECACHE_PAGES = ['/', '/courts', '/map', '/sheets', '/more', OFFLINE_URL];
+const PRECACHE_ASSETS = [
+  '/icon.png',
+  '/apple-icon.png',
+  '/logo.png',
+  '/smartcourt-logo.png',
+  '/deuce-logo.png',
+  '/nyctc-header-logo.png',
+  '/nyctc-hero-corner-logo.png',
+  '/nyctc-mobile-landing-logo.png',
+  '/sunset.jpg',
+];
+
+/** The scripts and styles a precached page loads, so it still hydrates offline. */
+async function precachePageAssets(pagesCache, assetsCache) {
+  const urls = new Set();
+  for (const request of await pagesCache.keys()) {
+    const html = await (await pagesCache.match(request)).text();
+    for (const match of html.matchAll(/\/_next\/static\/[^"'\s\\]+/g)) urls.add(match[0]);
+  }
+  // Best effort: one odd match must not fail the install.
+  await Promise.allSettled([...urls].map((url) => assetsCache.add(url)));
+}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    (async () => {
+      const [pagesCache, assetsCache] = await Promise.all([
+        caches.open(PAGES_CACHE),
+        caches.open(ASSETS_CACHE),
+      ]);
+      await Promise.all([pagesCache.addAll(PRECACHE_PAGES), assetsCache.addAll(PRECACHE_ASSETS)]);
+      await precachePageAssets(pagesCache, assetsCache);
+      await self.skipWaiting();
+    })()
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  const current = new Set([PAGES_CACHE, ASSETS_CACHE]);
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key.startsWith('smartcourt-') && !current.has(key))
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+/** Pages: network first, then the cached copy of the same path (any query), then the offline page. */
+async function networkFirstPage(request) {
+  const cache = await caches.open(PAGES_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const url = new URL(request.url);
+      // Court Finder filters live in the query; one copy per path is enough offline.
+      cache.put(url.origin + url.pathname, response.clone());
+    }
+    return response;
+  } catch (err) {
+    const cached = await cache.match(request, { ignoreSearch: true });
+    return cached || (await cache.match(OFFLINE_URL)) || Promise.reject(err);
+  }
+}
+
+/** Hashed build output and images: cache first, filled on first use. */
+async function cacheFirst(request) {
+  const cache = await caches.open(ASSETS_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) cache.put(request, response.clone());
+  return response;
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET' || request.headers.has('range')) return;
+  const url = new URL(request.url);
+  // Supabase, outside tile servers and analytics go straight to the network.
+  if (url.origin !== self.location.origin) return;
+  // React Server Component payloads; a failed one makes Next.js fall back to a full page load.
+  if (request.headers.has('RSC') || url.searchParams.has('_rsc')) return;
+  if (url.pathname === '/sw.js' || url.pathname.startsWith('/_next/webpack-hmr')) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirstPage(request));
+    return;
+  }
+  if (
+    url.pathname.startsWith('/_next/static/') ||
+    url.pathname.startsWith('/_next/image') ||
+    request.destination === 'image' ||
+    request.destination === 'font'
+  ) {
+    event.respondWith(cacheFirst(request));
+  }
+});
@@ -0,0 +1,203 @@
+#!/usr/bin/env node
+// Regenerates src/data/subway-stations.csv from the MTA's static subway GTFS feed.
+//
+//   curl -LO http://web.mta.info/developers/data/nyct/subway/google_transit.zip
+//   unzip google_transit.zip -d /tmp/gtfs-subway
+//   npm run data:subway-stations -- /tmp/gtfs-subway
+//
+// One row per station complex: the `stops.txt` parent stations (location_type 1) that have
+// service, merged along the in-station transfers in `transfers.txt` (e.g. Times Sq with Port
+// Authority). Routes are the weekday daytime services that stop there (`calendar.txt`,
+// `trips.txt`, `stop_times.txt`), so late-night patterns do not count as direct rides. Express
+// variants count as their line and the three shuttles as S; the Staten Island Railway is left
+// out, as it is not part of the subway map the travel estimates use.
+
+import { createReadStream, existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { createInterface } from 'node:readline';
+import { fileURLToPath } from 'node:url';
+
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), '..');
+const OUTPUT = join(ROOT, 'src', 'data', 'subway-stations.csv');
+
+/** Display order; keep in sync with SUBWAY_ROUTES in src/lib/subwayStations.ts. */
+const ROUTE_ORDER = '1 2 3 4 5 6 7 A B C D E F G J L M N Q R S W Z'.split(' ');
+const ROUTE_ALIASES = { '5X': '5', '6X': '6', '7X': '7', FX: 'F', GS: 'S', FS: 'S', H: 'S' };
+const SKIPPED_ROUTES = new Set(['SI']);
+/** Departures in this window (GTFS "HH:MM:SS", may pass 24:00) count as daytime service. */
+const DAYTIME_FROM = '06:00:00';
+const DAYTIME_UNTIL = '21:00:00';
+
+class GtfsError extends Error {}
+
+/** GTFS files are CSV without line breaks inside fields, so a per-line split is enough. */
+function splitLine(line) {
+  const fields = [];
+  let field = '';
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (inQuotes) {
+      if (ch === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  fields.push(field);
+  return fields;
+}
+
+/** Calls `onRow` with each record as an object keyed by the header; streams large files. */
+async function eachRow(dir, file, onRow) {
+  const path = join(dir, file);
+  if (!existsSync(path)) throw new GtfsError(`${path} not found; pass the unzipped GTFS directory.`);
+  let header = null;
+  const lines = createInterface({ input: createReadStream(path, 'utf8'), crlfDelay: Infinity });
+  for await (const raw of lines) {
+    const line = header ? raw : raw.replace(/^\uFEFF/, '');
+    if (line === '') continue;
+    const fields = splitLine(line);
+    if (!header) {
+      header = fields;
+      continue;
+    }
+    onRow(Object.fromEntries(header.map((name, i) => [name, fields[i] ?? ''])));
+  }
+}
+
+function serviceRoute(routeId) {
+  if (SKIPPED_ROUTES.has(routeId)) return null;
+  const route = ROUTE_ALIASES[routeId] ?? routeId;
+  if (!ROUTE_ORDER.includes(route)) throw new GtfsError(`unknown route_id "${routeId}" in trips.txt`);
+  return route;
+}
+
+async function readStations(dir) {
+  const stations = new Map();
+  const parentOf = new Map();
+  await eachRow(dir, 'stops.txt', (row) => {
+    if (row.location_type === '1') {
+      stations.set(row.stop_id, {
+        id: row.stop_id,
+        name: row.stop_name.trim(),
+        lat: Number(row.stop_lat),
+        lng: Number(row.stop_lon),
+        routes: new Set(),
+      });
+    } else if (row.parent_station) {
+      parentOf.set(row.stop_id, row.parent_station);
+    }
+  });
+
+  const weekdayServices = new Set();
+  await eachRow(dir, 'calendar.txt', (row) => {
+    if (row.monday === '1') weekdayServices.add(row.service_id);
+  });
+  const routeOfTrip = new Map();
+  await eachRow(dir, 'trips.txt', (row) => {
+    const route = serviceRoute(row.route_id);
+    if (route && weekdayServices.has(row.service_id)) routeOfTrip.set(row.trip_id, route);
+  });
+  await eachRow(dir, 'stop_times.txt', (row) => {
+    const time = row.departure_time.padStart(8, '0');
+    if (time < DAYTIME_FROM || time > DAYTIME_UNTIL) return;
+    const route = routeOfTrip.get(row.trip_id);
+    const station = stations.get(parentOf.get(row.stop_id) ?? row.stop_id);
+    if (route && station) station.routes.add(route);
+  });
+  return stations;
+}
+
+/** Union-find over the transfers between different parent stations. */
+async function readComplexes(dir, stations) {
+  const parent = new Map([...stations.keys()].map((id) => [id, id]));
+  const find = (id) => {
+    while (parent.get(id) !== id) id = parent.get(id);
+    return id;
+  };
+  await eachRow(dir, 'transfers.txt', (row) => {
+    if (row.from_stop_id === row.to_stop_id) return;
+    if (!parent.has(row.from_stop_id) || !parent.has(row.to_stop_id)) return;
+    parent.set(find(row.from_stop_id), find(row.to_stop_id));
+  });
+  const complexes = new Map();
+  for (const station of stations.values()) {
+    if (station.routes.size === 0) continue;
+    const root = find(station.id);
+    if (!complexes.has(root)) complexes.set(root, []);
+    complexes.get(root).push(station);
+  }
+  return [...complexes.values()];
+}
+
+function sortedRoutes(routes) {
+  return [...routes].sort((a, b) => ROUTE_ORDER.indexOf(a) - ROUTE_ORDER.indexOf(b));
+}
+
+function toRow(members) {
+  // Busiest platform's name first, e.g. "Times Sq-42 St/42 St-Port Authority Bus Terminal".
+  const ordered = [...members].sort((a, b) => b.routes.size - a.routes.size || a.name.localeCompare(b.name));
+  const names = [...new Set(ordered.map((s) => s.name))];
+  const routes = sortedRoutes(new Set(members.flatMap((s) => [...s.routes])));
+  const mean = (key) => members.reduce((sum, s) => sum + s[key], 0) / members.length;
+  return { name: names.join('/'), lat: mean('lat'), lng: mean('lng'), routes };
+}
+
+function csvField(value) {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+async function main() {
+  const [dir] = process.argv.slice(2);
+  if (!dir) {
+    console.error('Usage: npm run data:subway-stations -- <unzipped GTFS directory>');
+    process.exit(2);
+  }
+  try {
+    const stations = await readStations(dir);
+    const rows = (await readComplexes(dir, stations)).map(toRow);
+
+    // Many stops share a name ("86 St" is on five lines); the routes tell them apart.
+    const count = new Map();
+    for (const row of rows) count.set(row.name, (count.get(row.name) ?? 0) + 1);
+    for (const row of rows) if (count.get(row.name) > 1) row.name = `${row.name} (${row.routes.join(' ')})`;
+    const seen = new Set();
+    for (const row of rows) {
+      if (seen.has(row.name)) throw new GtfsError(`two complexes are both named "${row.name}"`);
+      seen.add(row.name);
+    }
+
+    rows.sort((a, b) => b.lat - a.lat || a.lng - b.lng);
+    const lines = ['Station,Latitude,Longitude,Routes'];
+    for (const row of rows) {
+      lines.push(
+        [csvField(row.name), row.lat.toFixed(6), row.lng.toFixed(6), row.routes.join(' ')].join(',')
+      );
+    }
+    const csv = `${lines.join('\n')}\n`;
+    const previous = existsSync(OUTPUT) ? readFileSync(OUTPUT, 'utf8') : '';
+    writeFileSync(OUTPUT, csv);
+    console.log(
+      `Wrote ${rows.length} station complexes (${stations.size} parent stations) to src/data/subway-stations.csv` +
+        (previous === csv ? ' — unchanged.' : '.')
+    );
+  } catch (error) {
+    if (!(error instanceof GtfsError)) throw error;
+    console.error(error.message);
+    process.exit(1);
+  }
+}
+
+main();
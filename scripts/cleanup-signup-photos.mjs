@@ -0,0 +1,122 @@
+#!/usr/bin/env node
+// Deletes sign-up sheet photos nobody should see any more. Run it on a schedule (hourly is plenty).
+//
+//   npm run photos:cleanup              delete photos of expired reports and clear their photo_path
+//   npm run photos:cleanup -- --dry-run list what would be deleted
+//
+// The reports themselves are kept, with photo_path NULL and photo_deleted_at set (migration 0015).
+// Also deletes orphaned photos: objects older than a day that no report points at, left behind
+// when a report insert failed after its upload. Reads rows through `psql` on DATABASE_URL and
+// deletes objects through the Storage API with the service role key, so Storage drops the files
+// and their storage.objects rows together.
+//
+// Defaults to the local stack (`npm run db:reset` + `npm run storage:local`); for a hosted project
+// set DATABASE_URL, NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY.
+
+import { DEFAULT_DATABASE_URL, DbError, LOCAL_HOSTS, literal, psql, rows } from './psql.mjs';
+
+const BUCKET = 'signup-sheet-photos';
+const BATCH_SIZE = 100;
+const ORPHAN_AGE = '1 day';
+const LOCAL_STORAGE_URL = 'http://localhost:54330/storage/v1';
+const LOCAL_SERVICE_KEY = 'local-service-role-key';
+
+class CleanupError extends Error {}
+
+function storageConfig() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const url = supabaseUrl ? `${supabaseUrl.replace(/\/$/, '')}/storage/v1` : LOCAL_STORAGE_URL;
+  const key =
+    process.env.SUPABASE_SERVICE_ROLE_KEY || (LOCAL_HOSTS.has(new URL(url).hostname) ? LOCAL_SERVICE_KEY : '');
+  if (!key) throw new CleanupError('SUPABASE_SERVICE_ROLE_KEY is required to delete photos from Storage.');
+  return { url, key };
+}
+
+/** Returns the names Storage deleted; names that no longer exist are skipped, not errors. */
+async function deleteObjects(storage, names) {
+  let response;
+  try {
+    response = await fetch(`${storage.url}/object/${BUCKET}`, {
+      method: 'DELETE',
+      headers: {
+        Authorization: `Bearer ${storage.key}`,
+        apikey: storage.key,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ prefixes: names }),
+    });
+  } catch (error) {
+    throw new CleanupError(`Storage is unreachable at ${storage.url}: ${error.message}`);
+  }
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new CleanupError(`Storage refused the delete (${response.status}): ${body?.message ?? 'no details'}`);
+  }
+  return (body ?? []).map((object) => object.name);
+}
+
+function expiredReports(url, limit) {
+  return rows(
+    url,
+    `SELECT id, photo_path FROM public.signup_sheet_reports
+     WHERE expires_at <= now() AND photo_path IS NOT NULL
+     ORDER BY expires_at LIMIT ${limit}`
+  );
+}
+
+function orphanedObjects(url, limit) {
+  return rows(
+    url,
+    `SELECT o.name FROM storage.objects o
+     WHERE o.bucket_id = ${literal(BUCKET)} AND o.created_at < now() - interval ${literal(ORPHAN_AGE)}
+       AND NOT EXISTS (SELECT 1 FROM public.signup_sheet_reports r WHERE r.photo_path = o.name)
+     ORDER BY o.created_at LIMIT ${limit}`
+  ).map(([name]) => name);
+}
+
+async function cleanup(url, storage) {
+  let reports = 0;
+  for (let batch = expiredReports(url, BATCH_SIZE); batch.length > 0; batch = expiredReports(url, BATCH_SIZE)) {
+    // Objects first: if the delete fails, the next run finds the same reports and finishes the job.
+    await deleteObjects(storage, batch.map(([, path]) => path));
+    psql(url, {
+      sql: `UPDATE public.signup_sheet_reports SET photo_path = NULL, photo_deleted_at = now()
+            WHERE id IN (${batch.map(([id]) => literal(id)).join(', ')})`,
+    });
+    reports += batch.length;
+  }
+
+  let orphans = 0;
+  for (let batch = orphanedObjects(url, BATCH_SIZE); batch.length > 0; batch = orphanedObjects(url, BATCH_SIZE)) {
+    const deleted = await deleteObjects(storage, batch);
+    // Storage and DATABASE_URL disagree (e.g. different projects); stop instead of looping.
+    if (deleted.length === 0) throw new CleanupError(`Storage did not delete any of ${batch.length} orphaned photos.`);
+    orphans += deleted.length;
+  }
+  console.log(`Deleted photos of ${reports} expired reports and ${orphans} orphaned photos.`);
+}
+
+function dryRun(url) {
+  const [[reports]] = rows(
+    url,
+    'SELECT count(*) FROM public.signup_sheet_reports WHERE expires_at <= now() AND photo_path IS NOT NULL'
+  );
+  const orphans = orphanedObjects(url, 'ALL');
+  console.log(`${reports} expired reports would have their photos deleted.`);
+  for (const name of orphans) console.log(`orphan   ${name}`);
+  console.log(`${orphans.length} orphaned photos would be deleted.`);
+}
+
+async function main() {
+  const url = process.env.DATABASE_URL || DEFAULT_DATABASE_URL;
+  try {
+    if (process.argv.includes('--dry-run')) dryRun(url);
+    else await cleanup(url, storageConfig());
+  } catch (error) {
+    if (!(error instanceof DbError) && !(error instanceof CleanupError)) throw error;
+    console.error(error.message);
+    process.exit(1);
+  }
+}
+
+main();
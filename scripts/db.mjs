@@ -0,0 +1,206 @@
+#!/usr/bin/env node
+// Applies supabase/migrations/*.sql in order and reports schema drift.
+//
+//   npm run db:migrate   apply pending migrations to DATABASE_URL
+//   npm run db:status    list applied / pending / edited migrations
+//   npm run db:check     status + compare the live schema with supabase/schema.json (exit 1 on drift)
+//   npm run db:reset     drop and recreate a LOCAL database, bootstrap it, migrate and check
+//
+// Shells out to `psql`, so only a Postgres client is needed. Each migration runs in its own
+// transaction together with its row in migrations.schema_migrations.
+
+import { createHash } from 'node:crypto';
+import { readdirSync, readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { DEFAULT_DATABASE_URL, DbError, LOCAL_HOSTS, literal, psql, rows } from './psql.mjs';
+
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), '..');
+const MIGRATIONS_DIR = join(ROOT, 'supabase', 'migrations');
+const BOOTSTRAP_FILE = join(ROOT, 'supabase', 'local', 'bootstrap.sql');
+const SCHEMA_FILE = join(ROOT, 'supabase', 'schema.json');
+const MIGRATION_FILE = /^(\d{4})_([a-z0-9_]+)\.sql$/;
+
+const TRACKING_SQL = `
+CREATE SCHEMA IF NOT EXISTS migrations;
+CREATE TABLE IF NOT EXISTS migrations.schema_migrations (
+  version text PRIMARY KEY,
+  name text NOT NULL,
+  checksum text NOT NULL,
+  applied_at timestamptz NOT NULL DEFAULT now()
+);`;
+
+function readMigrations() {
+  const files = readdirSync(MIGRATIONS_DIR)
+    .filter((f) => f.endsWith('.sql'))
+    .sort();
+  const seen = new Set();
+  return files.map((file) => {
+    const match = MIGRATION_FILE.exec(file);
+    if (!match) throw new DbError(`${file}: migration files must be named NNNN_snake_case.sql`);
+    const [, version, name] = match;
+    if (seen.has(version)) throw new DbError(`${file}: duplicate migration version ${version}`);
+    seen.add(version);
+    const path = join(MIGRATIONS_DIR, file);
+    const sql = readFileSync(path, 'utf8');
+    return { version, name, file, path, checksum: createHash('sha256').update(sql).digest('hex') };
+  });
+}
+
+function migrationStates(url) {
+  psql(url, { sql: TRACKING_SQL });
+  const applied = new Map(
+    rows(url, 'SELECT version, checksum FROM migrations.schema_migrations').map(([version, checksum]) => [
+      version,
+      checksum,
+    ])
+  );
+  const migrations = readMigrations();
+  const known = new Set(migrations.map((m) => m.version));
+  const states = migrations.map((m) => {
+    if (!applied.has(m.version)) return { ...m, state: 'pending' };
+    return { ...m, state: applied.get(m.version) === m.checksum ? 'applied' : 'edited' };
+  });
+  const missing = [...applied.keys()].filter((v) => !known.has(v));
+  return { states, missing };
+}
+
+function applyFile(url, path, trackingInsert = '') {
+  const input = `BEGIN;\n\\i ${literal(path)}\n${trackingInsert}\nCOMMIT;\n`;
+  psql(url, { input });
+}
+
+function migrate(url) {
+  const { states } = migrationStates(url);
+  const pending = states.filter((m) => m.state === 'pending');
+  for (const m of pending) {
+    process.stdout.write(`applying ${m.file} … `);
+    applyFile(
+      url,
+      m.path,
+      `INSERT INTO migrations.schema_migrations (version, name, checksum) VALUES (${literal(m.version)}, ${literal(
+        m.name
+      )}, ${literal(m.checksum)});`
+    );
+    process.stdout.write('ok\n');
+  }
+  if (pending.length === 0) console.log('Database is up to date.');
+}
+
+/** Returns true when every migration is applied unchanged. */
+function status(url) {
+  const { states, missing } = migrationStates(url);
+  for (const m of states) console.log(`${m.state.padEnd(8)} ${m.file}`);
+  for (const v of missing) console.log(`missing  ${v} (applied, but no file in supabase/migrations)`);
+  return missing.length === 0 && states.every((m) => m.state === 'applied');
+}
+
+function schemaDrift(url) {
+  const expected = JSON.parse(readFileSync(SCHEMA_FILE, 'utf8'));
+  const problems = [];
+
+  const tables = Object.keys(expected.tables ?? {});
+  const actualColumns = new Map(tables.map((t) => [t, new Set()]));
+  if (tables.length > 0) {
+    const found = rows(
+      url,
+      `SELECT table_schema || '.' || table_name, column_name FROM information_schema.columns
+       WHERE table_schema || '.' || table_name IN (${tables.map(literal).join(', ')})`
+    );
+    for (const [table, column] of found) actualColumns.get(table)?.add(column);
+  }
+  for (const table of tables) {
+    const actual = actualColumns.get(table);
+    if (actual.size === 0) {
+      problems.push(`missing table or view ${table}`);
+      continue;
+    }
+    const want = new Set(expected.tables[table]);
+    for (const column of want) if (!actual.has(column)) problems.push(`missing column ${table}.${column}`);
+    for (const column of actual) if (!want.has(column)) problems.push(`unexpected column ${table}.${column}`);
+  }
+
+  const functions = expected.functions ?? [];
+  if (functions.length > 0) {
+    const found = new Set(
+      rows(
+        url,
+        `SELECT n.nspname || '.' || p.proname FROM pg_proc p JOIN pg_namespace n ON n.oid = p.pronamespace
+         WHERE n.nspname || '.' || p.proname IN (${functions.map(literal).join(', ')})`
+      ).map(([name]) => name)
+    );
+    for (const fn of functions) if (!found.has(fn)) problems.push(`missing function ${fn}()`);
+  }
+
+  for (const [publication, pubTables] of Object.entries(expected.publications ?? {})) {
+    const found = new Set(
+      rows(
+        url,
+        `SELECT schemaname || '.' || tablename FROM pg_publication_tables WHERE pubname = ${literal(publication)}`
+      ).map(([name]) => name)
+    );
+    for (const table of pubTables) {
+      if (!found.has(table)) problems.push(`${table} is not in publication ${publication}`);
+    }
+  }
+
+  return problems;
+}
+
+function check(url) {
+  const clean = status(url);
+  const problems = schemaDrift(url);
+  for (const p of problems) console.log(`drift    ${p}`);
+  if (!clean) {
+    console.log('\nPending migrations need `npm run db:migrate`; edited ones should be reverted and the change');
+    console.log('shipped as a new migration.');
+  }
+  if (problems.length > 0) {
+    console.log('\nThe live schema differs from supabase/schema.json. Re-apply the migration that owns it');
+    console.log('(they are idempotent), or add a new migration and update schema.json if the change is intentional.');
+  }
+  if (!clean || problems.length > 0) return false;
+  console.log('Schema matches supabase/schema.json.');
+  return true;
+}
+
+function reset(url) {
+  const target = new URL(url);
+  const database = decodeURIComponent(target.pathname.slice(1));
+  if (!LOCAL_HOSTS.has(target.hostname)) {
+    throw new DbError(`Refusing to reset ${target.hostname}: db:reset only runs against a local database.`);
+  }
+  if (!database || database === 'postgres' || database.startsWith('template')) {
+    throw new DbError(`Refusing to reset the "${database || '(default)'}" database; point DATABASE_URL at a dedicated one.`);
+  }
+  const maintenance = new URL(url);
+  maintenance.pathname = '/postgres';
+  const ident = `"${database.replace(/"/g, '""')}"`;
+  psql(maintenance.toString(), { sql: `DROP DATABASE IF EXISTS ${ident} WITH (FORCE)` });
+  psql(maintenance.toString(), { sql: `CREATE DATABASE ${ident}` });
+  console.log(`Recreated database ${database}.`);
+  applyFile(url, BOOTSTRAP_FILE);
+  migrate(url);
+  return check(url);
+}
+
+const COMMANDS = { migrate, status, check, reset };
+
+function main() {
+  const [command] = process.argv.slice(2);
+  const run = COMMANDS[command];
+  if (!run) {
+    console.error(`Usage: node scripts/db.mjs <${Object.keys(COMMANDS).join('|')}>`);
+    process.exit(2);
+  }
+  const url = process.env.DATABASE_URL || DEFAULT_DATABASE_URL;
+  try {
+    if (run(url) === false) process.exit(1);
+  } catch (error) {
+    if (!(error instanceof DbError)) throw error;
+    console.error(error.message);
+    process.exit(1);
+  }
+}
+
+main();
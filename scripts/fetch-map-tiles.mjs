@@ -0,0 +1,102 @@
+#!/usr/bin/env node
+// Downloads the raster tiles that cover NYC into public/tiles/, where the Leaflet map loads them
+// from by default, so the map never calls an outside tile server at runtime.
+//
+//   TILE_SOURCE_URL='https://tiles.example.com/{z}/{x}/{y}.png' npm run tiles:fetch
+//   TILE_SOURCE_URL=… npm run tiles:fetch -- --max-zoom 16
+//
+// TILE_SOURCE_URL is required. Use a tile server you run, or a provider whose terms allow bulk
+// downloads; the openstreetmap.org tile servers do not. Tiles already on disk are skipped, so a
+// second run only fills in what is missing. Zoom 8 to 15 is about 4,000 tiles; each zoom level
+// above that has four times as many as the one before. The map enlarges the top level's tiles
+// beyond it (NEXT_PUBLIC_MAP_TILE_MAX_ZOOM, see README.md).
+
+import { existsSync, mkdirSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), '..');
+const OUTPUT = join(ROOT, 'public', 'tiles');
+
+/** Keep in sync with NYC_BOUNDS in src/lib/geo.ts. */
+const NYC_BOUNDS = { south: 40.47, north: 40.93, west: -74.27, east: -73.68 };
+/** The lowest zoom a shared Court Finder link may open at (src/lib/courtFinderUrl.ts). */
+const DEFAULT_MIN_ZOOM = 8;
+const DEFAULT_MAX_ZOOM = 15;
+const CONCURRENCY = 4;
+
+class TileError extends Error {}
+
+function option(args, name, fallback) {
+  const i = args.indexOf(name);
+  if (i === -1) return fallback;
+  const value = Number(args[i + 1]);
+  if (!Number.isInteger(value) || value < 0 || value > 20) {
+    throw new TileError(`${name} needs a zoom level from 0 to 20.`);
+  }
+  return value;
+}
+
+/** Web Mercator tile column and row containing a coordinate. */
+function tileAt(lat, lng, zoom) {
+  const n = 2 ** zoom;
+  const rad = (lat * Math.PI) / 180;
+  return {
+    x: Math.floor(((lng + 180) / 360) * n),
+    y: Math.floor(((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) * n),
+  };
+}
+
+function* tilesCovering(bounds, minZoom, maxZoom) {
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const topLeft = tileAt(bounds.north, bounds.west, z);
+    const bottomRight = tileAt(bounds.south, bounds.east, z);
+    for (let x = topLeft.x; x <= bottomRight.x; x++) {
+      for (let y = topLeft.y; y <= bottomRight.y; y++) yield { z, x, y };
+    }
+  }
+}
+
+async function fetchTile(source, { z, x, y }) {
+  const file = join(OUTPUT, String(z), String(x), `${y}.png`);
+  if (existsSync(file)) return false;
+  const url = source.replace('{z}', z).replace('{x}', x).replace('{y}', y);
+  const response = await fetch(url, { headers: { 'User-Agent': 'smartcourt-tiles-fetch' } });
+  if (!response.ok) throw new TileError(`${url} answered ${response.status} ${response.statusText}.`);
+  mkdirSync(dirname(file), { recursive: true });
+  writeFileSync(file, Buffer.from(await response.arrayBuffer()));
+  return true;
+}
+
+async function main() {
+  try {
+    const source = process.env.TILE_SOURCE_URL;
+    if (!source || !['{z}', '{x}', '{y}'].every((part) => source.includes(part))) {
+      throw new TileError('Set TILE_SOURCE_URL to a tile URL template with {z}, {x} and {y}.');
+    }
+    const args = process.argv.slice(2);
+    const minZoom = option(args, '--min-zoom', DEFAULT_MIN_ZOOM);
+    const maxZoom = option(args, '--max-zoom', DEFAULT_MAX_ZOOM);
+    if (minZoom > maxZoom) throw new TileError('--min-zoom is above --max-zoom.');
+
+    const tiles = [...tilesCovering(NYC_BOUNDS, minZoom, maxZoom)];
+    let next = 0;
+    let fetched = 0;
+    const worker = async () => {
+      while (next < tiles.length) {
+        if (await fetchTile(source, tiles[next++])) fetched += 1;
+      }
+    };
+    await Promise.all(Array.from({ length: CONCURRENCY }, worker));
+    console.log(
+      `${tiles.length} tiles for zoom ${minZoom}-${maxZoom} in public/tiles/: fetched ${fetched}, ` +
+        `${tiles.length - fetched} already there.`
+    );
+  } catch (error) {
+    if (!(error instanceof TileError)) throw error;
+    console.error(error.message);
+    process.exit(1);
+  }
+}
+
+main();
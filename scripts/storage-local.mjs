@@ -0,0 +1,294 @@
+#!/usr/bin/env node
+// A small stand-in for Supabase Storage, backed by the local database from `npm run db:reset`.
+//
+//   npm run storage:local   serve http://localhost:54330/storage/v1, files under .storage-local/
+//
+// Covers what the app and `npm run photos:cleanup` use: upload, signed URLs (single and bulk),
+// signed and public downloads, and bulk delete. Object rows live in storage.objects and every
+// request runs as the caller's role, so the bucket limits and storage policies from the migrations
+// apply exactly as written. A request with SUPABASE_SERVICE_ROLE_KEY acts as service_role; any
+// other key acts as anon. Not a security boundary — local testing only.
+
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'node:crypto';
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { createServer } from 'node:http';
+import { dirname, join, resolve, sep } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { DEFAULT_DATABASE_URL, DbError, LOCAL_HOSTS, literal, rows } from './psql.mjs';
+
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), '..');
+const PORT = Number(process.env.STORAGE_PORT || 54330);
+const FILES_DIR = resolve(process.env.STORAGE_DIR || join(ROOT, '.storage-local'));
+const SERVICE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY || 'local-service-role-key';
+const DATABASE_URL = process.env.DATABASE_URL || DEFAULT_DATABASE_URL;
+/** Uploads without a bucket limit are still capped, so a stray request cannot fill the disk. */
+const MAX_BODY_BYTES = 50 * 1024 * 1024;
+/** Signing key for this process only; restarting invalidates outstanding URLs. */
+const SIGNING_SECRET = randomBytes(32);
+
+class StorageError extends Error {
+  constructor(status, error, message) {
+    super(message);
+    this.status = status;
+    this.error = error;
+  }
+}
+
+/** Runs `sql` as `role` so row-level security and grants decide, as in hosted Storage. */
+function queryAs(role, sql) {
+  try {
+    return rows(DATABASE_URL, null, { input: `BEGIN;\nSET LOCAL ROLE ${role};\n${sql};\nCOMMIT;\n` });
+  } catch (error) {
+    if (error instanceof DbError && /row-level security|permission denied/i.test(error.message)) {
+      throw new StorageError(403, 'Unauthorized', error.message.replace(/^ERROR:\s*/, ''));
+    }
+    throw error;
+  }
+}
+
+function roleOf(req) {
+  const auth = req.headers.authorization ?? '';
+  const key = auth.startsWith('Bearer ') ? auth.slice(7) : req.headers.apikey;
+  return key === SERVICE_KEY ? 'service_role' : 'anon';
+}
+
+function bucketConfig(bucket) {
+  const [row] = rows(
+    DATABASE_URL,
+    `SELECT public, coalesce(file_size_limit::text, ''), coalesce(array_to_string(allowed_mime_types, ','), '')
+     FROM storage.buckets WHERE id = ${literal(bucket)}`
+  );
+  if (!row) throw new StorageError(404, 'Bucket not found', 'Bucket not found');
+  const [isPublic, sizeLimit, mimeTypes] = row;
+  return {
+    public: isPublic === 't' || isPublic === 'true',
+    sizeLimit: sizeLimit ? Number(sizeLimit) : null,
+    mimeTypes: mimeTypes ? mimeTypes.split(',') : null,
+  };
+}
+
+/** Object names are relative paths; anything that could escape the bucket directory is refused. */
+function filePath(bucket, name) {
+  const path = resolve(FILES_DIR, bucket, name);
+  if (!name || name.startsWith('/') || !path.startsWith(resolve(FILES_DIR, bucket) + sep)) {
+    throw new StorageError(400, 'InvalidKey', `Invalid key: ${name}`);
+  }
+  return path;
+}
+
+function sign(bucket, name, expiresIn) {
+  const payload = Buffer.from(
+    JSON.stringify({ url: `${bucket}/${name}`, exp: Math.floor(Date.now() / 1000) + expiresIn })
+  ).toString('base64url');
+  const mac = createHmac('sha256', SIGNING_SECRET).update(payload).digest('base64url');
+  return `/object/sign/${bucket}/${name}?token=${payload}.${mac}`;
+}
+
+function verify(bucket, name, token) {
+  const [payload = '', mac = ''] = (token ?? '').split('.');
+  const expected = createHmac('sha256', SIGNING_SECRET).update(payload).digest();
+  const given = Buffer.from(mac, 'base64url');
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+    throw new StorageError(400, 'InvalidSignature', 'Invalid signature');
+  }
+  const { url, exp } = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  if (url !== `${bucket}/${name}`) throw new StorageError(400, 'InvalidSignature', 'Invalid signature');
+  if (exp <= Math.floor(Date.now() / 1000)) throw new StorageError(400, 'InvalidJWT', 'jwt expired');
+}
+
+function readBody(req, limit) {
+  return new Promise((resolveBody, reject) => {
+    const chunks = [];
+    let size = 0;
+    req.on('data', (chunk) => {
+      size += chunk.length;
+      // Keep draining the rest so the client still receives the 413.
+      if (size > limit) {
+        reject(new StorageError(413, 'Payload too large', 'The object exceeded the maximum allowed size'));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolveBody(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+async function readJson(req) {
+  const body = await readBody(req, 1024 * 1024);
+  try {
+    return JSON.parse(body.toString('utf8') || '{}');
+  } catch {
+    throw new StorageError(400, 'InvalidRequest', 'Body is not valid JSON');
+  }
+}
+
+/** Names in `names` the role may read; the storage select policies decide. */
+function readable(role, bucket, names) {
+  if (names.length === 0) return new Set();
+  return new Set(
+    queryAs(
+      role,
+      `SELECT name FROM storage.objects WHERE bucket_id = ${literal(bucket)} AND name IN (${names
+        .map(literal)
+        .join(', ')})`
+    ).map(([name]) => name)
+  );
+}
+
+async function upload(req, res, role, bucket, name) {
+  const config = bucketConfig(bucket);
+  const contentType = (req.headers['content-type'] ?? 'application/octet-stream').split(';')[0].trim();
+  if (config.mimeTypes && !config.mimeTypes.includes(contentType)) {
+    throw new StorageError(415, 'invalid_mime_type', `mime type ${contentType} is not supported`);
+  }
+  const body = await readBody(req, Math.min(config.sizeLimit ?? MAX_BODY_BYTES, MAX_BODY_BYTES));
+  const path = filePath(bucket, name);
+  const [exists] = rows(
+    DATABASE_URL,
+    `SELECT 1 FROM storage.objects WHERE bucket_id = ${literal(bucket)} AND name = ${literal(name)}`
+  );
+  if (exists) throw new StorageError(409, 'Duplicate', 'The resource already exists');
+  // No RETURNING: anon may insert an object it is not (yet) allowed to read.
+  const id = randomUUID();
+  const metadata = JSON.stringify({ size: body.length, mimetype: contentType });
+  queryAs(
+    role,
+    `INSERT INTO storage.objects (id, bucket_id, name, metadata)
+     VALUES (${literal(id)}, ${literal(bucket)}, ${literal(name)}, ${literal(metadata)}::jsonb)`
+  );
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, body);
+  send(res, 200, { Key: `${bucket}/${name}`, Id: id });
+}
+
+async function signMany(req, res, role, bucket) {
+  const { expiresIn, paths } = await readJson(req);
+  if (!Array.isArray(paths) || !(expiresIn > 0)) {
+    throw new StorageError(400, 'InvalidRequest', 'expiresIn and paths are required');
+  }
+  const allowed = readable(role, bucket, paths);
+  send(
+    res,
+    200,
+    paths.map((path) =>
+      allowed.has(path)
+        ? { error: null, path, signedURL: sign(bucket, path, expiresIn) }
+        : { error: 'Either the object does not exist or you do not have access to it', path, signedURL: null }
+    )
+  );
+}
+
+async function signOne(req, res, role, bucket, name) {
+  const { expiresIn } = await readJson(req);
+  if (!(expiresIn > 0)) throw new StorageError(400, 'InvalidRequest', 'expiresIn is required');
+  if (!readable(role, bucket, [name]).has(name)) throw new StorageError(400, 'not_found', 'Object not found');
+  send(res, 200, { signedURL: sign(bucket, name, expiresIn) });
+}
+
+function download(res, bucket, name) {
+  const [row] = rows(
+    DATABASE_URL,
+    `SELECT coalesce(metadata->>'mimetype', 'application/octet-stream') FROM storage.objects
+     WHERE bucket_id = ${literal(bucket)} AND name = ${literal(name)}`
+  );
+  if (!row) throw new StorageError(400, 'not_found', 'Object not found');
+  res.writeHead(200, { 'Content-Type': row[0], 'Cache-Control': 'private, max-age=60' });
+  res.end(readFileSync(filePath(bucket, name)));
+}
+
+async function removeMany(req, res, role, bucket) {
+  const { prefixes } = await readJson(req);
+  if (!Array.isArray(prefixes)) throw new StorageError(400, 'InvalidRequest', 'prefixes is required');
+  const deleted =
+    prefixes.length === 0
+      ? []
+      : queryAs(
+          role,
+          `DELETE FROM storage.objects WHERE bucket_id = ${literal(bucket)} AND name IN (${prefixes
+            .map(literal)
+            .join(', ')}) RETURNING name`
+        ).map(([name]) => name);
+  for (const name of deleted) rmSync(filePath(bucket, name), { force: true });
+  send(res, 200, deleted.map((name) => ({ bucket_id: bucket, name })));
+}
+
+function send(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+/** `/storage/v1/object/<rest>` → decoded path segments after `object`. */
+function objectSegments(pathname) {
+  const match = /^\/storage\/v1\/object\/(.+)$/.exec(pathname);
+  return match ? match[1].split('/').map(decodeURIComponent) : null;
+}
+
+async function handle(req, res) {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  const segments = objectSegments(url.pathname);
+  if (!segments) throw new StorageError(404, 'not_found', `No route for ${url.pathname}`);
+  const role = roleOf(req);
+  const [first, ...rest] = segments;
+
+  if (first === 'sign') {
+    const [bucket, ...name] = rest;
+    if (req.method === 'GET') {
+      verify(bucket, name.join('/'), url.searchParams.get('token'));
+      return download(res, bucket, name.join('/'));
+    }
+    if (req.method === 'POST') {
+      return name.length === 0 ? signMany(req, res, role, bucket) : signOne(req, res, role, bucket, name.join('/'));
+    }
+  } else if (first === 'public' && req.method === 'GET') {
+    const [bucket, ...name] = rest;
+    if (!bucketConfig(bucket).public) throw new StorageError(400, 'not_found', 'Bucket not found');
+    return download(res, bucket, name.join('/'));
+  } else if (req.method === 'POST' || req.method === 'PUT') {
+    return upload(req, res, role, first, rest.join('/'));
+  } else if (req.method === 'DELETE' && rest.length === 0) {
+    return removeMany(req, res, role, first);
+  }
+  throw new StorageError(405, 'method_not_allowed', `${req.method} ${url.pathname} is not supported`);
+}
+
+function main() {
+  const target = new URL(DATABASE_URL);
+  if (!LOCAL_HOSTS.has(target.hostname)) {
+    console.error(`Refusing to serve storage for ${target.hostname}: storage:local only uses a local database.`);
+    process.exit(1);
+  }
+  mkdirSync(FILES_DIR, { recursive: true });
+  const server = createServer((req, res) => {
+    // The app calls Storage from the browser on another origin.
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
+    res.setHeader(
+      'Access-Control-Allow-Headers',
+      'authorization, apikey, content-type, cache-control, x-upsert, x-client-info'
+    );
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+    handle(req, res).catch((error) => {
+      if (!(error instanceof StorageError)) console.error(error);
+      const status = error instanceof StorageError ? error.status : 500;
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      send(res, status, {
+        statusCode: String(status),
+        error: error instanceof StorageError ? error.error : 'internal',
+        message: error.message,
+      });
+    });
+  });
+  server.listen(PORT, () => {
+    console.log(`Local storage on http://localhost:${PORT}/storage/v1 (files in ${FILES_DIR})`);
+  });
+}
+
+main();
@@ -0,0 +1,17 @@
+import Demo from '@/components/blocks/demo';
+import { loadCourtCatalogue } from '@/lib/courtCatalogue';
+import { loadSubwayStations } from '@/lib/subwayStations';
+
+/**
+ * Desktop landing page plus the mobile tab shell. Each tab is a route rendered into the shell, so
+ * the hardware back button moves between tabs and tabs can be linked to; the shell's shared state
+ * (live reports, near-me, collapsed filters) survives switching between them.
+ */
+export default function AppLayout({ children }: { children: React.ReactNode }) {
+  const { courts } = loadCourtCatalogue();
+  return (
+    <Demo courts={courts} stations={loadSubwayStations()}>
+      {children}
+    </Demo>
+  );
+}
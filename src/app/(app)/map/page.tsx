@@ -0,0 +1,8 @@
+import type { Metadata } from 'next';
+import { MobileCourtFinder } from '@/components/mobile/MobileTabs';
+
+export const metadata: Metadata = { title: 'Court Map' };
+
+export default function MapTab() {
+  return <MobileCourtFinder mapOnly />;
+}
@@ -0,0 +1,8 @@
+import type { Metadata } from 'next';
+import { MobileMoreTab } from '@/components/mobile/MobileTabs';
+
+export const metadata: Metadata = { title: 'More' };
+
+export default function MoreTab() {
+  return <MobileMoreTab />;
+}
@@ -0,0 +1,5 @@
+import { MobileHomeTab } from '@/components/mobile/MobileTabs';
+
+export default function Home() {
+  return <MobileHomeTab />;
+}
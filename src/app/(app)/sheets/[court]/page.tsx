@@ -0,0 +1,22 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { SIGNUP_SHEET_COURTS, signupSheetCourtBySlug } from '@/data/signupSheetCourts';
+
+type SheetCourtPageProps = { params: Promise<{ court: string }> };
+
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return SIGNUP_SHEET_COURTS.map((court) => ({ court: court.slug }));
+}
+
+export async function generateMetadata({ params }: SheetCourtPageProps): Promise<Metadata> {
+  const court = signupSheetCourtBySlug((await params).court);
+  return court ? { title: `${court.name} sign up sheet` } : {};
+}
+
+/** Rendered by the sheets layout. */
+export default async function SheetCourtPage({ params }: SheetCourtPageProps) {
+  if (!signupSheetCourtBySlug((await params).court)) notFound();
+  return null;
+}
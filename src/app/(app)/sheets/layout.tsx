@@ -0,0 +1,15 @@
+import { MobileSignupSheets } from '@/components/mobile/signup-sheets/MobileSignupSheets';
+
+/**
+ * The panel lives in this layout, not the pages, so its borough list, photo and transitions
+ * survive moving between the list, a court and its report form. The pages below only check the
+ * court and set the title.
+ */
+export default function SheetsLayout({ children }: { children: React.ReactNode }) {
+  return (
+    <>
+      <MobileSignupSheets />
+      {children}
+    </>
+  );
+}
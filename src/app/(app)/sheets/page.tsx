@@ -0,0 +1,8 @@
+import type { Metadata } from 'next';
+
+export const metadata: Metadata = { title: 'Sign Up Sheets' };
+
+/** Rendered by the sheets layout. */
+export default function SheetsTab() {
+  return null;
+}
@@ -0,0 +1,56 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { CourtDetail } from '@/components/blocks/CourtDetail';
+import { courtBySlug, loadCourtCatalogue } from '@/lib/courtCatalogue';
+import { loadSubwayStations } from '@/lib/subwayStations';
+import type { CourtData } from '@/types/courts';
+
+type CourtPageProps = { params: Promise<{ slug: string }> };
+
+/** Every court is prerendered; anything else is a 404. */
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return loadCourtCatalogue().courts.map((court) => ({ slug: court.slug }));
+}
+
+/** e.g. "4 tennis courts (Hard) in Brooklyn, 50 Navy St. Permit: Required & Enforced." */
+function courtDescription(court: CourtData): string {
+  const plural = court.courts !== 1 ? 's' : '';
+  const surface = court.surface ? ` (${court.surface})` : '';
+  const address = court.address.replace(/\.$/, '');
+  const permit = court.permitStatus === 'Unknown' ? '' : ` Permit: ${court.permitStatus}.`;
+  return `${court.courts} tennis court${plural}${surface} in ${court.borough}, ${address}.${permit}`;
+}
+
+export async function generateMetadata({ params }: CourtPageProps): Promise<Metadata> {
+  const court = courtBySlug((await params).slug);
+  if (!court) return {};
+  const description = courtDescription(court);
+  const url = `/courts/${court.slug}`;
+  return {
+    title: court.name,
+    description,
+    alternates: { canonical: url },
+    openGraph: {
+      type: 'website',
+      siteName: 'SmartCourt NYC',
+      url,
+      title: court.name,
+      description,
+      images: [{ url: '/smartcourtnyc-og.png', alt: 'SmartCourt NYC' }],
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title: court.name,
+      description,
+      images: ['/smartcourtnyc-og.png'],
+    },
+  };
+}
+
+export default async function CourtPage({ params }: CourtPageProps) {
+  const court = courtBySlug((await params).slug);
+  if (!court) notFound();
+  return <CourtDetail court={court} stations={loadSubwayStations()} />;
+}
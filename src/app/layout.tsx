@@ -1,6 +1,8 @@
-import type { Metadata } from "next";
+import type { Metadata, Viewport } from "next";
 import { Cormorant_Garamond, Geist, Geist_Mono } from "next/font/google";
 import { Analytics } from '@vercel/analytics/react';
+import { siteUrl } from "@/lib/siteUrl";
+import { ServiceWorkerRegistration } from "@/components/ServiceWorkerRegistration";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -24,13 +26,8 @@ const displaySerif = Cormorant_Garamond({
 const siteDescription =
   "Know before you go. Real-time wait times and court info for NYC public tennis courts.";
 
-const metadataBase = new URL(
-  process.env.NEXT_PUBLIC_SITE_URL ??
-    (process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : "http://localhost:3000"),
-);
-
 export const metadata: Metadata = {
-  metadataBase,
+  metadataBase: siteUrl,
   applicationName: "SmartCourt NYC",
   title: {
     default: "SmartCourt NYC",
@@ -55,7 +52,20 @@ export const metadata: Metadata = {
     description: siteDescription,
     images: ["/smartcourtnyc-og.png"],
   },
-  viewport: "width=device-width, initial-scale=1, maximum-scale=1, user-scalable=no, viewport-fit=cover",
+  appleWebApp: {
+    capable: true,
+    title: "SmartCourt",
+    statusBarStyle: "black-translucent",
+  },
+};
+
+export const viewport: Viewport = {
+  width: "device-width",
+  initialScale: 1,
+  maximumScale: 1,
+  userScalable: false,
+  viewportFit: "cover",
+  themeColor: "#2D5A27",
 };
 
 export default function RootLayout({
@@ -70,6 +80,7 @@ export default function RootLayout({
       >
         {children}
         <Analytics />
+        <ServiceWorkerRegistration />
       </body>
     </html>
   );
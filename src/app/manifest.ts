@@ -0,0 +1,19 @@
+import type { MetadataRoute } from 'next';
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: 'SmartCourt NYC',
+    short_name: 'SmartCourt',
+    description:
+      'Know before you go. Real-time wait times and court info for NYC public tennis courts.',
+    id: '/',
+    start_url: '/',
+    scope: '/',
+    display: 'standalone',
+    orientation: 'portrait',
+    background_color: '#FFFFFF',
+    theme_color: '#2D5A27',
+    categories: ['sports', 'navigation'],
+    icons: [{ src: '/icon.png', sizes: '512x512', type: 'image/png' }],
+  };
+}
@@ -1,5 +0,0 @@
-import Demo from '@/components/blocks/demo';
-
-export default function Home() {
-  return <Demo />;
-}
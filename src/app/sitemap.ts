@@ -0,0 +1,15 @@
+import type { MetadataRoute } from 'next';
+import { loadCourtCatalogue } from '@/lib/courtCatalogue';
+import { siteUrl } from '@/lib/siteUrl';
+
+export default function sitemap(): MetadataRoute.Sitemap {
+  const { courts } = loadCourtCatalogue();
+  return [
+    { url: siteUrl.href, changeFrequency: 'hourly', priority: 1 },
+    ...courts.map((court) => ({
+      url: new URL(`/courts/${court.slug}`, siteUrl).href,
+      changeFrequency: 'weekly' as const,
+      priority: 0.8,
+    })),
+  ];
+}
@@ -0,0 +1,19 @@
+'use client';
+
+import { useEffect } from 'react';
+
+/**
+ * Registers `public/sw.js` for offline use. Production only: in development the worker's
+ * cache-first build assets would shadow hot reloads. The build ID in the script URL versions the
+ * worker's caches, and a new URL on each deploy makes the browser install the new worker.
+ */
+export function ServiceWorkerRegistration() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+    const url = `/sw.js?v=${encodeURIComponent(process.env.NEXT_PUBLIC_BUILD_ID ?? 'dev')}`;
+    navigator.serviceWorker.register(url, { scope: '/' }).catch((err) => {
+      console.warn('Service worker registration failed:', err);
+    });
+  }, []);
+  return null;
+}
@@ -0,0 +1,113 @@
+import Link from 'next/link';
+import { CornerUpLeft, MapPin } from 'lucide-react';
+import type { CourtData } from '@/types/courts';
+import type { SubwayStation } from '@/types/transit';
+import { AMENITY_LABELS } from '@/data/courtOptions';
+import { waitTimeCourtForCatalogue } from '@/data/waitTimeCourts';
+import { signupSheetCourtForCatalogue } from '@/data/signupSheetCourts';
+import { STATION_WALK_RANGE_MILES, nearestStations } from '@/lib/travelTime';
+import { CourtLiveInfo } from '@/components/blocks/CourtLiveInfo';
+import { CourtTravelTime } from '@/components/blocks/CourtTravelTime';
+import { StationWalk } from '@/components/blocks/TravelTime';
+
+const NEAREST_STATION_COUNT = 2;
+
+function Fact({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="flex flex-col gap-0.5 border-b border-[#2D5A27]/15 py-3 last:border-b-0">
+      <dt className="text-xs font-semibold uppercase tracking-wider text-gray-500">{label}</dt>
+      <dd className="text-base text-[#1A1A1A]">{children}</dd>
+    </div>
+  );
+}
+
+/** Static court facts from the catalogue; live reports and open status load on the client. */
+export function CourtDetail({ court, stations }: { court: CourtData; stations: SubwayStation[] }) {
+  const waitTimeCourt = waitTimeCourtForCatalogue(court);
+  const nearby = nearestStations(court, stations, NEAREST_STATION_COUNT, STATION_WALK_RANGE_MILES);
+  const signupSheetCourt = signupSheetCourtForCatalogue(court);
+  const directionsUrl = `https://www.google.com/maps/dir/?api=1&destination=${court.lat},${court.lng}`;
+
+  return (
+    <main className="mx-auto flex min-h-dvh max-w-2xl flex-col gap-6 bg-white px-4 pb-12 pt-[calc(env(safe-area-inset-top)+1rem)]">
+      <Link
+        href="/courts"
+        className="inline-flex w-fit items-center gap-1.5 text-sm font-medium text-[#2D5A27] hover:underline"
+      >
+        <CornerUpLeft className="h-4 w-4" aria-hidden />
+        All courts
+      </Link>
+
+      <header>
+        <p className="text-xs font-semibold uppercase tracking-wider text-gray-500">{court.borough}</p>
+        <h1 className="mt-1 text-3xl font-bold text-[#2D5A27]">{court.name}</h1>
+        <a
+          href={directionsUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="mt-2 inline-flex items-start gap-1.5 text-sm text-gray-600 hover:text-[#2D5A27]"
+        >
+          <MapPin className="mt-0.5 h-4 w-4 shrink-0" aria-hidden />
+          {court.address}
+        </a>
+      </header>
+
+      <CourtLiveInfo
+        schedule={court.schedule}
+        waitTimeCourtId={waitTimeCourt?.id}
+        signupSheetCourtName={signupSheetCourt?.name}
+      />
+
+      <dl className="rounded-xl border-2 border-[#2D5A27]/35 bg-white/50 px-4 shadow-sm">
+        <Fact label="Surface">{court.surface || 'Not listed'}</Fact>
+        <Fact label="Courts">{court.courts}</Fact>
+        <Fact label="Hours">
+          {court.hours || 'Not listed'}
+          {court.schedule.lights ? <span className="text-gray-500"> · Floodlights</span> : null}
+        </Fact>
+        <Fact label="Season">{court.datesOpen || 'Not listed'}</Fact>
+        <Fact label="Permit">{court.permitStatus}</Fact>
+        {court.amenities.length > 0 ? (
+          <Fact label="Amenities">{court.amenities.map((a) => AMENITY_LABELS[a]).join(' · ')}</Fact>
+        ) : null}
+      </dl>
+
+      <section>
+        <h2 className="mb-2 text-lg font-semibold text-[#2D5A27]">Getting there</h2>
+        {nearby.length > 0 ? (
+          <ul className="mb-4 flex flex-col gap-2 text-sm text-[#1A1A1A]">
+            {nearby.map((n) => (
+              <li key={n.station.name}>
+                <StationWalk nearby={n} />
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="mb-4 text-sm text-gray-600">No subway station within walking distance.</p>
+        )}
+        <CourtTravelTime court={{ lat: court.lat, lng: court.lng }} stations={stations} />
+        <p className="mt-3 text-xs text-gray-500">
+          Estimates from station locations and typical speeds, not live service.
+        </p>
+      </section>
+
+      {court.description ? (
+        <section>
+          <h2 className="mb-2 text-lg font-semibold text-[#2D5A27]">Local tips</h2>
+          <p className="whitespace-pre-line text-sm leading-relaxed text-gray-700">{court.description}</p>
+        </section>
+      ) : null}
+
+      {court.mapsEmbedUrl ? (
+        <iframe
+          src={court.mapsEmbedUrl}
+          title={`Map of ${court.name}`}
+          className="h-64 w-full rounded-xl border-2 border-[#2D5A27]/35"
+          loading="lazy"
+          referrerPolicy="no-referrer-when-downgrade"
+          allowFullScreen
+        />
+      ) : null}
+    </main>
+  );
+}
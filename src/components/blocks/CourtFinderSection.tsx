@@ -1,181 +1,129 @@
 'use client';
 
-import { useState, useEffect, useMemo } from 'react';
-import { Wrapper, Status } from '@googlemaps/react-wrapper';
+import { useId, useMemo } from 'react';
 import { motion } from 'framer-motion';
-import type { CourtData } from '@/types/courts';
+import type { CourtAmenity, CourtData } from '@/types/courts';
+import type { SubwayStation } from '@/types/transit';
+import {
+  AMENITY_LABELS,
+  COURT_AMENITIES,
+  COURT_SURFACES,
+  FILTER_BOROUGHS,
+  PERMIT_FILTER_OPTIONS,
+} from '@/data/courtOptions';
+import type { AvailabilityFilter } from '@/lib/courtSchedule';
+import { MONTHS, WEEKDAYS, formatClockTime, nycLocalTime } from '@/lib/nycTime';
+import type { CourtLiveReports } from '@/lib/courtPins';
+import type { MapViewport } from '@/lib/mapProvider';
+import { filterCourts, type NearMe } from '@/lib/courtFilters';
+import { withTravelEstimates } from '@/lib/travelTime';
+import { buildCourtSearchIndex, searchCourts, withSearchHits } from '@/lib/courtSearch';
+import { CourtMap } from '@/components/blocks/CourtMap';
+import { NearMeControl } from '@/components/blocks/NearMeControl';
+import { CourtSearchInput } from '@/components/blocks/CourtSearch';
+import { CourtResultList } from '@/components/blocks/CourtResultList';
 
-const loadCourtsData = async (): Promise<CourtData[]> => {
-  try {
-    const response = await fetch('/NYC TENNIS COURTS - Sheet1.csv');
-    const csvText = await response.text();
-    const courts: CourtData[] = [];
-    const lines = csvText.split('\n');
-    let currentRow: string[] = [];
-    let currentField = '';
-    let inQuotes = false;
+/** Hourly choices for "open at", 6am to 11pm. */
+const AT_TIME_OPTIONS = Array.from({ length: 18 }, (_, i) => (i + 6) * 60);
 
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      if (i === 0) continue;
-      for (let j = 0; j < line.length; j++) {
-        const char = line[j];
-        if (char === '"') inQuotes = !inQuotes;
-        else if (char === ',' && !inQuotes) {
-          currentRow.push(currentField.trim());
-          currentField = '';
-        } else currentField += char;
-      }
-      if (!inQuotes) {
-        currentRow.push(currentField.trim());
-        if (currentRow.length >= 11) {
-          const court: CourtData = {
-            id: courts.length + 1,
-            name: currentRow[0] || '',
-            address: currentRow[1] || '',
-            borough: currentRow[2] || '',
-            surface: currentRow[3] || '',
-            permitStatus: currentRow[4] || '',
-            courts: parseInt(currentRow[5]) || 0,
-            datesOpen: currentRow[6] || '',
-            hours: currentRow[7] || '',
-            description: currentRow[8] || '',
-            lat: parseFloat(currentRow[9]) || 0,
-            lng: parseFloat(currentRow[10]) || 0,
-          };
-          if (court.lat !== 0 && court.lng !== 0 && court.name) courts.push(court);
-        }
-        currentRow = [];
-        currentField = '';
-      } else currentField += '\n';
-    }
-    return courts;
-  } catch {
-    return [];
-  }
-};
+const filterSelectClass =
+  'min-h-[44px] w-full rounded-lg border-2 border-[#2D5A27]/40 bg-white/70 px-2 py-2 text-sm text-[#1A1A1A] focus:border-[#2D5A27] focus:outline-none focus:ring-2 focus:ring-[#2D5A27] focus:ring-opacity-20';
 
-const MapComponent = ({
-  courts,
-  selectedBoroughs,
-  selectedSurfaces,
-  selectedPermitStatuses,
-  className,
+function AvailabilityFilterControl({
+  value,
+  onChange,
 }: {
-  courts: CourtData[];
-  selectedBoroughs: string[];
-  selectedSurfaces: string[];
-  selectedPermitStatuses: string[];
-  className?: string;
-}) => {
-  const [map, setMap] = useState<google.maps.Map | null>(null);
-  const [markers, setMarkers] = useState<google.maps.Marker[]>([]);
-
-  const filteredCourts = useMemo(() => {
-    return courts.filter((court) => {
-      const boroughMatch = selectedBoroughs.length === 0 || selectedBoroughs.includes(court.borough);
-      const surfaceMatch = selectedSurfaces.length === 0 || selectedSurfaces.includes(court.surface);
-      const permitMatch =
-        selectedPermitStatuses.length === 0 || selectedPermitStatuses.includes(court.permitStatus);
-      return boroughMatch && surfaceMatch && permitMatch;
-    });
-  }, [courts, selectedBoroughs, selectedSurfaces, selectedPermitStatuses]);
-
-  useEffect(() => {
-    if (!map) return;
-    markers.forEach((marker) => marker.setMap(null));
-    const color = '#2D5A27';
-    const iconUrl = `data:image/svg+xml;charset=UTF-8,${encodeURIComponent(
-      `<svg xmlns="http://www.w3.org/2000/svg" width="30" height="30" viewBox="0 0 30 30">
-        <circle cx="15" cy="15" r="12" fill="${color}" stroke="white" stroke-width="2"/>
-        <circle cx="15" cy="15" r="4" fill="white"/>
-      </svg>`
-    )}`;
-
-    const newMarkers = filteredCourts.map((court) => {
-      const marker = new google.maps.Marker({
-        position: { lat: court.lat, lng: court.lng },
-        map,
-        title: court.name,
-        icon: { url: iconUrl, scaledSize: new google.maps.Size(30, 30) },
-      });
-      const infoWindow = new google.maps.InfoWindow({
-        content: `
-          <div style="color: black; font-family: Arial, sans-serif; max-width: 300px; padding: 8px;">
-            <h3 style="margin: 0 0 8px 0; font-size: 16px; font-weight: bold;">${court.name}</h3>
-            <p style="margin: 4px 0; font-size: 12px; color: #666;">${court.address}</p>
-            <div style="margin: 8px 0;">
-              <p style="margin: 2px 0;"><strong>Surface:</strong> ${court.surface}</p>
-              <p style="margin: 2px 0;"><strong>Courts:</strong> ${court.courts}</p>
-              <p style="margin: 2px 0;"><strong>Hours:</strong> ${court.hours}</p>
-              <p style="margin: 2px 0;"><strong>Season:</strong> ${court.datesOpen}</p>
-              <p style="margin: 2px 0;"><strong>Permit:</strong> ${court.permitStatus}</p>
-            </div>
-            ${court.description ? `<p style="margin: 8px 0 0 0; font-size: 12px; color: #555; border-top: 1px solid #eee; padding-top: 8px; line-height: 1.4;">${court.description}</p>` : ''}
-          </div>
-        `,
-      });
-      marker.addListener('click', () => infoWindow.open(map, marker));
-      return marker;
-    });
-    setMarkers(newMarkers);
-    // eslint-disable-next-line react-hooks/exhaustive-deps -- markers cleared intentionally when filteredCourts changes
-  }, [map, filteredCourts]);
-
-  const mapRef = (node: HTMLDivElement | null) => {
-    if (node && !map) {
-      setMap(
-        new google.maps.Map(node, {
-          center: { lat: 40.7902065, lng: -73.9621475 },
-          zoom: 12,
-          styles: [
-            { featureType: 'poi', elementType: 'labels', stylers: [{ visibility: 'off' }] },
-            { featureType: 'road', elementType: 'geometry', stylers: [{ color: '#f5f5f5' }] },
-            { featureType: 'landscape', elementType: 'geometry', stylers: [{ color: '#f0f0f0' }] },
-            { featureType: 'water', elementType: 'geometry', stylers: [{ color: '#e0e0e0' }] },
-            { featureType: 'administrative', elementType: 'labels', stylers: [{ visibility: 'simplified' }] },
-            { featureType: 'transit', stylers: [{ visibility: 'off' }] },
-          ],
-        })
-      );
-    }
+  value: AvailabilityFilter;
+  onChange: (filter: AvailabilityFilter) => void;
+}) {
+  const changeKind = (kind: AvailabilityFilter['kind']) => {
+    if (kind === 'at') onChange({ kind, weekday: 6, minutes: 19 * 60 });
+    else if (kind === 'month') onChange({ kind, month: nycLocalTime(new Date()).month });
+    else onChange({ kind });
   };
 
   return (
-    <div
-      ref={mapRef}
-      style={{ width: '100%', height: '400px', borderRadius: '8px' }}
-      className={className || 'md:h-[600px]'}
-    />
+    <div className="flex w-full flex-col gap-3">
+      <select
+        aria-label="Opening hours"
+        className={filterSelectClass}
+        value={value.kind}
+        onChange={(e) => changeKind(e.target.value as AvailabilityFilter['kind'])}
+      >
+        <option value="any">Any time</option>
+        <option value="now">Open now</option>
+        <option value="at">Open at…</option>
+        <option value="month">Open in…</option>
+      </select>
+      {value.kind === 'at' && (
+        <div className="grid grid-cols-2 gap-2">
+          <select
+            aria-label="Day"
+            className={filterSelectClass}
+            value={value.weekday}
+            onChange={(e) => onChange({ ...value, weekday: Number(e.target.value) })}
+          >
+            {WEEKDAYS.map((day, i) => (
+              <option key={day} value={i}>
+                {day}
+              </option>
+            ))}
+          </select>
+          <select
+            aria-label="Time"
+            className={filterSelectClass}
+            value={value.minutes}
+            onChange={(e) => onChange({ ...value, minutes: Number(e.target.value) })}
+          >
+            {AT_TIME_OPTIONS.map((minutes) => (
+              <option key={minutes} value={minutes}>
+                {formatClockTime(minutes)}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+      {value.kind === 'month' && (
+        <select
+          aria-label="Month"
+          className={filterSelectClass}
+          value={value.month}
+          onChange={(e) => onChange({ kind: 'month', month: Number(e.target.value) })}
+        >
+          {MONTHS.map((month, i) => (
+            <option key={month} value={i + 1}>
+              {month}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
   );
-};
-
-const mapRender = (status: Status) => {
-  if (status === Status.FAILURE) {
-    return (
-      <div className="text-red-500 p-4 text-center">
-        Error loading Google Maps. Please check your API key.
-      </div>
-    );
-  }
-  return <div className="text-center p-4">Loading Google Maps...</div>;
-};
-
-const BOROUGHS = ['Manhattan', 'Brooklyn', 'Queens', 'The Bronx'];
-const SURFACES = ['Hard', 'Clay', 'Har-Tru'];
-const PERMIT_OPTIONS = [
-  { value: 'Required & Enforced', label: 'Required & Enforced' },
-  { value: 'Required, but Rarely Checked', label: 'Required, Rarely Checked' },
-  { value: 'Not Required', label: 'Not Required' },
-];
+}
 
 interface CourtFinderSectionProps {
+  courts: CourtData[];
+  /** Subway stations for the near-me travel times. */
+  stations: SubwayStation[];
+  /** Live wait times and sign-up sheet photos that color the map pins. */
+  liveReports: CourtLiveReports;
+  /** Free-text search; narrows the courts before the checkbox filters apply. */
+  query: string;
+  onQueryChange: (query: string) => void;
   selectedBoroughs: string[];
   selectedSurfaces: string[];
   selectedPermitStatuses: string[];
+  selectedAmenities: CourtAmenity[];
   onBoroughChange: (borough: string, checked: boolean) => void;
   onSurfaceChange: (surface: string, checked: boolean) => void;
   onPermitStatusChange: (permitStatus: string, checked: boolean) => void;
+  onAmenityChange: (amenity: CourtAmenity, checked: boolean) => void;
+  availability: AvailabilityFilter;
+  onAvailabilityChange: (filter: AvailabilityFilter) => void;
+  nearMe: NearMe | null;
+  onNearMeChange: (nearMe: NearMe | null) => void;
+  viewport?: MapViewport | null;
+  onViewportChange?: (viewport: MapViewport) => void;
   filtersCollapsed?: boolean;
   onFiltersCollapsedChange?: (collapsed: boolean) => void;
   isMobile?: boolean;
@@ -183,29 +131,59 @@ interface CourtFinderSectionProps {
 }
 
 export function CourtFinderSection({
+  courts,
+  stations,
+  liveReports,
+  query,
+  onQueryChange,
   selectedBoroughs,
   selectedSurfaces,
   selectedPermitStatuses,
+  selectedAmenities,
   onBoroughChange,
   onSurfaceChange,
   onPermitStatusChange,
+  onAmenityChange,
+  availability,
+  onAvailabilityChange,
+  nearMe,
+  onNearMeChange,
+  viewport,
+  onViewportChange,
   filtersCollapsed = false,
   onFiltersCollapsedChange,
   isMobile = false,
   mapOnly = false,
 }: CourtFinderSectionProps) {
-  const [courts, setCourts] = useState<CourtData[]>([]);
-  const [loading, setLoading] = useState(true);
-
-  useEffect(() => {
-    loadCourtsData().then((data) => {
-      setCourts(data);
-      setLoading(false);
+  /** Desktop and mobile layouts can both mount this section; keep their checkbox ids apart. */
+  const idPrefix = useId();
+  const searchIndex = useMemo(() => buildCourtSearchIndex(courts), [courts]);
+  const searchHits = useMemo(
+    () => (query.trim() ? searchCourts(searchIndex, query) : null),
+    [searchIndex, query]
+  );
+  const matches = useMemo(() => {
+    let filtered = filterCourts(searchHits ? searchHits.map((hit) => hit.court) : courts, {
+      boroughs: selectedBoroughs,
+      surfaces: selectedSurfaces,
+      permitStatuses: selectedPermitStatuses,
+      amenities: selectedAmenities,
+      availability,
+      nearMe,
     });
-  }, []);
-
-  const GOOGLE_MAPS_API_KEY = process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY || '';
-  const hasApiKey = GOOGLE_MAPS_API_KEY && GOOGLE_MAPS_API_KEY !== 'YOUR_API_KEY_HERE';
+    if (searchHits) filtered = withSearchHits(filtered, searchHits);
+    return nearMe ? withTravelEstimates(filtered, nearMe, stations) : filtered;
+  }, [
+    courts,
+    stations,
+    searchHits,
+    selectedBoroughs,
+    selectedSurfaces,
+    selectedPermitStatuses,
+    selectedAmenities,
+    availability,
+    nearMe,
+  ]);
 
   const FilterCheckbox = ({
     id,
@@ -238,56 +216,86 @@ export function CourtFinderSection({
   );
 
   const filtersContent = (
-    <div className="grid grid-cols-1 md:grid-cols-3 gap-6 md:gap-12 mb-6 md:mb-10">
-      <div className="text-center">
+    <>
+      <div className="mx-auto mb-6 max-w-md text-center md:mb-10">
         <h3 className="text-xl md:text-2xl font-bold mb-4 md:mb-6 text-black dark:text-white">
-          Boroughs
+          Near Me
         </h3>
-        <div className="space-y-3 md:space-y-4 flex flex-col items-start">
-          {BOROUGHS.map((borough) => (
-            <FilterCheckbox
-              key={borough}
-              id={`borough-${borough}`}
-              checked={selectedBoroughs.includes(borough)}
-              onChange={(checked) => onBoroughChange(borough, checked)}
-              label={borough}
-            />
-          ))}
-        </div>
+        <NearMeControl value={nearMe} onChange={onNearMeChange} />
       </div>
-      <div className="text-center">
-        <h3 className="text-xl md:text-2xl font-bold mb-4 md:mb-6 text-black dark:text-white">
-          Surfaces
-        </h3>
-        <div className="space-y-3 md:space-y-4 flex flex-col items-start">
-          {SURFACES.map((surface) => (
-            <FilterCheckbox
-              key={surface}
-              id={`surface-${surface}`}
-              checked={selectedSurfaces.includes(surface)}
-              onChange={(checked) => onSurfaceChange(surface, checked)}
-              label={surface}
-            />
-          ))}
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-6 md:gap-12 mb-6 md:mb-10">
+        <div className="text-center">
+          <h3 className="text-xl md:text-2xl font-bold mb-4 md:mb-6 text-black dark:text-white">
+            Boroughs
+          </h3>
+          <div className="space-y-3 md:space-y-4 flex flex-col items-start">
+            {FILTER_BOROUGHS.map((borough) => (
+              <FilterCheckbox
+                key={borough}
+                id={`${idPrefix}borough-${borough}`}
+                checked={selectedBoroughs.includes(borough)}
+                onChange={(checked) => onBoroughChange(borough, checked)}
+                label={borough}
+              />
+            ))}
+          </div>
         </div>
-      </div>
-      <div className="text-center">
-        <h3 className="text-xl md:text-2xl font-bold mb-4 md:mb-6 text-black dark:text-white">
-          Permit Status
-        </h3>
-        <div className="space-y-3 md:space-y-4 flex flex-col items-start">
-          {PERMIT_OPTIONS.map((opt) => (
-            <FilterCheckbox
-              key={opt.value}
-              id={`permit-${opt.value}`}
-              checked={selectedPermitStatuses.includes(opt.value)}
-              onChange={(checked) => onPermitStatusChange(opt.value, checked)}
-              label={opt.label}
-            />
-          ))}
+        <div className="text-center">
+          <h3 className="text-xl md:text-2xl font-bold mb-4 md:mb-6 text-black dark:text-white">
+            Surfaces
+          </h3>
+          <div className="space-y-3 md:space-y-4 flex flex-col items-start">
+            {COURT_SURFACES.map((surface) => (
+              <FilterCheckbox
+                key={surface}
+                id={`${idPrefix}surface-${surface}`}
+                checked={selectedSurfaces.includes(surface)}
+                onChange={(checked) => onSurfaceChange(surface, checked)}
+                label={surface}
+              />
+            ))}
+          </div>
+        </div>
+        <div className="text-center">
+          <h3 className="text-xl md:text-2xl font-bold mb-4 md:mb-6 text-black dark:text-white">
+            Permit Status
+          </h3>
+          <div className="space-y-3 md:space-y-4 flex flex-col items-start">
+            {PERMIT_FILTER_OPTIONS.map((opt) => (
+              <FilterCheckbox
+                key={opt.value}
+                id={`${idPrefix}permit-${opt.value}`}
+                checked={selectedPermitStatuses.includes(opt.value)}
+                onChange={(checked) => onPermitStatusChange(opt.value, checked)}
+                label={opt.label}
+              />
+            ))}
+          </div>
+        </div>
+        <div className="text-center">
+          <h3 className="text-xl md:text-2xl font-bold mb-4 md:mb-6 text-black dark:text-white">
+            Amenities
+          </h3>
+          <div className="space-y-3 md:space-y-4 flex flex-col items-start">
+            {COURT_AMENITIES.map((amenity) => (
+              <FilterCheckbox
+                key={amenity}
+                id={`${idPrefix}amenity-${amenity}`}
+                checked={selectedAmenities.includes(amenity)}
+                onChange={(checked) => onAmenityChange(amenity, checked)}
+                label={AMENITY_LABELS[amenity]}
+              />
+            ))}
+          </div>
+        </div>
+        <div className="text-center">
+          <h3 className="text-xl md:text-2xl font-bold mb-4 md:mb-6 text-black dark:text-white">
+            Open
+          </h3>
+          <AvailabilityFilterControl value={availability} onChange={onAvailabilityChange} />
         </div>
       </div>
-    </div>
+    </>
   );
 
   return (
@@ -344,6 +352,12 @@ export function CourtFinderSection({
         </motion.h2>
       )}
 
+      {!mapOnly && (
+        <div className="mx-auto mb-4 max-w-md md:mb-8">
+          <CourtSearchInput value={query} onChange={onQueryChange} />
+        </div>
+      )}
+
       {!mapOnly && isMobile && onFiltersCollapsedChange ? (
         <div className="mb-4">
           <button
@@ -391,7 +405,7 @@ export function CourtFinderSection({
             transition={{ duration: 0.6, delay: 0.2 }}
             className="text-2xl md:text-3xl font-bold mb-4 md:mb-6 text-black dark:text-white text-center"
           >
-            Court Locations {courts.length > 0 && `(${courts.length} courts)`}
+            Court Locations {matches.length > 0 && `(${matches.length} courts)`}
           </motion.h3>
         )}
         <motion.div
@@ -405,71 +419,29 @@ export function CourtFinderSection({
               : 'rounded-lg bg-[#FFFDD0] p-2 shadow-lg md:p-4'
           }
         >
-          {loading ? (
-            <motion.div
-              initial={{ opacity: 0 }}
-              animate={{ opacity: 1 }}
-              className="h-[400px] md:h-[600px] bg-gray-100 rounded-lg flex flex-col items-center justify-center text-gray-600"
-            >
-              <motion.div
-                animate={{ rotate: 360 }}
-                transition={{ duration: 2, repeat: Infinity, ease: 'linear' }}
-                className="text-6xl mb-4"
-              >
-                ⏳
-              </motion.div>
-              <h4 className="text-xl font-bold mb-2 text-gray-800">Loading Tennis Courts...</h4>
-              <p className="text-center">Fetching court data from NYC database</p>
-            </motion.div>
-          ) : hasApiKey ? (
-            <Wrapper apiKey={GOOGLE_MAPS_API_KEY} render={mapRender}>
-              <MapComponent
-                courts={courts}
-                selectedBoroughs={selectedBoroughs}
-                selectedSurfaces={selectedSurfaces}
-                selectedPermitStatuses={selectedPermitStatuses}
-                className={
-                  mapOnly
-                    ? 'h-[calc(100dvh-8rem)] min-h-[400px]'
-                    : isMobile
-                      ? 'h-[50vh] min-h-[300px]'
-                      : 'md:h-[600px]'
-                }
-              />
-            </Wrapper>
-          ) : (
-            <div className="h-[600px] bg-gray-100 rounded-lg flex flex-col items-center justify-center text-gray-600">
-              <div className="text-6xl mb-4">🗺️</div>
-              <h4 className="text-xl font-bold mb-2 text-gray-800">Google Maps Integration Ready</h4>
-              <p className="text-center max-w-md">
-                Add your Google Maps API key to{' '}
-                <code className="bg-gray-200 px-2 py-1 rounded">.env.local</code> to see the
-                interactive court map.
-              </p>
-              <div className="mt-4 text-sm text-gray-500">
-                <p>Courts loaded: {courts.length}</p>
-                <p>
-                  Selected filters:{' '}
-                  {selectedBoroughs.length > 0 ? selectedBoroughs.join(', ') : 'All Boroughs'}
-                </p>
-              </div>
-            </div>
-          )}
+          <CourtMap
+            matches={matches}
+            liveReports={liveReports}
+            focus={nearMe?.origin}
+            viewport={viewport}
+            onViewportChange={onViewportChange}
+            className={
+              mapOnly
+                ? 'h-[calc(100dvh-8rem)] min-h-[400px]'
+                : isMobile
+                  ? 'h-[50vh] min-h-[300px]'
+                  : 'md:h-[600px]'
+            }
+          />
         </motion.div>
-        {!mapOnly && (
-          <motion.div
-            initial={{ opacity: 0, y: 20 }}
-            whileInView={{ opacity: 1, y: 0 }}
-            viewport={{ once: true }}
-            transition={{ duration: 0.6, delay: 0.6 }}
-            className="mt-4 flex justify-center gap-6 text-sm"
-          >
-            <div className="flex items-center gap-2">
-              <div className="w-4 h-4 bg-[#2D5A27] rounded-full" />
-              <span className="text-black dark:text-white">All Tennis Courts</span>
-            </div>
-          </motion.div>
-        )}
+        {nearMe || searchHits ? (
+          <CourtResultList
+            matches={matches}
+            nearMe={nearMe}
+            onNearMeChange={onNearMeChange}
+            query={query}
+          />
+        ) : null}
       </motion.div>
     </div>
   );
@@ -0,0 +1,134 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { CourtSchedule } from '@/types/courts';
+import { useWaitTimes } from '@/hooks/useWaitTimes';
+import { useSignupSheetReports } from '@/hooks/useSignupSheetReports';
+import { courtOpenStatus, type OpenState, type OpenStatus } from '@/lib/courtSchedule';
+import { NYC_TIME_ZONE, nycLocalTime } from '@/lib/nycTime';
+import { waitTimeCourtById } from '@/data/waitTimeCourts';
+import { signupStatusDotClass, signupStatusLabel } from '@/data/signupSheetCourts';
+import { LiveUpdateCourtCard } from '@/components/blocks/LiveUpdateCourtCard';
+
+const OPEN_BADGE_CLASS: Record<OpenState, string> = {
+  open: 'bg-[#2D5A27]/10 text-[#2D5A27]',
+  closed: 'bg-red-50 text-red-700',
+  unknown: 'bg-amber-50 text-amber-800',
+};
+
+const CARD_CLASS = 'rounded-xl border-2 border-[#2D5A27]/35 bg-white/50 p-4 shadow-sm';
+
+/** Re-evaluated every minute; null until mounted so the prerendered HTML carries no stale time. */
+function useOpenStatus(schedule: CourtSchedule): OpenStatus | null {
+  const [status, setStatus] = useState<OpenStatus | null>(null);
+  useEffect(() => {
+    const update = () => setStatus(courtOpenStatus(schedule, nycLocalTime(new Date())));
+    update();
+    const timer = setInterval(update, 60 * 1000);
+    return () => clearInterval(timer);
+  }, [schedule]);
+  return status;
+}
+
+function CourtWaitTime({ courtId }: { courtId: string }) {
+  const {
+    waitTimes,
+    forecasts,
+    getStatusFromWaitRange,
+    getStatusColor,
+    formatTimeDifference,
+    handleFlagWaitTime,
+    staleSince,
+  } = useWaitTimes();
+  const court = waitTimeCourtById(courtId);
+  if (!court) return null;
+
+  return (
+    <LiveUpdateCourtCard
+      courtName="Current wait"
+      report={waitTimes[courtId] ?? null}
+      forecast={forecasts[courtId] ?? null}
+      getStatusFromWaitRange={getStatusFromWaitRange}
+      getStatusColor={getStatusColor}
+      formatTimeDifference={formatTimeDifference}
+      onFlag={handleFlagWaitTime}
+      cardClassName={CARD_CLASS}
+      titleClassName="text-[#2D5A27]"
+      commentQuoted={false}
+      stale={staleSince !== null}
+    />
+  );
+}
+
+function CourtSignupSheet({ courtName }: { courtName: string }) {
+  const { latestByCourt, loading } = useSignupSheetReports();
+  const report = latestByCourt[courtName] ?? null;
+
+  return (
+    <div className={CARD_CLASS}>
+      <h2 className="text-lg font-semibold text-[#2D5A27]">Sign-up sheet</h2>
+      {report ? (
+        <>
+          <p className="mt-2 flex items-center gap-2 font-medium text-gray-700">
+            <span
+              className={`h-3 w-3 shrink-0 rounded-full ${signupStatusDotClass(report.status)}`}
+              aria-hidden
+            />
+            {signupStatusLabel(report.status)}
+          </p>
+          <p className="mt-1 text-sm text-gray-500">
+            Reported{' '}
+            {new Date(report.created_at).toLocaleString(undefined, {
+              timeZone: NYC_TIME_ZONE,
+              month: 'short',
+              day: 'numeric',
+              hour: 'numeric',
+              minute: '2-digit',
+            })}
+          </p>
+          {report.signedPhotoUrl ? (
+            <a
+              href={report.signedPhotoUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="mt-3 block overflow-hidden rounded-lg border border-[#2D5A27]/25 focus:outline-none focus:ring-2 focus:ring-[#2D5A27]"
+            >
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img src={report.signedPhotoUrl} alt="Sign up sheet" className="h-48 w-full object-cover" />
+            </a>
+          ) : null}
+        </>
+      ) : (
+        <p className="mt-1 text-sm text-gray-400">
+          {loading ? 'Loading…' : 'No recent report of the sign-up sheet'}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export interface CourtLiveInfoProps {
+  schedule: CourtSchedule;
+  /** Registry id when the court accepts live wait-time reports. */
+  waitTimeCourtId?: string;
+  /** DB `court_name` when the court has a morning sign-up sheet. */
+  signupSheetCourtName?: string;
+}
+
+export function CourtLiveInfo({ schedule, waitTimeCourtId, signupSheetCourtName }: CourtLiveInfoProps) {
+  const open = useOpenStatus(schedule);
+
+  return (
+    <div className="flex flex-col gap-4">
+      <span
+        className={`inline-flex min-h-[28px] w-fit items-center rounded-full px-3 text-sm font-semibold ${
+          open ? OPEN_BADGE_CLASS[open.state] : 'bg-gray-100 text-transparent'
+        }`}
+      >
+        {open ? open.label : 'Checking hours'}
+      </span>
+      {waitTimeCourtId ? <CourtWaitTime courtId={waitTimeCourtId} /> : null}
+      {signupSheetCourtName ? <CourtSignupSheet courtName={signupSheetCourtName} /> : null}
+    </div>
+  );
+}
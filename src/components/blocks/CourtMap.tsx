@@ -0,0 +1,262 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { CourtData } from '@/types/courts';
+import { AMENITY_LABELS } from '@/data/courtOptions';
+import { courtOpenStatus, type OpenState } from '@/lib/courtSchedule';
+import type { CourtMatch } from '@/lib/courtFilters';
+import { formatDistance, type LatLng } from '@/lib/geo';
+import { nycLocalTime } from '@/lib/nycTime';
+import {
+  COURT_PIN_COLOR,
+  COURT_PIN_LEGEND,
+  courtPinStatus,
+  courtPinSvg,
+  type CourtLiveReports,
+  type CourtPinStatus,
+} from '@/lib/courtPins';
+import {
+  NYC_MAP_CENTER,
+  configuredMapProvider,
+  loadMapProvider,
+  sameViewport,
+  type MapMarker,
+  type MapPinIcon,
+  type MapView,
+  type MapViewport,
+} from '@/lib/mapProvider';
+
+const OPEN_BADGE_STYLE: Record<OpenState, string> = {
+  open: 'background: #e6f0e4; color: #2D5A27;',
+  closed: 'background: #fde8e8; color: #b91c1c;',
+  unknown: 'background: #fef3c7; color: #92400e;',
+};
+
+const NO_LIVE_REPORTS: CourtLiveReports = { waitTimes: {}, signupSheetPhotos: {} };
+
+const pinIcon = (status: CourtPinStatus): MapPinIcon => ({
+  url: `data:image/svg+xml;charset=UTF-8,${encodeURIComponent(courtPinSvg(status))}`,
+  size: 30,
+});
+
+/** Info window HTML; built on click so the open/closed badge reflects the current time. */
+function courtInfoContent(court: CourtData, distance: number | null): string {
+  const open = courtOpenStatus(court.schedule, nycLocalTime(new Date()));
+  return `
+    <div style="color: black; font-family: Arial, sans-serif; max-width: 300px; padding: 8px;">
+      <h3 style="margin: 0 0 8px 0; font-size: 16px; font-weight: bold;">${court.name}</h3>
+      <span style="display: inline-block; margin: 0 0 6px 0; padding: 2px 8px; border-radius: 9999px; font-size: 12px; font-weight: 600; ${OPEN_BADGE_STYLE[open.state]}">${open.label}</span>
+      <p style="margin: 4px 0; font-size: 12px; color: #666;">${court.address}</p>
+      ${distance !== null ? `<p style="margin: 4px 0; font-size: 12px; font-weight: 600; color: #2D5A27;">${formatDistance(distance)} away</p>` : ''}
+      <div style="margin: 8px 0;">
+        <p style="margin: 2px 0;"><strong>Surface:</strong> ${court.surface}</p>
+        <p style="margin: 2px 0;"><strong>Courts:</strong> ${court.courts}</p>
+        <p style="margin: 2px 0;"><strong>Hours:</strong> ${court.hours}</p>
+        <p style="margin: 2px 0;"><strong>Season:</strong> ${court.datesOpen}</p>
+        <p style="margin: 2px 0;"><strong>Permit:</strong> ${court.permitStatus}</p>
+        ${court.amenities.length > 0 ? `<p style="margin: 2px 0;"><strong>Amenities:</strong> ${court.amenities.map((a) => AMENITY_LABELS[a]).join(', ')}</p>` : ''}
+      </div>
+      ${court.description ? `<p style="margin: 8px 0 0 0; font-size: 12px; color: #555; border-top: 1px solid #eee; padding-top: 8px; line-height: 1.4;">${court.description}</p>` : ''}
+      <a href="/courts/${court.slug}" style="display: inline-block; margin-top: 8px; font-size: 13px; font-weight: 600; color: #2D5A27;">Court page &rarr;</a>
+    </div>
+  `;
+}
+
+type CourtMarker = { marker: MapMarker; status: CourtPinStatus };
+
+function MapLegend() {
+  return (
+    <ul className="mt-2 flex flex-wrap justify-center gap-x-4 gap-y-1.5 px-1 text-xs text-gray-700">
+      {COURT_PIN_LEGEND.map(({ status, label }) => (
+        <li key={status} className="flex items-center gap-1.5">
+          <span
+            className="h-3 w-3 shrink-0 rounded-full border-2"
+            style={{
+              backgroundColor: COURT_PIN_COLOR[status],
+              borderColor: status === 'none' ? '#2D5A27' : COURT_PIN_COLOR[status],
+            }}
+            aria-hidden
+          />
+          {label}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export interface CourtMapProps {
+  /** Courts to show, already filtered (see `filterCourts`). */
+  matches: CourtMatch[];
+  /** Live wait times and sign-up sheet photos that color the pins. */
+  liveReports?: CourtLiveReports;
+  /** Recenters the map when it changes, e.g. on the near-me origin. */
+  focus?: LatLng | null;
+  /** Controlled view, e.g. from the URL; moves the map when it changes. */
+  viewport?: MapViewport | null;
+  /** Called when the visible map settles after a pan or zoom. */
+  onViewportChange?: (viewport: MapViewport) => void;
+  /** Map height classes. */
+  className?: string;
+}
+
+/** Clustered court pins on whichever map provider is configured. */
+export function CourtMap({
+  matches,
+  liveReports = NO_LIVE_REPORTS,
+  focus = null,
+  viewport = null,
+  onViewportChange,
+  className,
+}: CourtMapProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  /** Where the map opens; later changes move it through the effect below. */
+  const initialViewportRef = useRef(viewport);
+  const onViewportChangeRef = useRef(onViewportChange);
+  /** Last viewport the map reported, so echoing it back through `viewport` does not move it. */
+  const reportedViewportRef = useRef<MapViewport | null>(null);
+  const [view, setView] = useState<MapView | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  /** Markers currently on the map, keyed by court id. */
+  const markersRef = useRef(new Map<number, CourtMarker>());
+  /** Latest distances, read on click since markers outlive a change of near-me origin. */
+  const distancesRef = useRef(new Map<number, number | null>());
+
+  const pinStatuses = useMemo(() => {
+    const now = nycLocalTime(new Date());
+    return new Map(matches.map(({ court }) => [court.id, courtPinStatus(court, liveReports, now)]));
+  }, [matches, liveReports]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const markers = markersRef.current;
+    let mounted: MapView | null = null;
+    let cancelled = false;
+    const opened: MapViewport = {
+      center: initialViewportRef.current?.center ?? NYC_MAP_CENTER,
+      zoom: initialViewportRef.current?.zoom ?? 12,
+    };
+    /** Set by the first viewport event that differs from where the map opened. */
+    let moved = false;
+
+    const providerName = configuredMapProvider();
+    loadMapProvider(providerName)
+      .then((provider) =>
+        // Skip mounting after an unmount so two maps never share the container.
+        cancelled
+          ? null
+          : provider.mount(container, {
+              ...opened,
+              clusterColor: '#2D5A27',
+            })
+      )
+      .then((mapView) => {
+        if (!mapView) return;
+        if (cancelled) {
+          mapView.destroy();
+          return;
+        }
+        mounted = mapView;
+        mapView.onViewportChange((next) => {
+          // The desktop and mobile layouts both mount a map; only the visible one reports.
+          if (container.getClientRects().length === 0) return;
+          reportedViewportRef.current = next;
+          // Both providers report the viewport once on mount; that is not a move, so it stays out of the URL.
+          if (!moved && sameViewport(next, opened)) return;
+          moved = true;
+          onViewportChangeRef.current?.(next);
+        });
+        setView(mapView);
+      })
+      .catch((err) => {
+        console.error(`Error loading the ${providerName} map:`, err);
+        if (!cancelled) {
+          setError(
+            providerName === 'google'
+              ? 'Error loading Google Maps. Please check your API key.'
+              : 'Error loading the map.'
+          );
+        }
+      });
+
+    return () => {
+      cancelled = true;
+      mounted?.destroy();
+      markers.clear();
+      setView(null);
+    };
+  }, []);
+
+  // Add, remove or recolor only the markers whose court or status changed.
+  useEffect(() => {
+    if (!view) return;
+    const markers = markersRef.current;
+    distancesRef.current = new Map(matches.map((m) => [m.court.id, m.distanceMiles]));
+
+    const removed: MapMarker[] = [];
+    markers.forEach(({ marker }, id) => {
+      if (pinStatuses.has(id)) return;
+      removed.push(marker);
+      markers.delete(id);
+    });
+
+    const added: MapMarker[] = [];
+    for (const { court } of matches) {
+      const status = pinStatuses.get(court.id) ?? 'none';
+      const existing = markers.get(court.id);
+      if (existing) {
+        if (existing.status !== status) {
+          existing.marker.setIcon(pinIcon(status));
+          existing.status = status;
+        }
+        continue;
+      }
+      const marker = view.createMarker({
+        position: { lat: court.lat, lng: court.lng },
+        title: court.name,
+        icon: pinIcon(status),
+        onClick: () =>
+          view.openInfoWindow(marker, courtInfoContent(court, distancesRef.current.get(court.id) ?? null)),
+      });
+      markers.set(court.id, { marker, status });
+      added.push(marker);
+    }
+
+    view.updateMarkers(added, removed);
+  }, [view, matches, pinStatuses]);
+
+  useEffect(() => {
+    onViewportChangeRef.current = onViewportChange;
+  }, [onViewportChange]);
+
+  useEffect(() => {
+    if (!view || !viewport || sameViewport(viewport, reportedViewportRef.current)) return;
+    reportedViewportRef.current = viewport;
+    view.focusOn(viewport.center, viewport.zoom);
+  }, [view, viewport]);
+
+  const focusLat = focus?.lat;
+  const focusLng = focus?.lng;
+  useEffect(() => {
+    if (!view || focusLat === undefined || focusLng === undefined) return;
+    view.focusOn({ lat: focusLat, lng: focusLng }, 14);
+  }, [view, focusLat, focusLng]);
+
+  return (
+    <div>
+      <div className="relative isolate">
+        <div
+          ref={containerRef}
+          style={{ width: '100%', height: '400px', borderRadius: '8px' }}
+          className={className || 'md:h-[600px]'}
+        />
+        {!view ? (
+          <div className="absolute inset-0 flex items-center justify-center rounded-lg bg-gray-100 p-4 text-center">
+            {error ? <span className="text-red-500">{error}</span> : <span>Loading map...</span>}
+          </div>
+        ) : null}
+      </div>
+      <MapLegend />
+    </div>
+  );
+}
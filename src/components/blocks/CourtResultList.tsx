@@ -0,0 +1,123 @@
+'use client';
+
+import Link from 'next/link';
+import type { CourtMatch, NearMe } from '@/lib/courtFilters';
+import { searchSnippet } from '@/lib/courtSearch';
+import { formatDistance } from '@/lib/geo';
+import { TRAVEL_SORT_OPTIONS, type TravelSort } from '@/lib/travelTime';
+import { Highlighted } from '@/components/blocks/CourtSearch';
+import { TravelTimeSummary } from '@/components/blocks/TravelTime';
+
+/** Courts listed under the map; the rest stay on the map. */
+const RESULT_LIST_LIMIT = 10;
+
+const sortSelectClass =
+  'min-h-[44px] rounded-lg border-2 border-[#2D5A27]/40 bg-white/70 px-2 py-2 text-sm text-[#1A1A1A] focus:border-[#2D5A27] focus:outline-none focus:ring-2 focus:ring-[#2D5A27] focus:ring-opacity-20';
+
+function resultHeading(count: number, nearMe: NearMe | null, query: string): string {
+  const q = query.trim();
+  if (count === 0) {
+    return q ? `No courts match “${q}”` : `No courts within ${nearMe?.radiusMiles} mi of ${nearMe?.label}`;
+  }
+  if (!q) return `Nearest to ${nearMe?.label}`;
+  const matching = `${count} court${count !== 1 ? 's' : ''} match${count === 1 ? 'es' : ''} “${q}”`;
+  return nearMe ? `${matching}, nearest to ${nearMe.label} first` : matching;
+}
+
+/** The line under the name: where the search matched, else borough and surface. */
+function MatchContext({ match: { court, search } }: { match: CourtMatch }) {
+  const ranges = search?.ranges ?? {};
+  if (ranges.description) {
+    const snippet = searchSnippet(court.description, ranges.description);
+    return (
+      <span className="line-clamp-2 text-xs text-gray-600">
+        <Highlighted text={snippet.text} ranges={snippet.ranges} />
+      </span>
+    );
+  }
+  const field = (['address', 'hours'] as const).find((f) => ranges[f]);
+  if (field) {
+    return (
+      <span className="block truncate text-xs text-gray-500">
+        <Highlighted text={court[field]} ranges={ranges[field]} />
+      </span>
+    );
+  }
+  return (
+    <span className="block truncate text-xs text-gray-500">
+      <Highlighted text={court.borough} ranges={ranges.borough} /> ·{' '}
+      {court.surface ? <Highlighted text={court.surface} ranges={ranges.surface} /> : 'Surface not listed'}
+    </span>
+  );
+}
+
+/** Search results and/or courts near a place, linking to the court pages. */
+export function CourtResultList({
+  matches,
+  nearMe,
+  onNearMeChange,
+  query,
+}: {
+  matches: CourtMatch[];
+  nearMe: NearMe | null;
+  /** Enables the travel-time sort in near-me mode. */
+  onNearMeChange?: (nearMe: NearMe) => void;
+  query: string;
+}) {
+  const shown = matches.slice(0, RESULT_LIST_LIMIT);
+  return (
+    <div className="mt-6">
+      <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-lg font-semibold text-[#2D5A27]">
+          {resultHeading(matches.length, nearMe, query)}
+        </h3>
+        {nearMe && onNearMeChange && matches.length > 1 ? (
+          <select
+            aria-label="Sort by"
+            className={sortSelectClass}
+            value={nearMe.sortBy}
+            onChange={(e) => onNearMeChange({ ...nearMe, sortBy: e.target.value as TravelSort })}
+          >
+            {TRAVEL_SORT_OPTIONS.map((opt) => (
+              <option key={opt.value} value={opt.value}>
+                {opt.label}
+              </option>
+            ))}
+          </select>
+        ) : null}
+      </div>
+      {shown.length > 0 ? (
+        <ol className="divide-y divide-[#2D5A27]/15 rounded-xl border-2 border-[#2D5A27]/35 bg-white/50">
+          {shown.map((match) => (
+            <li key={match.court.id}>
+              <Link
+                href={`/courts/${match.court.slug}`}
+                className="flex min-h-[44px] items-center justify-between gap-3 px-4 py-3 hover:bg-[#2D5A27]/5"
+              >
+                <span className="min-w-0">
+                  <span className="block truncate font-medium text-[#1A1A1A]">
+                    <Highlighted text={match.court.name} ranges={match.search?.ranges.name} />
+                  </span>
+                  <MatchContext match={match} />
+                </span>
+                <span className="flex shrink-0 flex-col items-end gap-0.5">
+                  {match.distanceMiles !== null ? (
+                    <span className="text-sm font-semibold tabular-nums text-[#2D5A27]">
+                      {formatDistance(match.distanceMiles)}
+                    </span>
+                  ) : null}
+                  {match.travel ? <TravelTimeSummary estimate={match.travel} /> : null}
+                </span>
+              </Link>
+            </li>
+          ))}
+        </ol>
+      ) : null}
+      {matches.length > shown.length ? (
+        <p className="mt-2 text-center text-xs text-gray-500">
+          {matches.length - shown.length} more on the map
+        </p>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+'use client';
+
+import { Search, X } from 'lucide-react';
+import type { SearchRange } from '@/lib/courtSearch';
+
+export function CourtSearchInput({
+  value,
+  onChange,
+}: {
+  value: string;
+  onChange: (query: string) => void;
+}) {
+  return (
+    <div className="relative w-full">
+      <Search
+        className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-500"
+        aria-hidden
+      />
+      <input
+        type="search"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder="Search courts, e.g. clay, fountains, day pass"
+        aria-label="Search courts"
+        className="min-h-[44px] w-full rounded-lg border-2 border-[#2D5A27]/40 bg-white/70 py-2 pl-9 pr-10 text-sm text-[#1A1A1A] focus:border-[#2D5A27] focus:outline-none focus:ring-2 focus:ring-[#2D5A27] focus:ring-opacity-20 [&::-webkit-search-cancel-button]:hidden"
+      />
+      {value ? (
+        <button
+          type="button"
+          onClick={() => onChange('')}
+          className="absolute right-1 top-1/2 -translate-y-1/2 rounded p-2 text-gray-500 hover:text-[#2D5A27]"
+          aria-label="Clear search"
+        >
+          <X className="h-4 w-4" aria-hidden />
+        </button>
+      ) : null}
+    </div>
+  );
+}
+
+/** `text` with the given ranges wrapped in `<mark>`. */
+export function Highlighted({ text, ranges = [] }: { text: string; ranges?: SearchRange[] }) {
+  if (ranges.length === 0) return <>{text}</>;
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  for (const [start, end] of ranges) {
+    if (start > cursor) parts.push(text.slice(cursor, start));
+    parts.push(
+      <mark key={start} className="rounded-sm bg-[#FFFDD0] px-0.5 text-inherit ring-1 ring-[#2D5A27]/30">
+        {text.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  }
+  if (cursor < text.length) parts.push(text.slice(cursor));
+  return <>{parts}</>;
+}
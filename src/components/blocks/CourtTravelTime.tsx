@@ -0,0 +1,25 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import type { SubwayStation } from '@/types/transit';
+import type { NearMe } from '@/lib/courtFilters';
+import type { LatLng } from '@/lib/geo';
+import { estimateTravel } from '@/lib/travelTime';
+import { NearMeControl } from '@/components/blocks/NearMeControl';
+import { TravelTimeDetails } from '@/components/blocks/TravelTime';
+
+/** Travel estimate to one court from the visitor's location or a typed-in address. */
+export function CourtTravelTime({ court, stations }: { court: LatLng; stations: SubwayStation[] }) {
+  const [origin, setOrigin] = useState<NearMe | null>(null);
+  const estimate = useMemo(
+    () => (origin ? estimateTravel(origin.origin, court, stations) : null),
+    [origin, court, stations]
+  );
+
+  return (
+    <div className="flex flex-col gap-4">
+      <NearMeControl value={origin} onChange={setOrigin} showRadius={false} originPrefix="From" />
+      {estimate ? <TravelTimeDetails estimate={estimate} /> : null}
+    </div>
+  );
+}
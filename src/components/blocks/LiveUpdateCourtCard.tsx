@@ -1,8 +1,16 @@
 'use client';
 
 import { useCallback, useEffect, useRef, useState } from 'react';
-import type { WaitTime } from '@/lib/supabase';
+import type { WaitTime, WaitTimeForecast } from '@/lib/supabase';
+import { forecastRange, formatForecast } from '@/lib/waitTimeForecast';
+import {
+  formatCourtCounts,
+  formatWaitRange,
+  waitRangeOf,
+  type WaitRange,
+} from '@/lib/waitTimeRange';
 import { getWaitReportVote, setWaitReportVote, type WaitReportVoteKind } from '@/lib/waitTimeReportVotes';
+import type { WaitTimeVoteResult } from '@/lib/voteWaitTimeReport';
 
 const GREEN_FLAG_BTN = '#1a3d1f';
 const RED_FLAG_BTN = '#9b3d3d';
@@ -31,28 +39,35 @@ function isLowCredibilityCounts(confirmed: number, outdated: number): boolean {
 export interface LiveUpdateCourtCardProps {
   courtName: string;
   report: WaitTime | null;
-  getStatusFromWaitTime: (waitTime: string) => string;
+  /** Typical wait for this hour and weekday, shown when there is no live report. */
+  forecast?: WaitTimeForecast | null;
+  getStatusFromWaitRange: (range: WaitRange | null) => string;
   getStatusColor: (status: string) => string;
   formatTimeDifference: (timestamp: number) => string;
-  onFlag: (reportId: string, kind: WaitReportVoteKind) => Promise<void>;
+  /** Resolves to the server's vote record, or null when the vote failed. */
+  onFlag: (reportId: string, kind: WaitReportVoteKind) => Promise<WaitTimeVoteResult | null>;
   /** Outer card classes (border, background, padding). */
   cardClassName: string;
   /** Court title color / weight. */
   titleClassName: string;
   /** Mobile live tab uses plain italic comments; desktop uses curly quotes. */
   commentQuoted?: boolean;
+  /** The report is from the offline copy and may have changed since. */
+  stale?: boolean;
 }
 
 export function LiveUpdateCourtCard({
   courtName,
   report,
-  getStatusFromWaitTime,
+  forecast = null,
+  getStatusFromWaitRange,
   getStatusColor,
   formatTimeDifference,
   onFlag,
   cardClassName,
   titleClassName,
   commentQuoted = true,
+  stale = false,
 }: LiveUpdateCourtCardProps) {
   const [vote, setVote] = useState<WaitReportVoteKind | null>(null);
   const [flagging, setFlagging] = useState<WaitReportVoteKind | null>(null);
@@ -93,9 +108,12 @@ export function LiveUpdateCourtCard({
       if (!report?.id || vote !== null || flagging !== null) return;
       setFlagging(kind);
       try {
-        await onFlag(report.id, kind);
-        setWaitReportVote(report.id, kind);
-        setVote(kind);
+        const result = await onFlag(report.id, kind);
+        if (!result) return;
+        // Local copy only remembers the server's answer so the buttons stay disabled.
+        setWaitReportVote(report.id, result.vote);
+        setVote(result.vote);
+        if (!result.accepted) return;
         setOptimisticDelta((d) =>
           kind === 'confirmed'
             ? { ...d, confirmed: d.confirmed + 1 }
@@ -112,6 +130,8 @@ export function LiveUpdateCourtCard({
   const confirmed = base.confirmed + optimisticDelta.confirmed;
   const outdated = base.outdated + optimisticDelta.outdated;
   const lowCred = report !== null && isLowCredibilityCounts(confirmed, outdated);
+  const range = report ? waitRangeOf(report) : null;
+  const counts = report ? formatCourtCounts(report) : '';
   const buttonsDisabled = vote !== null || flagging !== null;
 
   return (
@@ -150,10 +170,12 @@ export function LiveUpdateCourtCard({
           <div
             className={`h-4 w-4 min-h-[16px] min-w-[16px] shrink-0 ${
               report && !lowCred
-                ? getStatusColor(getStatusFromWaitTime(report.wait_time))
-                : 'bg-gray-400'
+                ? `${getStatusColor(getStatusFromWaitRange(range))}${stale ? ' opacity-40' : ''}`
+                : !report && forecast
+                  ? `${getStatusColor(getStatusFromWaitRange(forecastRange(forecast)))} opacity-40`
+                  : 'bg-gray-400'
             } rounded-full`}
-            title="Wait time status"
+            title={!report && forecast ? 'Typical wait at this time' : 'Wait time status'}
           />
         </div>
       </div>
@@ -162,8 +184,11 @@ export function LiveUpdateCourtCard({
         {report ? (
           <>
             <p className={`font-medium ${lowCred ? 'text-gray-500' : 'text-gray-700'}`}>
-              {report.wait_time}
+              {range ? formatWaitRange(range) : report.wait_time}
             </p>
+            {counts ? (
+              <p className={`text-sm ${lowCred ? 'text-gray-500' : 'text-gray-600'}`}>{counts}</p>
+            ) : null}
             {report.comment && report.comment.trim() !== '' ? (
               commentQuoted ? (
                 <p className={`text-sm italic ${lowCred ? 'text-gray-500' : 'text-gray-600'}`}>
@@ -177,6 +202,7 @@ export function LiveUpdateCourtCard({
             ) : null}
             <p className={`text-sm ${lowCred ? 'text-gray-500' : 'text-gray-500'}`}>
               Updated {formatTimeDifference(new Date(report.created_at).getTime())}
+              {stale ? ' · last known, may have changed' : ''}
             </p>
             {lowCred ? (
               <p className="text-xs font-medium text-gray-500">
@@ -185,6 +211,13 @@ export function LiveUpdateCourtCard({
               </p>
             ) : null}
           </>
+        ) : forecast ? (
+          <>
+            <p className="font-medium text-gray-500">{formatForecast(forecast)}</p>
+            <p className="text-sm text-gray-400">
+              No live report yet · based on {forecast.sample_count} past reports
+            </p>
+          </>
         ) : (
           <>
             <p className="text-gray-400 font-medium">No wait time reported</p>
@@ -193,7 +226,7 @@ export function LiveUpdateCourtCard({
         )}
       </div>
 
-      {report ? (
+      {report && !stale ? (
         <div className="mt-3 flex flex-col gap-1.5">
           <div className="flex flex-wrap gap-1.5">
             <button
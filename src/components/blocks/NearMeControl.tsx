@@ -0,0 +1,164 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { LocateFixed, Search, X } from 'lucide-react';
+import { NEAR_ME_RADIUS_OPTIONS, type NearMe } from '@/lib/courtFilters';
+import { GeocodeError, geocodeNycAddress } from '@/lib/geocode';
+
+const inputClass =
+  'min-h-[44px] w-full rounded-lg border-2 border-[#2D5A27]/40 bg-white/70 px-3 py-2 text-sm text-[#1A1A1A] focus:border-[#2D5A27] focus:outline-none focus:ring-2 focus:ring-[#2D5A27] focus:ring-opacity-20';
+
+const buttonClass =
+  'inline-flex min-h-[44px] shrink-0 items-center justify-center gap-1.5 rounded-lg bg-[#2D5A27] px-3 text-sm font-semibold text-[#FFFDD0] active:bg-[#24481f] disabled:opacity-50';
+
+function geolocationErrorMessage(error: GeolocationPositionError): string {
+  switch (error.code) {
+    case error.PERMISSION_DENIED:
+      return 'Location access is off. Type an address or intersection instead.';
+    case error.TIMEOUT:
+      return 'Finding your location took too long. Try again or type an address.';
+    default:
+      return 'Your location is unavailable. Type an address or intersection instead.';
+  }
+}
+
+export function NearMeControl({
+  value,
+  onChange,
+  showRadius = true,
+  originPrefix = 'Near',
+}: {
+  value: NearMe | null;
+  onChange: (nearMe: NearMe | null) => void;
+  /** Court pages only need an origin, not the distance filter. */
+  showRadius?: boolean;
+  /** Word before the chosen place, e.g. "Near Bryant Park". */
+  originPrefix?: string;
+}) {
+  const [query, setQuery] = useState('');
+  const [busy, setBusy] = useState<'locating' | 'searching' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const radiusMiles = value?.radiusMiles ?? null;
+  const sortBy = value?.sortBy ?? 'distance';
+
+  const fallBackToAddress = (message: string) => {
+    setError(message);
+    inputRef.current?.focus();
+  };
+
+  const locate = () => {
+    setError(null);
+    // Geolocation needs a secure origin; plain-http LAN previews fall back to typing.
+    if (typeof navigator === 'undefined' || !navigator.geolocation || !window.isSecureContext) {
+      fallBackToAddress('Location is not available here. Type an address or intersection instead.');
+      return;
+    }
+    setBusy('locating');
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setBusy(null);
+        onChange({
+          origin: { lat: position.coords.latitude, lng: position.coords.longitude },
+          label: 'Your location',
+          radiusMiles,
+          sortBy,
+        });
+      },
+      (err) => {
+        setBusy(null);
+        fallBackToAddress(geolocationErrorMessage(err));
+      },
+      { enableHighAccuracy: false, timeout: 10_000, maximumAge: 5 * 60 * 1000 }
+    );
+  };
+
+  const search = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!query.trim()) return;
+    setError(null);
+    setBusy('searching');
+    try {
+      const place = await geocodeNycAddress(query);
+      if (!place) {
+        setError('No match in New York City. Try a street address or an intersection.');
+        return;
+      }
+      onChange({ origin: place.position, label: place.label, radiusMiles, sortBy });
+    } catch (err) {
+      setError(err instanceof GeocodeError ? err.message : 'Address lookup failed.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="flex w-full flex-col gap-3">
+      {value ? (
+        <div className="flex min-h-[44px] items-center justify-between gap-2 rounded-lg border-2 border-[#2D5A27]/40 bg-[#2D5A27]/5 px-3 text-sm text-[#1A1A1A]">
+          <span className="min-w-0 truncate">
+            {originPrefix} <strong>{value.label}</strong>
+          </span>
+          <button
+            type="button"
+            onClick={() => onChange(null)}
+            className="shrink-0 rounded p-1 text-gray-500 hover:text-[#2D5A27]"
+            aria-label="Clear location"
+          >
+            <X className="h-4 w-4" aria-hidden />
+          </button>
+        </div>
+      ) : (
+        <>
+          <button type="button" onClick={locate} disabled={busy !== null} className={buttonClass}>
+            <LocateFixed className="h-4 w-4" aria-hidden />
+            {busy === 'locating' ? 'Locating…' : 'Use my location'}
+          </button>
+          <form onSubmit={search} className="flex gap-2">
+            <input
+              ref={inputRef}
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Address or intersection"
+              aria-label="Address or intersection"
+              autoComplete="street-address"
+              className={inputClass}
+            />
+            <button
+              type="submit"
+              disabled={busy !== null || !query.trim()}
+              className={buttonClass}
+              aria-label="Find courts near this address"
+            >
+              <Search className="h-4 w-4" aria-hidden />
+            </button>
+          </form>
+        </>
+      )}
+      {error ? (
+        <p role="alert" className="text-left text-xs leading-snug text-amber-900">
+          {error}
+        </p>
+      ) : null}
+      {showRadius ? (
+        <select
+          aria-label="Distance"
+          className={inputClass}
+          value={radiusMiles ?? ''}
+          disabled={!value}
+          onChange={(e) =>
+            value && onChange({ ...value, radiusMiles: e.target.value ? Number(e.target.value) : null })
+          }
+        >
+          <option value="">Any distance</option>
+          {NEAR_ME_RADIUS_OPTIONS.map((miles) => (
+            <option key={miles} value={miles}>
+              Within {miles} mi
+            </option>
+          ))}
+        </select>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import { Bike, Footprints, TrainFront } from 'lucide-react';
+import { formatMinutes, type NearbyStation, type TravelEstimate } from '@/lib/travelTime';
+
+/** MTA trunk-line colors. */
+const ROUTE_COLORS: Record<string, string> = {
+  '1': '#EE352E',
+  '2': '#EE352E',
+  '3': '#EE352E',
+  '4': '#00933C',
+  '5': '#00933C',
+  '6': '#00933C',
+  '7': '#B933AD',
+  A: '#0039A6',
+  C: '#0039A6',
+  E: '#0039A6',
+  B: '#FF6319',
+  D: '#FF6319',
+  F: '#FF6319',
+  M: '#FF6319',
+  G: '#6CBE45',
+  J: '#996633',
+  Z: '#996633',
+  L: '#A7A9AC',
+  N: '#FCCC0A',
+  Q: '#FCCC0A',
+  R: '#FCCC0A',
+  W: '#FCCC0A',
+  S: '#808183',
+};
+
+/** Yellow bullets use black lettering, like the station signs. */
+const DARK_TEXT_ROUTES = new Set(['N', 'Q', 'R', 'W']);
+
+export function SubwayRoutes({ routes }: { routes: string[] }) {
+  return (
+    <span className="inline-flex flex-wrap gap-0.5 align-middle" aria-label={`${routes.join(', ')} trains`}>
+      {routes.map((route) => (
+        <span
+          key={route}
+          aria-hidden
+          className="inline-flex h-5 w-5 items-center justify-center rounded-full text-[11px] font-bold"
+          style={{
+            background: ROUTE_COLORS[route] ?? '#808183',
+            color: DARK_TEXT_ROUTES.has(route) ? '#000' : '#fff',
+          }}
+        >
+          {route}
+        </span>
+      ))}
+    </span>
+  );
+}
+
+export function StationWalk({ nearby }: { nearby: NearbyStation }) {
+  return (
+    <span className="inline-flex flex-wrap items-center gap-1.5">
+      <SubwayRoutes routes={nearby.station.routes} />
+      <span>{nearby.station.name}</span>
+      <span className="text-gray-500">· {formatMinutes(nearby.walkMinutes)} walk</span>
+    </span>
+  );
+}
+
+/** One line for lists: subway (or walking, when that is quicker) and bike. */
+export function TravelTimeSummary({ estimate }: { estimate: TravelEstimate }) {
+  const TransitIcon = estimate.subway ? TrainFront : Footprints;
+  return (
+    <span className="inline-flex items-center gap-2 text-xs tabular-nums text-gray-600">
+      <span className="inline-flex items-center gap-0.5" title={estimate.subway ? 'By subway' : 'On foot'}>
+        <TransitIcon className="h-3.5 w-3.5" aria-label={estimate.subway ? 'Subway' : 'Walk'} />
+        {formatMinutes(estimate.subway?.minutes ?? estimate.walkMinutes)}
+      </span>
+      <span className="inline-flex items-center gap-0.5" title="By bike">
+        <Bike className="h-3.5 w-3.5" aria-label="Bike" />
+        {formatMinutes(estimate.bikeMinutes)}
+      </span>
+    </span>
+  );
+}
+
+/** Every mode with the suggested stations, for the court page. */
+export function TravelTimeDetails({ estimate }: { estimate: TravelEstimate }) {
+  const { subway } = estimate;
+  return (
+    <ul className="flex flex-col gap-3 text-sm text-[#1A1A1A]">
+      <li className="flex gap-2">
+        <TrainFront className="mt-0.5 h-4 w-4 shrink-0 text-[#2D5A27]" aria-hidden />
+        {subway ? (
+          <span className="flex flex-col gap-1">
+            <span>
+              <strong>{formatMinutes(subway.minutes)}</strong> by subway
+              {subway.directRoutes.length === 0 ? ' (with a transfer)' : ''}
+            </span>
+            <span className="text-xs text-gray-600">
+              Board at <StationWalk nearby={subway.board} />
+            </span>
+            <span className="text-xs text-gray-600">
+              Get off at <StationWalk nearby={subway.alight} />
+            </span>
+          </span>
+        ) : (
+          <span className="text-gray-600">No quicker subway trip than walking</span>
+        )}
+      </li>
+      <li className="flex gap-2">
+        <Bike className="mt-0.5 h-4 w-4 shrink-0 text-[#2D5A27]" aria-hidden />
+        <span>
+          <strong>{formatMinutes(estimate.bikeMinutes)}</strong> by bike
+        </span>
+      </li>
+      <li className="flex gap-2">
+        <Footprints className="mt-0.5 h-4 w-4 shrink-0 text-[#2D5A27]" aria-hidden />
+        <span>
+          <strong>{formatMinutes(estimate.walkMinutes)}</strong> on foot
+        </span>
+      </li>
+    </ul>
+  );
+}
@@ -1,46 +1,244 @@
 'use client';
 
-import { useRef, useState, useLayoutEffect } from 'react';
+import { useMemo, useRef, useState, useLayoutEffect } from 'react';
 import { motion } from 'framer-motion';
-import type { WaitTime } from '@/lib/supabase';
+import type { WaitTime, WaitTimeForecast } from '@/lib/supabase';
 import type { WaitReportVoteKind } from '@/lib/waitTimeReportVotes';
+import type { WaitTimeVoteResult } from '@/lib/voteWaitTimeReport';
 import { LiveUpdateCourtCard } from '@/components/blocks/LiveUpdateCourtCard';
+import { WAIT_TIME_COURTS, type WaitTimeCourt } from '@/data/waitTimeCourts';
+import type { WaitTimeCounts } from '@/hooks/useWaitTimes';
+import {
+  WAIT_TIME_BUCKETS,
+  compareWaitRanges,
+  waitRangeOf,
+  waitTimeBucketForRange,
+  type WaitRange,
+} from '@/lib/waitTimeRange';
 
 type MobileWaitTab = 'report' | 'live';
 const DEUCE_APP_STORE_URL = 'https://apps.apple.com/us/app/deuce/id6749827534';
 
 interface WaitTimesSectionProps {
-  waitTimes: { [key: string]: WaitTime | null };
-  getStatusFromWaitTime: (waitTime: string) => string;
+  /** Latest report per registry court id. */
+  waitTimes: { [courtId: string]: WaitTime | null };
+  /** Typical wait for the current hour per registry court id. */
+  forecasts?: { [courtId: string]: WaitTimeForecast | null };
+  getStatusFromWaitRange: (range: WaitRange | null) => string;
   getStatusColor: (status: string) => string;
   formatTimeDifference: (timestamp: number) => string;
-  handleReportWaitTime: (courtName: string, waitTime: string, comment: string) => Promise<void>;
-  handleFlagWaitTime: (reportId: string, kind: WaitReportVoteKind) => Promise<void>;
+  handleReportWaitTime: (
+    courtId: string,
+    bucketId: string,
+    comment: string,
+    counts: WaitTimeCounts
+  ) => Promise<void>;
+  handleFlagWaitTime: (
+    reportId: string,
+    kind: WaitReportVoteKind
+  ) => Promise<WaitTimeVoteResult | null>;
   reporting: string | null;
   reportSuccess: string | null;
+  /** Court id whose report was just saved offline. */
+  reportQueued?: string | null;
+  /** Reports saved offline and not sent yet. */
+  pendingReports?: number;
+  /** When the shown wait times were loaded, if they are the offline copy. */
+  staleSince?: string | null;
 }
 
-const COURT_NAMES = [
-  'Hudson River Park Courts',
-  'Pier 42',
-  'Brian Watkins Tennis Courts',
-  'South Oxford Park Tennis Courts',
-] as const;
+/** Empty input = not reported; anything else must be a whole, non-negative number. */
+function parseCount(value: string | undefined): number | null {
+  const trimmed = value?.trim() ?? '';
+  if (!/^\d{1,3}$/.test(trimmed)) return null;
+  return Number(trimmed);
+}
+
+interface ReportWaitTimeCardProps {
+  court: WaitTimeCourt;
+  report: WaitTime | null;
+  getStatusFromWaitRange: (range: WaitRange | null) => string;
+  getStatusColor: (status: string) => string;
+  handleReportWaitTime: (
+    courtId: string,
+    bucketId: string,
+    comment: string,
+    counts: WaitTimeCounts
+  ) => Promise<void>;
+  reporting: string | null;
+  reportSuccess: string | null;
+  reportQueued: string | null;
+  /** Mobile stacks the controls; desktop puts Report beside the select. */
+  layout: 'mobile' | 'desktop';
+}
+
+/** One court's report form; owns its own refs so adding a court needs no new wiring. */
+function ReportWaitTimeCard({
+  court,
+  report,
+  getStatusFromWaitRange,
+  getStatusColor,
+  handleReportWaitTime,
+  reporting,
+  reportSuccess,
+  reportQueued,
+  layout,
+}: ReportWaitTimeCardProps) {
+  const selectRef = useRef<HTMLSelectElement>(null);
+  const commentRef = useRef<HTMLInputElement>(null);
+  const racketsRef = useRef<HTMLInputElement>(null);
+  const courtsInUseRef = useRef<HTMLInputElement>(null);
+  const range = report ? waitRangeOf(report) : null;
+  const isMobile = layout === 'mobile';
+  const isReporting = reporting === court.id;
+  const isQueued = reportQueued === court.id;
+  const isSuccess = reportSuccess === court.id || isQueued;
+
+  return (
+    <div
+      className={`rounded-lg border-2 border-[#2D5A27]/35 bg-white/45 p-4 shadow-sm backdrop-blur-sm transition-all duration-300 hover:shadow-md${
+        isMobile ? '' : ' min-h-[44px]'
+      }`}
+    >
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-lg font-semibold text-[#2D5A27]">{court.name}</h4>
+        <div
+          className={`w-4 h-4 min-w-[16px] min-h-[16px] ${
+            report ? getStatusColor(getStatusFromWaitRange(range)) : 'bg-gray-500'
+          } rounded-full`}
+        />
+      </div>
+      <div
+        className={
+          isMobile
+            ? 'grid grid-cols-1 gap-3'
+            : 'grid grid-cols-1 gap-3 md:grid-cols-[minmax(0,1fr)_auto] md:grid-rows-[auto_auto]'
+        }
+      >
+        <select
+          className={
+            isMobile
+              ? 'min-h-[44px] w-full rounded-lg border-2 border-[#2D5A27]/40 bg-white/70 px-2 py-2 text-sm text-[#1A1A1A] backdrop-blur-sm focus:border-[#2D5A27] focus:outline-none focus:ring-2 focus:ring-[#2D5A27] focus:ring-opacity-20'
+              : 'min-h-[44px] w-full min-w-0 rounded-lg border-2 border-[#2D5A27]/40 bg-white/70 px-2 py-2 text-sm text-[#1A1A1A] backdrop-blur-sm focus:border-[#2D5A27] focus:outline-none focus:ring-2 focus:ring-[#2D5A27] focus:ring-opacity-20 md:col-start-1 md:row-start-1'
+          }
+          defaultValue={waitTimeBucketForRange(range)?.id ?? ''}
+          ref={selectRef}
+        >
+          <option value="">Select wait time...</option>
+          {WAIT_TIME_BUCKETS.map((bucket) => (
+            <option key={bucket.id} value={bucket.id}>
+              {bucket.label}
+            </option>
+          ))}
+        </select>
+        <input
+          type="text"
+          placeholder={
+            isMobile
+              ? 'Anything else? e.g. 6 benches filled'
+              : 'Leave a comment about the wait time...'
+          }
+          className={
+            isMobile
+              ? 'min-h-[36px] w-full rounded-lg border-2 border-[#2D5A27]/40 bg-white/70 px-2.5 py-1.5 text-xs text-[#1A1A1A] backdrop-blur-sm focus:border-[#2D5A27] focus:outline-none focus:ring-2 focus:ring-[#2D5A27] focus:ring-opacity-20'
+              : 'min-h-[44px] w-full rounded-lg border-2 border-[#2D5A27]/40 bg-white/70 px-3 py-2 text-sm text-[#1A1A1A] backdrop-blur-sm focus:border-[#2D5A27] focus:outline-none focus:ring-2 focus:ring-[#2D5A27] focus:ring-opacity-20 md:col-span-2 md:row-start-2'
+          }
+          ref={commentRef}
+        />
+        <div className={`grid grid-cols-2 gap-3${isMobile ? '' : ' md:col-span-2 md:row-start-3'}`}>
+          <input
+            type="number"
+            inputMode="numeric"
+            min={0}
+            placeholder="Rackets on fence"
+            aria-label="Rackets on fence (optional)"
+            className="min-h-[36px] w-full min-w-0 rounded-lg border-2 border-[#2D5A27]/40 bg-white/70 px-2.5 py-1.5 text-xs text-[#1A1A1A] backdrop-blur-sm focus:border-[#2D5A27] focus:outline-none focus:ring-2 focus:ring-[#2D5A27] focus:ring-opacity-20"
+            ref={racketsRef}
+          />
+          <input
+            type="number"
+            inputMode="numeric"
+            min={0}
+            placeholder="Courts in use"
+            aria-label="Courts in use (optional)"
+            className="min-h-[36px] w-full min-w-0 rounded-lg border-2 border-[#2D5A27]/40 bg-white/70 px-2.5 py-1.5 text-xs text-[#1A1A1A] backdrop-blur-sm focus:border-[#2D5A27] focus:outline-none focus:ring-2 focus:ring-[#2D5A27] focus:ring-opacity-20"
+            ref={courtsInUseRef}
+          />
+        </div>
+        <button
+          type="button"
+          onClick={() =>
+            handleReportWaitTime(
+              court.id,
+              selectRef.current?.value || '',
+              commentRef.current?.value || '',
+              {
+                racketsOnFence: parseCount(racketsRef.current?.value),
+                courtsInUse: parseCount(courtsInUseRef.current?.value),
+              }
+            )
+          }
+          disabled={isReporting}
+          className={
+            isMobile
+              ? `min-h-[44px] w-full rounded-lg px-2 py-2 text-sm font-medium transition-all duration-300 ${
+                  isReporting
+                    ? 'cursor-not-allowed bg-gray-400 text-white'
+                    : isSuccess
+                      ? 'bg-[#2D5A27] text-[#FFFDD0] scale-[1.02]'
+                      : 'bg-[#2D5A27] text-[#FFFDD0] hover:bg-[#24481f]'
+                }`
+              : `min-h-[44px] rounded-lg px-2 py-2 text-xs font-medium transition-all duration-300 whitespace-nowrap md:col-start-2 md:row-start-1 ${
+                  isReporting
+                    ? 'cursor-not-allowed bg-gray-400 text-white'
+                    : isSuccess
+                      ? 'bg-[#2D5A27] text-[#FFFDD0] scale-105'
+                      : 'bg-[#2D5A27] text-[#FFFDD0] hover:bg-[#24481f] hover:scale-105'
+                }`
+          }
+        >
+          {isReporting
+            ? 'Reporting...'
+            : isQueued
+              ? '✓ Saved offline'
+              : isSuccess
+                ? '✓ Reported!'
+                : 'Report'}
+        </button>
+      </div>
+    </div>
+  );
+}
 
 export function WaitTimesSection({
   waitTimes,
-  getStatusFromWaitTime,
+  forecasts = {},
+  getStatusFromWaitRange,
   getStatusColor,
   formatTimeDifference,
   handleReportWaitTime,
   handleFlagWaitTime,
   reporting,
   reportSuccess,
+  reportQueued = null,
+  pendingReports = 0,
+  staleSince = null,
 }: WaitTimesSectionProps) {
   const [mobileTab, setMobileTab] = useState<MobileWaitTab>('report');
   /** Avoid duplicate ref targets (mobile vs desktop); measure once before paint. */
   const [useTabbedMobileLayout, setUseTabbedMobileLayout] = useState(true);
 
+  /** Live cards: shortest current wait first, courts without a report last. */
+  const courtsByWait = useMemo(
+    () =>
+      [...WAIT_TIME_COURTS].sort((a, b) => {
+        const ra = waitTimes[a.id];
+        const rb = waitTimes[b.id];
+        return compareWaitRanges(ra ? waitRangeOf(ra) : null, rb ? waitRangeOf(rb) : null);
+      }),
+    [waitTimes]
+  );
+
   useLayoutEffect(() => {
     const mq = window.matchMedia('(max-width: 768px)');
     const apply = () => setUseTabbedMobileLayout(mq.matches);
@@ -49,22 +247,6 @@ export function WaitTimesSection({
     return () => mq.removeEventListener('change', apply);
   }, []);
 
-  const hudsonSelectRef = useRef<HTMLSelectElement>(null);
-  const hudsonCommentRef = useRef<HTMLInputElement>(null);
-  const pierSelectRef = useRef<HTMLSelectElement>(null);
-  const pierCommentRef = useRef<HTMLInputElement>(null);
-  const brianSelectRef = useRef<HTMLSelectElement>(null);
-  const brianCommentRef = useRef<HTMLInputElement>(null);
-  const southOxfordSelectRef = useRef<HTMLSelectElement>(null);
-  const southOxfordCommentRef = useRef<HTMLInputElement>(null);
-
-  const refs = {
-    'Hudson River Park Courts': { select: hudsonSelectRef, comment: hudsonCommentRef },
-    'Pier 42': { select: pierSelectRef, comment: pierCommentRef },
-    'Brian Watkins Tennis Courts': { select: brianSelectRef, comment: brianCommentRef },
-    'South Oxford Park Tennis Courts': { select: southOxfordSelectRef, comment: southOxfordCommentRef },
-  };
-
   return (
     <motion.section
       initial={{ opacity: 0, y: 50 }}
@@ -103,6 +285,26 @@ export function WaitTimesSection({
         </a>
       </p>
 
+      {staleSince || pendingReports > 0 ? (
+        <div
+          role="status"
+          className="mb-4 space-y-1 rounded-lg border-2 border-amber-300/70 bg-amber-50 px-4 py-3 text-sm text-amber-950 md:mb-8"
+        >
+          {staleSince ? (
+            <p>
+              You&apos;re offline. Showing the last known wait times, loaded{' '}
+              {formatTimeDifference(new Date(staleSince).getTime()).toLowerCase()}.
+            </p>
+          ) : null}
+          {pendingReports > 0 ? (
+            <p>
+              {pendingReports === 1 ? '1 report is' : `${pendingReports} reports are`} saved on this
+              device and will be sent when you&apos;re back online.
+            </p>
+          ) : null}
+        </div>
+      ) : null}
+
       {useTabbedMobileLayout ? (
         <>
           <div className="mb-4">
@@ -154,65 +356,19 @@ export function WaitTimesSection({
             className="space-y-4"
           >
             {mobileTab === 'report' &&
-              COURT_NAMES.map((courtName) => (
-                <div
-                  key={courtName}
-                  className="rounded-lg border-2 border-[#2D5A27]/35 bg-white/45 p-4 shadow-sm backdrop-blur-sm transition-all duration-300 hover:shadow-md"
-                >
-                  <div className="flex items-center justify-between mb-3">
-                    <h4 className="text-lg font-semibold text-[#2D5A27]">{courtName}</h4>
-                    <div
-                      className={`w-4 h-4 min-w-[16px] min-h-[16px] ${
-                        waitTimes[courtName]
-                          ? getStatusColor(getStatusFromWaitTime(waitTimes[courtName]!.wait_time))
-                          : 'bg-gray-500'
-                      } rounded-full`}
-                    />
-                  </div>
-                  <div className="grid grid-cols-1 gap-3">
-                    <select
-                      className="min-h-[44px] w-full rounded-lg border-2 border-[#2D5A27]/40 bg-white/70 px-2 py-2 text-sm text-[#1A1A1A] backdrop-blur-sm focus:border-[#2D5A27] focus:outline-none focus:ring-2 focus:ring-[#2D5A27] focus:ring-opacity-20"
-                      defaultValue={waitTimes[courtName]?.wait_time || 'Select wait time...'}
-                      ref={refs[courtName].select}
-                    >
-                      <option value="Select wait time...">Select wait time...</option>
-                      <option value="Less than 1 hour">Less than 1 hour</option>
-                      <option value="1-2 hours">1-2 hours</option>
-                      <option value="2-3 hours">2-3 hours</option>
-                      <option value="More than 3 hours">More than 3 hours</option>
-                    </select>
-                    <input
-                      type="text"
-                      placeholder="e.g. 6 rackets on fence, or 6 benches filled"
-                      className="min-h-[36px] w-full rounded-lg border-2 border-[#2D5A27]/40 bg-white/70 px-2.5 py-1.5 text-xs text-[#1A1A1A] backdrop-blur-sm focus:border-[#2D5A27] focus:outline-none focus:ring-2 focus:ring-[#2D5A27] focus:ring-opacity-20"
-                      ref={refs[courtName].comment}
-                    />
-                    <button
-                      type="button"
-                      onClick={() =>
-                        handleReportWaitTime(
-                          courtName,
-                          refs[courtName].select.current?.value || '',
-                          refs[courtName].comment.current?.value || ''
-                        )
-                      }
-                      disabled={reporting === courtName}
-                      className={`min-h-[44px] w-full rounded-lg px-2 py-2 text-sm font-medium transition-all duration-300 ${
-                        reporting === courtName
-                          ? 'cursor-not-allowed bg-gray-400 text-white'
-                          : reportSuccess === courtName
-                            ? 'bg-[#2D5A27] text-[#FFFDD0] scale-[1.02]'
-                            : 'bg-[#2D5A27] text-[#FFFDD0] hover:bg-[#24481f]'
-                      }`}
-                    >
-                      {reporting === courtName
-                        ? 'Reporting...'
-                        : reportSuccess === courtName
-                          ? '✓ Reported!'
-                          : 'Report'}
-                    </button>
-                  </div>
-                </div>
+              WAIT_TIME_COURTS.map((court) => (
+                <ReportWaitTimeCard
+                  key={court.id}
+                  court={court}
+                  report={waitTimes[court.id]}
+                  getStatusFromWaitRange={getStatusFromWaitRange}
+                  getStatusColor={getStatusColor}
+                  handleReportWaitTime={handleReportWaitTime}
+                  reporting={reporting}
+                  reportSuccess={reportSuccess}
+                  reportQueued={reportQueued}
+                  layout="mobile"
+                />
               ))}
           </div>
 
@@ -224,18 +380,20 @@ export function WaitTimesSection({
             className="space-y-4"
           >
             {mobileTab === 'live' &&
-              COURT_NAMES.map((courtName) => (
+              courtsByWait.map((court) => (
                 <LiveUpdateCourtCard
-                  key={courtName}
-                  courtName={courtName}
-                  report={waitTimes[courtName]}
-                  getStatusFromWaitTime={getStatusFromWaitTime}
+                  key={court.id}
+                  courtName={court.name}
+                  report={waitTimes[court.id]}
+                  forecast={forecasts[court.id]}
+                  getStatusFromWaitRange={getStatusFromWaitRange}
                   getStatusColor={getStatusColor}
                   formatTimeDifference={formatTimeDifference}
                   onFlag={handleFlagWaitTime}
                   cardClassName="rounded-lg border-2 border-[#2D5A27]/35 bg-white/45 p-4 shadow-sm backdrop-blur-sm transition-all duration-300 hover:shadow-md"
                   titleClassName="text-[#2D5A27]"
                   commentQuoted={false}
+                  stale={staleSince !== null}
                 />
               ))}
           </div>
@@ -259,65 +417,19 @@ export function WaitTimesSection({
             </div>
 
             <div className="space-y-4">
-              {COURT_NAMES.map((courtName) => (
-                <div
-                  key={courtName}
-                  className="rounded-lg border-2 border-[#2D5A27]/35 bg-white/45 p-4 shadow-sm backdrop-blur-sm transition-all duration-300 hover:shadow-md min-h-[44px]"
-                >
-                  <div className="flex items-center justify-between mb-3">
-                    <h4 className="text-lg font-semibold text-[#2D5A27]">{courtName}</h4>
-                    <div
-                      className={`w-4 h-4 min-w-[16px] min-h-[16px] ${
-                        waitTimes[courtName]
-                          ? getStatusColor(getStatusFromWaitTime(waitTimes[courtName]!.wait_time))
-                          : 'bg-gray-500'
-                      } rounded-full`}
-                    />
-                  </div>
-                  <div className="grid grid-cols-1 gap-3 md:grid-cols-[minmax(0,1fr)_auto] md:grid-rows-[auto_auto]">
-                    <select
-                      className="min-h-[44px] w-full min-w-0 rounded-lg border-2 border-[#2D5A27]/40 bg-white/70 px-2 py-2 text-sm text-[#1A1A1A] backdrop-blur-sm focus:border-[#2D5A27] focus:outline-none focus:ring-2 focus:ring-[#2D5A27] focus:ring-opacity-20 md:col-start-1 md:row-start-1"
-                      defaultValue={waitTimes[courtName]?.wait_time || 'Select wait time...'}
-                      ref={refs[courtName].select}
-                    >
-                      <option value="Select wait time...">Select wait time...</option>
-                      <option value="Less than 1 hour">Less than 1 hour</option>
-                      <option value="1-2 hours">1-2 hours</option>
-                      <option value="2-3 hours">2-3 hours</option>
-                      <option value="More than 3 hours">More than 3 hours</option>
-                    </select>
-                    <input
-                      type="text"
-                      placeholder="Leave a comment about the wait time..."
-                      className="min-h-[44px] w-full rounded-lg border-2 border-[#2D5A27]/40 bg-white/70 px-3 py-2 text-sm text-[#1A1A1A] backdrop-blur-sm focus:border-[#2D5A27] focus:outline-none focus:ring-2 focus:ring-[#2D5A27] focus:ring-opacity-20 md:col-span-2 md:row-start-2"
-                      ref={refs[courtName].comment}
-                    />
-                    <button
-                      type="button"
-                      onClick={() =>
-                        handleReportWaitTime(
-                          courtName,
-                          refs[courtName].select.current?.value || '',
-                          refs[courtName].comment.current?.value || ''
-                        )
-                      }
-                      disabled={reporting === courtName}
-                      className={`min-h-[44px] rounded-lg px-2 py-2 text-xs font-medium transition-all duration-300 whitespace-nowrap md:col-start-2 md:row-start-1 ${
-                        reporting === courtName
-                          ? 'cursor-not-allowed bg-gray-400 text-white'
-                          : reportSuccess === courtName
-                            ? 'bg-[#2D5A27] text-[#FFFDD0] scale-105'
-                            : 'bg-[#2D5A27] text-[#FFFDD0] hover:bg-[#24481f] hover:scale-105'
-                      }`}
-                    >
-                      {reporting === courtName
-                        ? 'Reporting...'
-                        : reportSuccess === courtName
-                          ? '✓ Reported!'
-                          : 'Report'}
-                    </button>
-                  </div>
-                </div>
+              {WAIT_TIME_COURTS.map((court) => (
+                <ReportWaitTimeCard
+                  key={court.id}
+                  court={court}
+                  report={waitTimes[court.id]}
+                  getStatusFromWaitRange={getStatusFromWaitRange}
+                  getStatusColor={getStatusColor}
+                  handleReportWaitTime={handleReportWaitTime}
+                  reporting={reporting}
+                  reportSuccess={reportSuccess}
+                  reportQueued={reportQueued}
+                  layout="desktop"
+                />
               ))}
             </div>
           </motion.div>
@@ -339,17 +451,19 @@ export function WaitTimesSection({
             </div>
 
             <div className="space-y-4">
-              {COURT_NAMES.map((courtName) => (
+              {courtsByWait.map((court) => (
                 <LiveUpdateCourtCard
-                  key={courtName}
-                  courtName={courtName}
-                  report={waitTimes[courtName]}
-                  getStatusFromWaitTime={getStatusFromWaitTime}
+                  key={court.id}
+                  courtName={court.name}
+                  report={waitTimes[court.id]}
+                  forecast={forecasts[court.id]}
+                  getStatusFromWaitRange={getStatusFromWaitRange}
                   getStatusColor={getStatusColor}
                   formatTimeDifference={formatTimeDifference}
                   onFlag={handleFlagWaitTime}
                   cardClassName="rounded-lg border-2 border-[#2D5A27]/35 bg-white/45 p-4 shadow-sm backdrop-blur-sm transition-all duration-300 hover:shadow-md"
                   titleClassName="text-[#2D5A27]"
+                  stale={staleSince !== null}
                 />
               ))}
             </div>
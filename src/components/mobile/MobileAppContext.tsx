@@ -0,0 +1,36 @@
+'use client';
+
+import { createContext, useContext } from 'react';
+import type { useWaitTimes } from '@/hooks/useWaitTimes';
+import type { useSignupSheetReports } from '@/hooks/useSignupSheetReports';
+import type { CourtLiveReports } from '@/lib/courtPins';
+import type { NearMe } from '@/lib/courtFilters';
+import type { CourtData } from '@/types/courts';
+import type { SubwayStation } from '@/types/transit';
+
+/** State the mobile shell keeps across tab routes; each tab screen reads what it needs. */
+export interface MobileAppState {
+  courts: CourtData[];
+  stations: SubwayStation[];
+  liveReports: CourtLiveReports;
+  waitTimes: ReturnType<typeof useWaitTimes>;
+  signupSheets: ReturnType<typeof useSignupSheetReports>;
+  /** Kept here rather than in the URL so shared links never carry the user's location. */
+  nearMe: NearMe | null;
+  setNearMe: (nearMe: NearMe | null) => void;
+  filtersCollapsed: boolean;
+  setFiltersCollapsed: (collapsed: boolean) => void;
+  /**
+   * Goes to `parentHref`: steps back through history when that is where we came from, so the
+   * hardware back button stays in sync, and pushes it otherwise (e.g. after opening a deep link).
+   */
+  navigateUp: (parentHref: string) => void;
+}
+
+export const MobileAppContext = createContext<MobileAppState | null>(null);
+
+export function useMobileApp(): MobileAppState {
+  const state = useContext(MobileAppContext);
+  if (!state) throw new Error('useMobileApp must be used inside MobileAppShell');
+  return state;
+}
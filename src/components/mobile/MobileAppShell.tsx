@@ -1,129 +1,109 @@
 'use client';
 
-import { useState } from 'react';
-import { motion } from 'framer-motion';
-import { MobileTabBar, type MobileTab } from './MobileTabBar';
-import { SignupSheetsPanel } from '@/components/mobile/signup-sheets/SignupSheetsPanel';
-import { WaitTimesSection } from '@/components/blocks/WaitTimesSection';
-import { CourtFinderSection } from '@/components/blocks/CourtFinderSection';
-import { MoreSection } from '@/components/blocks/MoreSection';
-import { useWaitTimes } from '@/hooks/useWaitTimes';
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+import { MobileTabBar } from './MobileTabBar';
+import { MobileAppContext, type MobileAppState } from './MobileAppContext';
+import type { useWaitTimes } from '@/hooks/useWaitTimes';
+import type { useSignupSheetReports } from '@/hooks/useSignupSheetReports';
+import type { CourtData } from '@/types/courts';
+import type { SubwayStation } from '@/types/transit';
+import type { NearMe } from '@/lib/courtFilters';
 
-export function MobileAppShell() {
-  const {
-    waitTimes,
-    getStatusFromWaitTime,
-    getStatusColor,
-    formatTimeDifference,
-    handleReportWaitTime,
-    handleFlagWaitTime,
-    reporting,
-    reportSuccess,
-  } = useWaitTimes();
-  const [activeTab, setActiveTab] = useState<MobileTab>('home');
+/** Window scroll offset per pathname; module-level so it survives a trip to a court page and back. */
+const scrollPositions = new Map<string, number>();
+
+export function MobileAppShell({
+  courts,
+  stations,
+  waitTimes,
+  signupSheets,
+  children,
+}: {
+  courts: CourtData[];
+  /** Subway stations for near-me travel times. */
+  stations: SubwayStation[];
+  /** From the page, which shares one subscription with the desktop layout. */
+  waitTimes: ReturnType<typeof useWaitTimes>;
+  signupSheets: ReturnType<typeof useSignupSheetReports>;
+  /** The current tab's screen, from the route. */
+  children: React.ReactNode;
+}) {
+  const pathname = usePathname();
+  const router = useRouter();
+  const signupSheetPhotos = signupSheets.latestPhotoByCourt;
+  const liveReports = useMemo(
+    () => ({ waitTimes: waitTimes.waitTimes, signupSheetPhotos }),
+    [waitTimes.waitTimes, signupSheetPhotos]
+  );
   const [filtersCollapsed, setFiltersCollapsed] = useState(true);
-  const [selectedBoroughs, setSelectedBoroughs] = useState<string[]>([]);
-  const [selectedSurfaces, setSelectedSurfaces] = useState<string[]>([]);
-  const [selectedPermitStatuses, setSelectedPermitStatuses] = useState<string[]>([]);
+  const [nearMe, setNearMe] = useState<NearMe | null>(null);
+  const shellRef = useRef<HTMLDivElement>(null);
+  const pathnameRef = useRef(pathname);
+  /** Pathnames visited in this shell, newest last; a step back to the previous one pops it. */
+  const visitedRef = useRef<string[]>([]);
 
-  const contentPaddingBottom = 'calc(80px + env(safe-area-inset-bottom))';
+  useLayoutEffect(() => {
+    pathnameRef.current = pathname;
+    const visited = visitedRef.current;
+    if (visited[visited.length - 2] === pathname) visited.pop();
+    else if (visited[visited.length - 1] !== pathname) visited.push(pathname);
+    // The desktop layout mounts this shell hidden; leave its scroll alone.
+    if (shellRef.current?.getClientRects().length === 0) return;
+    window.scrollTo(0, scrollPositions.get(pathname) ?? 0);
+  }, [pathname]);
 
-  return (
-    <div className="mobile-app-shell flex min-h-dvh flex-col bg-white">
-      {/* Content Area — min-h-0 so flex + overflow-y-auto can scroll on real devices */}
-      <main
-        className="flex min-h-0 flex-1 flex-col overflow-x-hidden overflow-y-auto pt-[env(safe-area-inset-top)]"
-        style={{
-          paddingBottom: contentPaddingBottom,
-        }}
-      >
-        {activeTab === 'home' && (
-          <div className="flex-1 bg-white px-4 pt-4">
-            <WaitTimesSection
-              waitTimes={waitTimes}
-              getStatusFromWaitTime={getStatusFromWaitTime}
-              getStatusColor={getStatusColor}
-              formatTimeDifference={formatTimeDifference}
-              handleReportWaitTime={handleReportWaitTime}
-              handleFlagWaitTime={handleFlagWaitTime}
-              reporting={reporting}
-              reportSuccess={reportSuccess}
-            />
-          </div>
-        )}
+  useEffect(() => {
+    const onScroll = () => {
+      if (shellRef.current?.getClientRects().length === 0) return;
+      scrollPositions.set(pathnameRef.current, window.scrollY);
+    };
+    window.addEventListener('scroll', onScroll, { passive: true });
+    return () => window.removeEventListener('scroll', onScroll);
+  }, []);
 
-        {activeTab === 'courts' && (
-          <div className="flex-1 px-4 py-6">
-            <CourtFinderSection
-              selectedBoroughs={selectedBoroughs}
-              selectedSurfaces={selectedSurfaces}
-              selectedPermitStatuses={selectedPermitStatuses}
-              onBoroughChange={(borough, checked) =>
-                setSelectedBoroughs((prev) =>
-                  checked ? [...prev, borough] : prev.filter((b) => b !== borough)
-                )
-              }
-              onSurfaceChange={(surface, checked) =>
-                setSelectedSurfaces((prev) =>
-                  checked ? [...prev, surface] : prev.filter((s) => s !== surface)
-                )
-              }
-              onPermitStatusChange={(permit, checked) =>
-                setSelectedPermitStatuses((prev) =>
-                  checked ? [...prev, permit] : prev.filter((p) => p !== permit)
-                )
-              }
-              filtersCollapsed={filtersCollapsed}
-              onFiltersCollapsedChange={setFiltersCollapsed}
-              isMobile
-            />
-          </div>
-        )}
+  const navigateUp = useCallback(
+    (parentHref: string) => {
+      const visited = visitedRef.current;
+      if (visited[visited.length - 2] === parentHref) router.back();
+      else router.push(parentHref, { scroll: false });
+    },
+    [router]
+  );
 
-        {activeTab === 'sheets' && (
-          <div className="flex min-h-0 flex-1 flex-col">
-            <SignupSheetsPanel />
-          </div>
-        )}
+  const app = useMemo<MobileAppState>(
+    () => ({
+      courts,
+      stations,
+      liveReports,
+      waitTimes,
+      signupSheets,
+      nearMe,
+      setNearMe,
+      filtersCollapsed,
+      setFiltersCollapsed,
+      navigateUp,
+    }),
+    [courts, stations, liveReports, waitTimes, signupSheets, nearMe, filtersCollapsed, navigateUp]
+  );
 
-        {activeTab === 'map' && (
-          <div className="flex-1 px-4 py-4">
-            <CourtFinderSection
-              selectedBoroughs={selectedBoroughs}
-              selectedSurfaces={selectedSurfaces}
-              selectedPermitStatuses={selectedPermitStatuses}
-              onBoroughChange={(borough, checked) =>
-                setSelectedBoroughs((prev) =>
-                  checked ? [...prev, borough] : prev.filter((b) => b !== borough)
-                )
-              }
-              onSurfaceChange={(surface, checked) =>
-                setSelectedSurfaces((prev) =>
-                  checked ? [...prev, surface] : prev.filter((s) => s !== surface)
-                )
-              }
-              onPermitStatusChange={(permit, checked) =>
-                setSelectedPermitStatuses((prev) =>
-                  checked ? [...prev, permit] : prev.filter((p) => p !== permit)
-                )
-              }
-              filtersCollapsed={filtersCollapsed}
-              onFiltersCollapsedChange={setFiltersCollapsed}
-              isMobile
-              mapOnly
-            />
-          </div>
-        )}
+  const contentPaddingBottom = 'calc(80px + env(safe-area-inset-bottom))';
 
-        {activeTab === 'more' && (
-          <div className="flex-1 px-4 py-6">
-            <MoreSection isMobile />
-          </div>
-        )}
-      </main>
+  return (
+    <MobileAppContext.Provider value={app}>
+      <div ref={shellRef} className="mobile-app-shell flex min-h-dvh flex-col bg-white">
+        {/* Content Area — min-h-0 so flex + overflow-y-auto can scroll on real devices */}
+        <main
+          className="flex min-h-0 flex-1 flex-col overflow-x-hidden overflow-y-auto pt-[env(safe-area-inset-top)]"
+          style={{
+            paddingBottom: contentPaddingBottom,
+          }}
+        >
+          {children}
+        </main>
 
-      <MobileTabBar activeTab={activeTab} onTabChange={setActiveTab} />
-    </div>
+        <MobileTabBar />
+      </div>
+    </MobileAppContext.Provider>
   );
 }
-
@@ -1,13 +1,12 @@
 'use client';
 
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { usePathname } from 'next/navigation';
 import { Home, MapPin, Map, MoreHorizontal, ClipboardList } from 'lucide-react';
-
-export type MobileTab = 'home' | 'courts' | 'map' | 'sheets' | 'more';
-
-interface MobileTabBarProps {
-  activeTab: MobileTab;
-  onTabChange: (tab: MobileTab) => void;
-}
+import { useCourtFinderFilters } from '@/hooks/useCourtFinderFilters';
+import { courtFinderSearch } from '@/lib/courtFinderUrl';
+import { COURT_FINDER_TABS, MOBILE_TAB_PATHS, mobileTabForPath, type MobileTab } from '@/lib/mobileRoutes';
 
 const TABS: { id: MobileTab; label: string; icon: typeof Home }[] = [
   { id: 'home', label: 'Home', icon: Home },
@@ -17,7 +16,15 @@ const TABS: { id: MobileTab; label: string; icon: typeof Home }[] = [
   { id: 'more', label: 'More', icon: MoreHorizontal },
 ];
 
-export function MobileTabBar({ activeTab, onTabChange }: MobileTabBarProps) {
+export function MobileTabBar() {
+  const activeTab = mobileTabForPath(usePathname());
+  const { filters } = useCourtFinderFilters();
+  // Other tabs drop the Court Finder query string, so remember it for the way back.
+  const [finderSearch, setFinderSearch] = useState('');
+  useEffect(() => {
+    if (COURT_FINDER_TABS.includes(activeTab)) setFinderSearch(courtFinderSearch(filters, ''));
+  }, [activeTab, filters]);
+
   return (
     <nav
       className="fixed bottom-0 left-0 right-0 z-[80] bg-white/95 backdrop-blur-sm border-t border-[#2D5A27]/20 shadow-[0_-6px_20px_rgba(0,0,0,0.12)]"
@@ -25,9 +32,10 @@ export function MobileTabBar({ activeTab, onTabChange }: MobileTabBarProps) {
     >
       <div className="flex h-[3.75rem] items-center justify-around px-0.5">
         {TABS.map(({ id, label, icon: Icon }) => (
-          <button
+          <Link
             key={id}
-            onClick={() => onTabChange(id)}
+            href={COURT_FINDER_TABS.includes(id) ? `${MOBILE_TAB_PATHS[id]}${finderSearch}` : MOBILE_TAB_PATHS[id]}
+            scroll={false}
             className={`flex min-h-[44px] min-w-0 flex-1 flex-col items-center justify-center py-1.5 transition-colors ${
               activeTab === id ? 'text-[#2D5A27]' : 'text-[#1A1A1A]/60'
             }`}
@@ -38,7 +46,7 @@ export function MobileTabBar({ activeTab, onTabChange }: MobileTabBarProps) {
             <span className="mt-0.5 max-w-full truncate px-0.5 text-[10px] font-medium sm:text-xs">
               {label}
             </span>
-          </button>
+          </Link>
         ))}
       </div>
     </nav>
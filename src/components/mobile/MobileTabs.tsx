@@ -0,0 +1,97 @@
+'use client';
+
+import { WaitTimesSection } from '@/components/blocks/WaitTimesSection';
+import { CourtFinderSection } from '@/components/blocks/CourtFinderSection';
+import { MoreSection } from '@/components/blocks/MoreSection';
+import { useCourtFinderFilters } from '@/hooks/useCourtFinderFilters';
+import { useMobileApp } from './MobileAppContext';
+
+export function MobileHomeTab() {
+  const {
+    waitTimes: {
+      waitTimes,
+      forecasts,
+      getStatusFromWaitRange,
+      getStatusColor,
+      formatTimeDifference,
+      handleReportWaitTime,
+      handleFlagWaitTime,
+      reporting,
+      reportSuccess,
+      reportQueued,
+      pendingReports,
+      staleSince,
+    },
+  } = useMobileApp();
+  return (
+    <div className="flex-1 bg-white px-4 pt-4">
+      <WaitTimesSection
+        waitTimes={waitTimes}
+        forecasts={forecasts}
+        getStatusFromWaitRange={getStatusFromWaitRange}
+        getStatusColor={getStatusColor}
+        formatTimeDifference={formatTimeDifference}
+        handleReportWaitTime={handleReportWaitTime}
+        handleFlagWaitTime={handleFlagWaitTime}
+        reporting={reporting}
+        reportSuccess={reportSuccess}
+        reportQueued={reportQueued}
+        pendingReports={pendingReports}
+        staleSince={staleSince}
+      />
+    </div>
+  );
+}
+
+/** The Courts tab, or with `mapOnly` the Map tab; both share the filters in the URL. */
+export function MobileCourtFinder({ mapOnly = false }: { mapOnly?: boolean }) {
+  const { courts, stations, liveReports, nearMe, setNearMe, filtersCollapsed, setFiltersCollapsed } =
+    useMobileApp();
+  const {
+    filters,
+    setQuery,
+    onBoroughChange,
+    onSurfaceChange,
+    onPermitStatusChange,
+    onAmenityChange,
+    setAvailability,
+    setViewport,
+  } = useCourtFinderFilters();
+  return (
+    <div className={mapOnly ? 'flex-1 px-4 py-4' : 'flex-1 px-4 py-6'}>
+      <CourtFinderSection
+        courts={courts}
+        stations={stations}
+        liveReports={liveReports}
+        query={filters.query}
+        onQueryChange={setQuery}
+        selectedBoroughs={filters.boroughs}
+        selectedSurfaces={filters.surfaces}
+        selectedPermitStatuses={filters.permitStatuses}
+        selectedAmenities={filters.amenities}
+        onBoroughChange={onBoroughChange}
+        onSurfaceChange={onSurfaceChange}
+        onPermitStatusChange={onPermitStatusChange}
+        onAmenityChange={onAmenityChange}
+        availability={filters.availability}
+        onAvailabilityChange={setAvailability}
+        nearMe={nearMe}
+        onNearMeChange={setNearMe}
+        viewport={filters.viewport}
+        onViewportChange={setViewport}
+        filtersCollapsed={filtersCollapsed}
+        onFiltersCollapsedChange={setFiltersCollapsed}
+        isMobile
+        mapOnly={mapOnly}
+      />
+    </div>
+  );
+}
+
+export function MobileMoreTab() {
+  return (
+    <div className="flex-1 px-4 py-6">
+      <MoreSection isMobile />
+    </div>
+  );
+}
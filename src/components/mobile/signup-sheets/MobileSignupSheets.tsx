@@ -0,0 +1,31 @@
+'use client';
+
+import { usePathname, useRouter } from 'next/navigation';
+import { SignupSheetsPanel } from './SignupSheetsPanel';
+import { useMobileApp } from '@/components/mobile/MobileAppContext';
+import {
+  parentSignupSheetScreen,
+  signupSheetPath,
+  signupSheetScreenForPath,
+} from '@/lib/mobileRoutes';
+
+/** The Sheets tab: the list, a court's latest report and the report form are `/sheets/…` routes. */
+export function MobileSignupSheets() {
+  const pathname = usePathname();
+  const router = useRouter();
+  const { signupSheets, navigateUp } = useMobileApp();
+  const screen = signupSheetScreenForPath(pathname);
+  // Unknown courts 404 from the route itself; this only covers the frame before it renders.
+  if (!screen) return null;
+
+  return (
+    <div className="flex min-h-0 flex-1 flex-col">
+      <SignupSheetsPanel
+        reports={signupSheets}
+        screen={screen}
+        onNavigate={(next) => router.push(signupSheetPath(next), { scroll: false })}
+        onBack={() => navigateUp(signupSheetPath(parentSignupSheetScreen(screen)))}
+      />
+    </div>
+  );
+}
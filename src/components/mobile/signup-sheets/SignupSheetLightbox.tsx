@@ -0,0 +1,129 @@
+'use client';
+
+import { useEffect } from 'react';
+import { motion, AnimatePresence, type PanInfo } from 'framer-motion';
+import { ChevronLeft, ChevronRight, X } from 'lucide-react';
+
+export interface LightboxPhoto {
+  url: string;
+  /** e.g. the report time and status. */
+  caption: string;
+}
+
+/** Horizontal drag (px) or flick speed (px/s) that moves to the next photo. */
+const SWIPE_DISTANCE = 60;
+const SWIPE_VELOCITY = 400;
+
+/**
+ * Full-screen photo viewer. With several photos, swipe, the arrow buttons or the arrow keys step
+ * through them in order; tapping the backdrop or pressing Escape closes it.
+ */
+export function SignupSheetLightbox({
+  photos,
+  index,
+  onIndexChange,
+  onClose,
+}: {
+  photos: LightboxPhoto[];
+  /** Photo on screen, or null when closed. */
+  index: number | null;
+  onIndexChange: (index: number) => void;
+  onClose: () => void;
+}) {
+  const photo = index === null ? null : photos[index];
+  const hasPrev = index !== null && index > 0;
+  const hasNext = index !== null && index < photos.length - 1;
+
+  useEffect(() => {
+    if (index === null) return;
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      else if (e.key === 'ArrowLeft' && index > 0) onIndexChange(index - 1);
+      else if (e.key === 'ArrowRight' && index < photos.length - 1) onIndexChange(index + 1);
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [index, photos.length, onIndexChange, onClose]);
+
+  const onDragEnd = (_: unknown, info: PanInfo) => {
+    if (index === null) return;
+    const swiped =
+      Math.abs(info.offset.x) > SWIPE_DISTANCE || Math.abs(info.velocity.x) > SWIPE_VELOCITY;
+    if (!swiped) return;
+    if (info.offset.x < 0 && hasNext) onIndexChange(index + 1);
+    else if (info.offset.x > 0 && hasPrev) onIndexChange(index - 1);
+  };
+
+  return (
+    <AnimatePresence>
+      {photo && index !== null ? (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-[300] flex flex-col items-center justify-center bg-black p-4"
+          role="dialog"
+          aria-modal="true"
+          aria-label="Photo"
+          onClick={onClose}
+        >
+          <button
+            type="button"
+            onClick={onClose}
+            className="absolute right-4 top-4 z-10 flex h-11 w-11 items-center justify-center rounded-full bg-white/10 text-white"
+            aria-label="Close"
+          >
+            <X className="h-7 w-7" />
+          </button>
+          <AnimatePresence mode="popLayout" initial={false}>
+            <motion.img
+              key={photo.url}
+              src={photo.url}
+              alt={`Sign up sheet, ${photo.caption}`}
+              className="max-h-[80dvh] max-w-full touch-pan-y select-none object-contain"
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              drag={photos.length > 1 ? 'x' : false}
+              dragConstraints={{ left: 0, right: 0 }}
+              dragElastic={0.6}
+              onDragEnd={onDragEnd}
+              draggable={false}
+              onClick={(e) => e.stopPropagation()}
+            />
+          </AnimatePresence>
+          <p
+            className="mt-4 text-center text-sm text-white/85"
+            aria-live="polite"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {photo.caption}
+            {photos.length > 1 ? ` · ${index + 1} of ${photos.length}` : ''}
+          </p>
+          {photos.length > 1 ? (
+            <div className="mt-3 flex gap-4" onClick={(e) => e.stopPropagation()}>
+              <button
+                type="button"
+                disabled={!hasPrev}
+                onClick={() => onIndexChange(index - 1)}
+                className="flex h-11 w-11 items-center justify-center rounded-full bg-white/10 text-white disabled:opacity-30"
+                aria-label="Earlier photo"
+              >
+                <ChevronLeft className="h-6 w-6" />
+              </button>
+              <button
+                type="button"
+                disabled={!hasNext}
+                onClick={() => onIndexChange(index + 1)}
+                className="flex h-11 w-11 items-center justify-center rounded-full bg-white/10 text-white disabled:opacity-30"
+                aria-label="Later photo"
+              >
+                <ChevronRight className="h-6 w-6" />
+              </button>
+            </div>
+          ) : null}
+        </motion.div>
+      ) : null}
+    </AnimatePresence>
+  );
+}
@@ -10,14 +10,22 @@ import {
   X,
   ClipboardList,
 } from 'lucide-react';
-import { useSignupSheetReports } from '@/hooks/useSignupSheetReports';
+import type { useSignupSheetReports } from '@/hooks/useSignupSheetReports';
 import {
   SIGNUP_SHEET_BOROUGHS,
+  SIGNUP_SHEET_STATUS_BUTTON_CLASS,
+  SIGNUP_SHEET_STATUS_LABEL,
+  SIGNUP_SHEET_STATUS_ORDER,
   courtsByBorough,
+  signupStatusDotClass,
+  signupStatusLabel,
   type SignupSheetBorough,
   type SignupSheetCourt,
+  type SignupSheetStatus,
 } from '@/data/signupSheetCourts';
 import type { SignupSheetReport } from '@/lib/supabase';
+import { parentSignupSheetScreen, type SignupSheetScreen } from '@/lib/mobileRoutes';
+import { SignupSheetLightbox, type LightboxPhoto } from './SignupSheetLightbox';
 
 function formatReportTime(iso: string): string {
   const d = new Date(iso);
@@ -29,27 +37,65 @@ function formatReportTime(iso: string): string {
   });
 }
 
-type View = 'list' | 'detail' | 'report';
+/** Distinct devices among the reports; rows without a device id count once each. */
+function countReporters(reports: SignupSheetReport[]): number {
+  const devices = new Set<string>();
+  let anonymous = 0;
+  for (const r of reports) {
+    if (r.device_id) devices.add(r.device_id);
+    else anonymous += 1;
+  }
+  return devices.size + anonymous;
+}
+
+/** Marks a report that arrived live from someone else since the reader last opened the court. */
+function NewBadge() {
+  return (
+    <span className="ml-1.5 inline-block rounded-full bg-[#2D5A27]/10 px-1.5 py-px align-middle text-[10px] font-semibold uppercase tracking-wide text-[#2D5A27]">
+      New
+    </span>
+  );
+}
+
+interface SignupSheetsPanelProps {
+  /** The page's `useSignupSheetReports()`, shared so each layout does not subscribe again. */
+  reports: ReturnType<typeof useSignupSheetReports>;
+  /** Screen to show, e.g. from the route; without it the panel keeps its own. */
+  screen?: SignupSheetScreen;
+  onNavigate?: (screen: SignupSheetScreen) => void;
+  /** Header back button; defaults to navigating to the parent screen. */
+  onBack?: () => void;
+}
 
-export function SignupSheetsPanel() {
+export function SignupSheetsPanel({ reports, screen: routeScreen, onNavigate, onBack }: SignupSheetsPanelProps) {
   const {
     latestByCourt,
+    reportsByCourt,
+    newByCourt,
+    markCourtSeen,
+    pendingReports,
     loading,
     submitting,
+    uploadProgress,
     submitError,
     configured,
     submitReport,
     refresh,
-  } = useSignupSheetReports();
-  const [view, setView] = useState<View>('list');
-  const [selected, setSelected] = useState<SignupSheetCourt | null>(null);
-  const [lightboxUrl, setLightboxUrl] = useState<string | null>(null);
+  } = reports;
+  const [localScreen, setLocalScreen] = useState<SignupSheetScreen>({ view: 'list' });
+  const screen = routeScreen ?? localScreen;
+  const navigate = onNavigate ?? setLocalScreen;
+  const view = screen.view;
+  const selected = screen.view === 'list' ? null : screen.court;
+  /** Photo open in the viewer: an index into that court's `photosForSelected`. */
+  const [lightbox, setLightbox] = useState<{ court: string; index: number } | null>(null);
   const [expanded, setExpanded] = useState<Record<SignupSheetBorough, boolean>>({
     Manhattan: true,
     Brooklyn: false,
     Queens: false,
   });
   const [photoFile, setPhotoFile] = useState<File | null>(null);
+  const [status, setStatus] = useState<SignupSheetStatus | null>(null);
   const [photoPreview, setPhotoPreview] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -75,28 +121,29 @@ export function SignupSheetsPanel() {
     };
   }, [photoPreview]);
 
+  const selectedName = selected?.name ?? null;
+  useEffect(() => {
+    if (!selectedName) return;
+    // A court's new reports count as seen once the reader leaves its screens.
+    return () => markCourtSeen(selectedName);
+  }, [selectedName, markCourtSeen]);
+
   const openDetail = (court: SignupSheetCourt) => {
-    setSelected(court);
-    setView('detail');
+    navigate({ view: 'detail', court });
   };
 
   const openReport = () => {
+    if (!selected) return;
     setPhotoFile(null);
     if (photoPreview) URL.revokeObjectURL(photoPreview);
     setPhotoPreview(null);
-    setView('report');
+    setStatus(null);
+    navigate({ view: 'report', court: selected });
   };
 
   const goBack = () => {
-    if (view === 'report') {
-      setView('detail');
-      return;
-    }
-    if (view === 'detail') {
-      setSelected(null);
-      setView('list');
-      return;
-    }
+    if (onBack) onBack();
+    else navigate(parentSignupSheetScreen(screen));
   };
 
   const toggleBorough = (b: SignupSheetBorough) => {
@@ -116,21 +163,41 @@ export function SignupSheetsPanel() {
     if (!selected) {
       return;
     }
-    if (!photoFile) {
-      alert('Add a photo of the sign up sheet before submitting.');
+    if (!photoFile && !status) {
+      alert('Pick how full the sign up sheet is, or add a photo of it.');
       return;
     }
-    const ok = await submitReport(selected.name, selected.borough, photoFile);
+    const ok = await submitReport(selected.name, selected.borough, status, photoFile);
     if (ok) {
       clearPhoto();
-      setView('detail');
+      setStatus(null);
+      goBack();
     }
   };
 
   const reportForSelected: SignupSheetReport | null = selected
     ? latestByCourt[selected.name]
     : null;
-  const canSubmit = Boolean(photoFile) && !submitting;
+  /** Newest first, like the timeline. */
+  const reportsForSelected: SignupSheetReport[] = selected ? reportsByCourt[selected.name] ?? [] : [];
+  /** Oldest first, so swiping forward follows the sheet filling up. */
+  const photosForSelected: LightboxPhoto[] = reportsForSelected
+    .filter((r): r is SignupSheetReport & { signedPhotoUrl: string } => Boolean(r.signedPhotoUrl))
+    .reverse()
+    .map((r) => ({
+      url: r.signedPhotoUrl,
+      caption: `${formatReportTime(r.created_at)} · ${signupStatusLabel(r.status)}`,
+    }));
+  const openPhoto = (url: string | null) => {
+    const index = photosForSelected.findIndex((p) => p.url === url);
+    if (selected && index >= 0) setLightbox({ court: selected.name, index });
+  };
+  // Leaving the court's screens (including with the browser's Back) closes the viewer.
+  const lightboxIndex =
+    lightbox && view !== 'list' && lightbox.court === selected?.name ? lightbox.index : null;
+  const newIdsForSelected = new Set(selected ? newByCourt[selected.name] ?? [] : []);
+  const reporterCount = countReporters(reportsForSelected);
+  const canSubmit = Boolean(photoFile || status) && !submitting;
 
   function SubHeader({ title }: { title: string }) {
     return (
@@ -186,6 +253,15 @@ export function SignupSheetsPanel() {
             </div>
 
             <div className="min-h-0 flex-1 space-y-2 overflow-y-auto px-3 py-4 pb-6">
+              {pendingReports > 0 ? (
+                <p
+                  role="status"
+                  className="mb-2 rounded-lg border border-[#2D5A27]/25 bg-[#2D5A27]/5 px-3 py-2 text-xs leading-snug text-[#1a3d1f]"
+                >
+                  {pendingReports === 1 ? '1 report is' : `${pendingReports} reports are`} saved on
+                  this device and will be sent when you&apos;re back online.
+                </p>
+              ) : null}
               {submitError ? (
                 <p
                   role="alert"
@@ -239,15 +315,18 @@ export function SignupSheetsPanel() {
                               >
                                 <span
                                   className={`mt-1.5 h-3 w-3 shrink-0 rounded-full ${
-                                    r ? 'bg-[#2D5A27]' : 'bg-gray-400'
+                                    r ? signupStatusDotClass(r.status) : 'bg-gray-400'
                                   }`}
                                   aria-hidden
                                 />
                                 <span className="min-w-0 flex-1">
                                   <span className="font-medium text-[#2D5A27]">{court.name}</span>
+                                  {newByCourt[court.name]?.length ? <NewBadge /> : null}
                                   {r ? (
                                     <span className="mt-0.5 block text-xs text-gray-500">
-                                      Photo reported · {formatReportTime(r.created_at)}
+                                      {signupStatusLabel(r.status)}
+                                      {r.status && r.signedPhotoUrl ? ' · photo' : ''} ·{' '}
+                                      {formatReportTime(r.created_at)}
                                     </span>
                                   ) : (
                                     <span className="mt-0.5 block text-xs text-gray-400">
@@ -290,25 +369,34 @@ export function SignupSheetsPanel() {
               ) : null}
               <div className="rounded-xl border-2 border-[#2D5A27]/35 bg-white/50 p-4 shadow-sm backdrop-blur-sm">
                 <span className="text-xs font-semibold uppercase tracking-wider text-gray-500">
-                  Latest photo report
+                  Latest report
                 </span>
                 {reportForSelected ? (
                   <>
-                    <p className="mt-2 text-lg font-semibold text-[#2D5A27]">
-                      Photo available
+                    <p className="mt-2 flex items-center gap-2 text-lg font-semibold text-[#2D5A27]">
+                      <span
+                        className={`h-3.5 w-3.5 shrink-0 rounded-full ${signupStatusDotClass(
+                          reportForSelected.status
+                        )}`}
+                        aria-hidden
+                      />
+                      {reportForSelected.status
+                        ? SIGNUP_SHEET_STATUS_LABEL[reportForSelected.status]
+                        : 'Photo available'}
                     </p>
                     <p className="mt-1 text-sm text-gray-500">
                       Last reported {formatReportTime(reportForSelected.created_at)}
+                      {newIdsForSelected.has(reportForSelected.id) ? <NewBadge /> : null}
                     </p>
-                    {reportForSelected.photo_url ? (
+                    {reportForSelected.signedPhotoUrl ? (
                       <button
                         type="button"
-                        onClick={() => setLightboxUrl(reportForSelected.photo_url)}
+                        onClick={() => openPhoto(reportForSelected.signedPhotoUrl)}
                         className="mt-4 block w-full overflow-hidden rounded-lg border border-[#2D5A27]/25 bg-white/60 focus:outline-none focus:ring-2 focus:ring-[#2D5A27] backdrop-blur-sm"
                       >
                         {/* eslint-disable-next-line @next/next/no-img-element */}
                         <img
-                          src={reportForSelected.photo_url}
+                          src={reportForSelected.signedPhotoUrl}
                           alt="Sign up sheet"
                           className="h-48 w-full object-cover"
                         />
@@ -325,6 +413,59 @@ export function SignupSheetsPanel() {
                 )}
               </div>
 
+              {reportsForSelected.length > 1 ? (
+                <section className="rounded-xl border-2 border-[#2D5A27]/35 bg-white/50 p-4 shadow-sm backdrop-blur-sm">
+                  <h2 className="text-xs font-semibold uppercase tracking-wider text-gray-500">
+                    This morning
+                  </h2>
+                  <p className="mt-1 text-sm text-gray-600">
+                    {reportsForSelected.length} reports from{' '}
+                    {reporterCount === 1 ? '1 person' : `${reporterCount} people`}
+                  </p>
+                  <ol className="mt-3 space-y-3 border-l-2 border-[#2D5A27]/20 pl-4">
+                    {reportsForSelected.map((r) => (
+                      <li key={r.id} className="relative flex items-center gap-3">
+                        <span
+                          className={`absolute -left-[23px] h-3 w-3 rounded-full ${signupStatusDotClass(
+                            r.status
+                          )}`}
+                          aria-hidden
+                        />
+                        {r.signedPhotoUrl ? (
+                          <button
+                            type="button"
+                            onClick={() => openPhoto(r.signedPhotoUrl)}
+                            className="h-14 w-14 shrink-0 overflow-hidden rounded-lg border border-[#2D5A27]/25 focus:outline-none focus:ring-2 focus:ring-[#2D5A27]"
+                            aria-label={`Photo from ${formatReportTime(r.created_at)}`}
+                          >
+                            {/* eslint-disable-next-line @next/next/no-img-element */}
+                            <img
+                              src={r.signedPhotoUrl}
+                              alt=""
+                              loading="lazy"
+                              className="h-full w-full object-cover"
+                            />
+                          </button>
+                        ) : (
+                          <span className="flex h-14 w-14 shrink-0 items-center justify-center rounded-lg border border-dashed border-[#2D5A27]/25 text-[10px] text-gray-400">
+                            No photo
+                          </span>
+                        )}
+                        <span className="min-w-0">
+                          <span className="block text-sm font-medium text-[#2D5A27]">
+                            {signupStatusLabel(r.status)}
+                          </span>
+                          <span className="block text-xs text-gray-500">
+                            {formatReportTime(r.created_at)}
+                            {newIdsForSelected.has(r.id) ? <NewBadge /> : null}
+                          </span>
+                        </span>
+                      </li>
+                    ))}
+                  </ol>
+                </section>
+              ) : null}
+
               <button
                 type="button"
                 onClick={openReport}
@@ -345,7 +486,7 @@ export function SignupSheetsPanel() {
             transition={{ duration: 0.2 }}
             className="flex min-h-0 flex-1 flex-col"
           >
-            <SubHeader title="Report photo" />
+            <SubHeader title="Report sign up sheet" />
             <div className="flex-1 space-y-4 overflow-y-auto px-4 py-4 pb-8">
               {submitError ? (
                 <p
@@ -357,9 +498,35 @@ export function SignupSheetsPanel() {
               ) : null}
               <p className="text-sm text-gray-600">{selected.name}</p>
               <p className="text-sm leading-relaxed text-gray-600">
-                Snap a clear photo of today&apos;s sign up sheet, then submit it.
+                Pick how full today&apos;s sign up sheet is, snap a clear photo of it, or both.
               </p>
 
+              <fieldset>
+                <legend className="mb-2 text-xs font-semibold uppercase tracking-wider text-gray-500">
+                  How full is it?{photoFile ? ' (optional with a photo)' : ''}
+                </legend>
+                <div className="grid grid-cols-3 gap-2">
+                  {SIGNUP_SHEET_STATUS_ORDER.map((option) => {
+                    const picked = status === option;
+                    return (
+                      <button
+                        key={option}
+                        type="button"
+                        aria-pressed={picked}
+                        onClick={() => setStatus(picked ? null : option)}
+                        className={`min-h-[48px] rounded-xl border-2 px-2 py-2 text-sm font-semibold transition-all ${
+                          picked
+                            ? `${SIGNUP_SHEET_STATUS_BUTTON_CLASS[option]} ring-4`
+                            : 'border-[#2D5A27]/25 bg-white/60 text-[#2D5A27] active:bg-[#2D5A27]/5'
+                        }`}
+                      >
+                        {SIGNUP_SHEET_STATUS_LABEL[option]}
+                      </button>
+                    );
+                  })}
+                </div>
+              </fieldset>
+
               <input
                 ref={fileInputRef}
                 type="file"
@@ -401,43 +568,38 @@ export function SignupSheetsPanel() {
                     : 'bg-[#2D5A27] text-[#FFFDD0] active:bg-[#24481f]'
                 }`}
               >
-                {submitting ? 'Submitting…' : 'Submit'}
+                {submitting
+                  ? uploadProgress !== null
+                    ? `Uploading photo… ${Math.round(uploadProgress * 100)}%`
+                    : 'Submitting…'
+                  : 'Submit'}
               </button>
+              {uploadProgress !== null ? (
+                <div
+                  role="progressbar"
+                  aria-label="Photo upload"
+                  aria-valuemin={0}
+                  aria-valuemax={100}
+                  aria-valuenow={Math.round(uploadProgress * 100)}
+                  className="h-2 w-full overflow-hidden rounded-full bg-[#2D5A27]/15"
+                >
+                  <div
+                    className="h-full rounded-full bg-[#2D5A27] transition-[width] duration-200"
+                    style={{ width: `${uploadProgress * 100}%` }}
+                  />
+                </div>
+              ) : null}
             </div>
           </motion.div>
         )}
       </AnimatePresence>
 
-      <AnimatePresence>
-        {lightboxUrl ? (
-          <motion.div
-            initial={{ opacity: 0 }}
-            animate={{ opacity: 1 }}
-            exit={{ opacity: 0 }}
-            className="fixed inset-0 z-[300] flex items-center justify-center bg-black p-4"
-            role="dialog"
-            aria-modal="true"
-            aria-label="Photo"
-            onClick={() => setLightboxUrl(null)}
-          >
-            <button
-              type="button"
-              onClick={() => setLightboxUrl(null)}
-              className="absolute right-4 top-4 flex h-11 w-11 items-center justify-center rounded-full bg-white/10 text-white"
-              aria-label="Close"
-            >
-              <X className="h-7 w-7" />
-            </button>
-            {/* eslint-disable-next-line @next/next/no-img-element */}
-            <img
-              src={lightboxUrl}
-              alt="Sign up sheet full size"
-              className="max-h-[90dvh] max-w-full object-contain"
-              onClick={(e) => e.stopPropagation()}
-            />
-          </motion.div>
-        ) : null}
-      </AnimatePresence>
+      <SignupSheetLightbox
+        photos={photosForSelected}
+        index={lightboxIndex}
+        onIndexChange={(index) => selected && setLightbox({ court: selected.name, index })}
+        onClose={() => setLightbox(null)}
+      />
     </div>
   );
 }
@@ -0,0 +1,29 @@
+/**
+ * Reviewed corrections to the amenities extracted from the court sheet. Prefer fixing the sheet's
+ * local tips; add an entry here when the text is right but the extraction gets it wrong, or when
+ * an amenity is confirmed but not mentioned in the sheet.
+ */
+
+import type { CourtAmenity } from '@/types/courts';
+
+export type CourtAmenityOverride = {
+  /** `Name` column of the court catalogue CSV (trimmed). */
+  catalogueName: string;
+  add?: CourtAmenity[];
+  remove?: CourtAmenity[];
+  /** What was checked and how, e.g. "site visit, May 2026". */
+  reason: string;
+};
+
+export const COURT_AMENITY_OVERRIDES: CourtAmenityOverride[] = [
+  {
+    catalogueName: 'Prospect Park Tennis Courts',
+    add: ['lights'],
+    reason: 'Sheet prices outdoor night play from 7 to 11 PM but never says "lights"; reviewed against courts.csv, Oct 2026.',
+  },
+  {
+    catalogueName: 'Sutton East Tennis Courts',
+    add: ['lights'],
+    reason: 'Sheet lists 8 indoor courts open until 11 PM but never says "lights"; reviewed against courts.csv, Oct 2026.',
+  },
+];
@@ -0,0 +1,35 @@
+/** Allowed catalogue values and the filter options built from them. */
+
+import type { Borough, CourtAmenity, CourtSurface, PermitStatus } from '@/types/courts';
+
+export const BOROUGHS: Borough[] = ['Manhattan', 'Brooklyn', 'Queens', 'The Bronx', 'Staten Island'];
+
+/** Boroughs offered as filters (no Staten Island courts in the sheet yet). */
+export const FILTER_BOROUGHS: Borough[] = ['Manhattan', 'Brooklyn', 'Queens', 'The Bronx'];
+
+export const COURT_SURFACES: CourtSurface[] = ['Hard', 'Clay', 'Har-Tru'];
+
+export const PERMIT_STATUSES: PermitStatus[] = [
+  'Required & Enforced',
+  'Required, but Rarely Checked',
+  'Required',
+  'Reservation',
+  'Not Required',
+  'Unknown',
+];
+
+export const PERMIT_FILTER_OPTIONS: { value: PermitStatus; label: string }[] = [
+  { value: 'Required & Enforced', label: 'Required & Enforced' },
+  { value: 'Required, but Rarely Checked', label: 'Required, Rarely Checked' },
+  { value: 'Not Required', label: 'Not Required' },
+];
+
+export const COURT_AMENITIES: CourtAmenity[] = ['lights', 'restrooms', 'water', 'backboard', 'proShop'];
+
+export const AMENITY_LABELS: Record<CourtAmenity, string> = {
+  lights: 'Lights',
+  restrooms: 'Restrooms',
+  water: 'Water',
+  backboard: 'Backboard',
+  proShop: 'Pro Shop',
+};
@@ -1,5 +1,7 @@
 /** Morning sign-up sheet courts — canonical names match DB `court_name`. */
 
+import type { CourtData } from '@/types/courts';
+
 export type SignupSheetBorough = 'Manhattan' | 'Brooklyn' | 'Queens';
 
 export type SignupSheetStatus = 'sheet_empty' | 'few_names' | 'sheet_full';
@@ -14,6 +16,11 @@ export const SIGNUP_SHEET_STATUS_LABEL: Record<SignupSheetDisplayStatus, string>
   sheet_full: 'Sheet Full',
 };
 
+/** Label for a report's status; photo-only reports have none. */
+export function signupStatusLabel(status: SignupSheetDisplayStatus | null): string {
+  return status ? SIGNUP_SHEET_STATUS_LABEL[status] : 'Photo only';
+}
+
 export const SIGNUP_SHEET_STATUS_ORDER: SignupSheetStatus[] = [
   'sheet_empty',
   'few_names',
@@ -30,19 +37,28 @@ export const SIGNUP_SHEET_STATUS_BUTTON_CLASS: Record<SignupSheetStatus, string>
 
 export type SignupSheetCourt = {
   name: string;
+  /** `/sheets/[court]` segment; keep it stable so shared links keep working. */
+  slug: string;
   borough: SignupSheetBorough;
+  /** `Name` column of the court catalogue CSV, when it differs from `name`. */
+  catalogueName?: string;
 };
 
 export const SIGNUP_SHEET_COURTS: SignupSheetCourt[] = [
-  { name: 'Riverside Park Tennis Courts', borough: 'Manhattan' },
-  { name: '96th St Clay', borough: 'Manhattan' },
-  { name: 'Washington Market Tennis Court', borough: 'Manhattan' },
-  { name: 'Central Park Tennis Center', borough: 'Manhattan' },
-  { name: 'Van Voorhees Park Tennis Courts', borough: 'Brooklyn' },
-  { name: 'McCarren Park Tennis Courts', borough: 'Brooklyn' },
-  { name: 'Fort Greene Tennis Courts', borough: 'Brooklyn' },
-  { name: 'Prospect Park Tennis Courts', borough: 'Brooklyn' },
-  { name: 'Astoria Park Tennis Courts', borough: 'Queens' },
+  { name: 'Riverside Park Tennis Courts', slug: 'riverside-park', borough: 'Manhattan' },
+  { name: '96th St Clay', slug: '96th-st-clay', borough: 'Manhattan' },
+  { name: 'Washington Market Tennis Court', slug: 'washington-market', borough: 'Manhattan' },
+  { name: 'Central Park Tennis Center', slug: 'central-park', borough: 'Manhattan' },
+  {
+    name: 'Van Voorhees Park Tennis Courts',
+    slug: 'van-voorhees-park',
+    borough: 'Brooklyn',
+    catalogueName: 'Van Voorhees Tennis Courts',
+  },
+  { name: 'McCarren Park Tennis Courts', slug: 'mccarren-park', borough: 'Brooklyn' },
+  { name: 'Fort Greene Tennis Courts', slug: 'fort-greene', borough: 'Brooklyn' },
+  { name: 'Prospect Park Tennis Courts', slug: 'prospect-park', borough: 'Brooklyn' },
+  { name: 'Astoria Park Tennis Courts', slug: 'astoria-park', borough: 'Queens' },
 ];
 
 export const SIGNUP_SHEET_BOROUGHS: SignupSheetBorough[] = ['Manhattan', 'Brooklyn', 'Queens'];
@@ -51,9 +67,20 @@ export function courtsByBorough(borough: SignupSheetBorough): SignupSheetCourt[]
   return SIGNUP_SHEET_COURTS.filter((c) => c.borough === borough);
 }
 
-/** Solid dot for list/detail (Tailwind bg-*). */
-export function signupStatusDotClass(status: SignupSheetDisplayStatus): string {
+export function signupSheetCourtBySlug(slug: string): SignupSheetCourt | undefined {
+  return SIGNUP_SHEET_COURTS.find((c) => c.slug === slug);
+}
+
+/** The sign-up sheet court for a catalogue row, if it has one. */
+export function signupSheetCourtForCatalogue(row: CourtData): SignupSheetCourt | undefined {
+  return SIGNUP_SHEET_COURTS.find((c) => (c.catalogueName ?? c.name) === row.name);
+}
+
+/** Dot for list/detail (Tailwind bg-*); a photo-only report (`null`) gets a hollow brand dot. */
+export function signupStatusDotClass(status: SignupSheetDisplayStatus | null): string {
   switch (status) {
+    case null:
+      return 'border-2 border-[#2D5A27] bg-white';
     case 'sheet_empty':
       return 'bg-[#2D5A27]';
     case 'few_names':
@@ -0,0 +1,72 @@
+/** Courts that accept live wait-time reports — one entry per court, nothing else to edit. */
+
+import type { CourtData } from '@/types/courts';
+
+export type WaitTimeCourt = {
+  /** Stable key for UI state, React keys and per-court lookups. */
+  id: string;
+  /** Canonical `wait_times.court_name` written by new reports. */
+  name: string;
+  /** `Name` column of the court catalogue CSV (trimmed). */
+  catalogueName: string;
+  /** Older `court_name` values still present in the table. */
+  legacyNames?: string[];
+};
+
+export const WAIT_TIME_COURTS: WaitTimeCourt[] = [
+  {
+    id: 'hudson-river-park',
+    name: 'Hudson River Park Courts',
+    catalogueName: 'Hudson River Park Tennis Courts',
+  },
+  {
+    id: 'pier-42',
+    name: 'Pier 42',
+    catalogueName: 'Pier 42',
+  },
+  {
+    id: 'brian-watkins',
+    name: 'Brian Watkins Tennis Courts',
+    catalogueName: 'Brian Watkins Tennis Courts',
+    legacyNames: ['Brian Watkins Courts'],
+  },
+  {
+    id: 'south-oxford-park',
+    name: 'South Oxford Park Tennis Courts',
+    catalogueName: 'South Oxford Park Tennis Courts',
+    legacyNames: ['South Oxford Park', 'South Oxford Park Courts'],
+  },
+];
+
+export function waitTimeCourtById(id: string): WaitTimeCourt | undefined {
+  return WAIT_TIME_COURTS.find((c) => c.id === id);
+}
+
+/** Resolve a DB `court_name` (canonical or legacy) to its registry entry. */
+export function waitTimeCourtByDbName(name: string): WaitTimeCourt | undefined {
+  const trimmed = name.trim();
+  return WAIT_TIME_COURTS.find(
+    (c) => c.name === trimmed || (c.legacyNames ?? []).includes(trimmed)
+  );
+}
+
+/** Every registry court keyed by id, with no report yet. */
+export function emptyByWaitTimeCourt<T>(): Record<string, T | null> {
+  return Object.fromEntries(WAIT_TIME_COURTS.map((c) => [c.id, null])) as Record<
+    string,
+    T | null
+  >;
+}
+
+/** The catalogue row this court links to, if the catalogue has loaded it. */
+export function catalogueCourtFor(
+  court: WaitTimeCourt,
+  catalogue: CourtData[]
+): CourtData | undefined {
+  return catalogue.find((row) => row.name.trim() === court.catalogueName);
+}
+
+/** The wait-time court for a catalogue row, if it accepts live reports. */
+export function waitTimeCourtForCatalogue(row: CourtData): WaitTimeCourt | undefined {
+  return WAIT_TIME_COURTS.find((c) => c.catalogueName === row.name);
+}
@@ -0,0 +1,85 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+import type { CourtAmenity } from '@/types/courts';
+import type { AvailabilityFilter } from '@/lib/courtSchedule';
+import type { MapViewport } from '@/lib/mapProvider';
+import {
+  DEFAULT_COURT_FINDER_STATE,
+  courtFinderSearch,
+  parseCourtFinderParams,
+  type CourtFinderUrlState,
+} from '@/lib/courtFinderUrl';
+
+/** `history.pushState` fires no event of its own. */
+const URL_CHANGE_EVENT = 'courtfinder:urlchange';
+
+let snapshotSearch: string | null = null;
+let snapshot: CourtFinderUrlState = DEFAULT_COURT_FINDER_STATE;
+
+function getSnapshot(): CourtFinderUrlState {
+  const search = window.location.search;
+  if (search !== snapshotSearch) {
+    snapshotSearch = search;
+    snapshot = parseCourtFinderParams(new URLSearchParams(search));
+  }
+  return snapshot;
+}
+
+function getServerSnapshot(): CourtFinderUrlState {
+  return DEFAULT_COURT_FINDER_STATE;
+}
+
+function subscribe(onChange: () => void): () => void {
+  window.addEventListener('popstate', onChange);
+  window.addEventListener(URL_CHANGE_EVENT, onChange);
+  return () => {
+    window.removeEventListener('popstate', onChange);
+    window.removeEventListener(URL_CHANGE_EVENT, onChange);
+  };
+}
+
+/**
+ * Filter changes push a history entry so Back undoes them; typing and map moves replace the
+ * current one instead of flooding the history.
+ */
+function update(
+  change: (state: CourtFinderUrlState) => Partial<CourtFinderUrlState>,
+  mode: 'push' | 'replace' = 'push'
+) {
+  const current = getSnapshot();
+  const search = courtFinderSearch({ ...current, ...change(current) }, window.location.search);
+  if (search === window.location.search) return;
+  const url = `${window.location.pathname}${search}${window.location.hash}`;
+  if (mode === 'push') window.history.pushState(null, '', url);
+  else window.history.replaceState(null, '', url);
+  window.dispatchEvent(new Event(URL_CHANGE_EVENT));
+}
+
+function toggled<T>(values: T[], value: T, checked: boolean): T[] {
+  const rest = values.filter((v) => v !== value);
+  return checked ? [...rest, value] : rest;
+}
+
+const actions = {
+  setQuery: (query: string) => update(() => ({ query }), 'replace'),
+  onBoroughChange: (borough: string, checked: boolean) =>
+    update((s) => ({ boroughs: toggled(s.boroughs, borough, checked) })),
+  onSurfaceChange: (surface: string, checked: boolean) =>
+    update((s) => ({ surfaces: toggled(s.surfaces, surface, checked) })),
+  onPermitStatusChange: (permitStatus: string, checked: boolean) =>
+    update((s) => ({ permitStatuses: toggled(s.permitStatuses, permitStatus, checked) })),
+  onAmenityChange: (amenity: CourtAmenity, checked: boolean) =>
+    update((s) => ({ amenities: toggled(s.amenities, amenity, checked) })),
+  setAvailability: (availability: AvailabilityFilter) => update(() => ({ availability })),
+  setViewport: (viewport: MapViewport) => update(() => ({ viewport }), 'replace'),
+};
+
+/**
+ * Court Finder filters, stored in the page URL. Every component using this hook shares the same
+ * state (the mobile shell and the desktop page both read it), and back/forward restore it.
+ */
+export function useCourtFinderFilters() {
+  const filters = useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
+  return { filters, ...actions };
+}
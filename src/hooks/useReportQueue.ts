@@ -0,0 +1,57 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import {
+  flushQueuedReports,
+  queuedReports,
+  subscribeReportQueue,
+  type QueuedReportKind,
+} from '@/lib/reportQueue';
+
+/**
+ * Sends reports queued offline on mount and whenever the browser comes back online.
+ * Returns how many reports of this kind are still waiting; `onSent` runs after a flush sent any.
+ */
+export function useReportQueue<T>(
+  kind: QueuedReportKind,
+  send: (payload: T) => Promise<void>,
+  onSent?: () => void
+): number {
+  const [pending, setPending] = useState(0);
+  const sendRef = useRef(send);
+  sendRef.current = send;
+  const onSentRef = useRef(onSent);
+  onSentRef.current = onSent;
+
+  useEffect(() => {
+    let cancelled = false;
+    const recount = () => {
+      queuedReports(kind)
+        .then((reports) => {
+          if (!cancelled) setPending(reports.length);
+        })
+        .catch(() => {
+          // IndexedDB unavailable; nothing can be queued either.
+        });
+    };
+    const flush = () => {
+      if (navigator.onLine === false) return;
+      flushQueuedReports<T>(kind, (payload) => sendRef.current(payload))
+        .then((sent) => {
+          if (sent > 0 && !cancelled) onSentRef.current?.();
+        })
+        .catch((err) => console.warn(`Could not send queued ${kind} reports:`, err));
+    };
+    recount();
+    flush();
+    const unsubscribe = subscribeReportQueue(recount);
+    window.addEventListener('online', flush);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+      window.removeEventListener('online', flush);
+    };
+  }, [kind]);
+
+  return pending;
+}
@@ -1,127 +1,245 @@
 'use client';
 
 import { useCallback, useEffect, useMemo, useState } from 'react';
-import { supabase, formatSupabaseError, type SignupSheetReport } from '@/lib/supabase';
+import {
+  supabase,
+  formatSupabaseError,
+  type SignupSheetReport,
+  type SignupSheetReportRow,
+} from '@/lib/supabase';
 import {
   SIGNUP_SHEET_COURTS,
   type SignupSheetBorough,
   type SignupSheetStatus,
 } from '@/data/signupSheetCourts';
 import { ensureSmartcourtDeviceIdOnPageLoad, getOrCreateSmartcourtDeviceId } from '@/lib/smartcourtDeviceId';
+import { canQueueReports, isOfflineError, newReportId, queueReport } from '@/lib/reportQueue';
+import { useReportQueue } from '@/hooks/useReportQueue';
+import { SignupPhotoError, prepareSignupPhoto, type SignupPhotoType } from '@/lib/signupPhoto';
+import { StorageUploadError, uploadToStorage } from '@/lib/storageUpload';
+import { subscribeTableRealtime } from '@/lib/tableRealtime';
 
 const BUCKET = 'signup-sheet-photos';
 const TABLE = 'signup_sheet_reports';
-const DEFAULT_SIGNUP_SHEET_STATUS: SignupSheetStatus = 'few_names';
+/** Not `*`: the table also keeps columns the app must not read, e.g. the legacy `photo_url`. */
+const COLUMNS = 'id, court_name, borough, status, photo_path, device_id, created_at, expires_at';
 
 const HOURS_MS = 8 * 60 * 60 * 1000;
+/** Signed photo URLs last this long; the hook re-signs them before they run out. */
+const PHOTO_URL_TTL_SECONDS = 15 * 60;
+const RESIGN_INTERVAL_MS = 10 * 60 * 1000;
+/** Unique violation: a retried report the server already stored. */
+const DUPLICATE_KEY = '23505';
 
-function emptyLatestMap(): Record<string, SignupSheetReport | null> {
-  return Object.fromEntries(SIGNUP_SHEET_COURTS.map((c) => [c.name, null])) as Record<
-    string,
-    SignupSheetReport | null
-  >;
+function emptyReportsMap(): Record<string, SignupSheetReport[]> {
+  return Object.fromEntries(SIGNUP_SHEET_COURTS.map((c) => [c.name, []]));
 }
 
-/** `crypto.randomUUID()` is not available on non-secure origins (e.g. http:// phone-on-LAN). */
-function newStorageObjectId(): string {
-  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
-    return crypto.randomUUID();
-  }
-  return `${Date.now()}-${Math.random().toString(36).slice(2, 12)}`;
+/** The `COLUMNS` of a row, e.g. a realtime payload that carries every column. */
+function toReport(row: SignupSheetReportRow, signedPhotoUrl: string | null): SignupSheetReport {
+  const { id, court_name, borough, status, photo_path, device_id, created_at, expires_at } = row;
+  return { id, court_name, borough, status, photo_path, device_id, created_at, expires_at, signedPhotoUrl };
 }
 
-function inferImageContentType(file: File): string {
-  if (file.type && file.type.startsWith('image/')) return file.type;
-  const n = file.name.toLowerCase();
-  if (n.endsWith('.heic') || n.endsWith('.heif')) return 'image/heic';
-  if (n.endsWith('.png')) return 'image/png';
-  if (n.endsWith('.webp')) return 'image/webp';
-  if (n.endsWith('.gif')) return 'image/gif';
-  if (n.endsWith('.jpg') || n.endsWith('.jpeg')) return 'image/jpeg';
-  return 'image/jpeg';
+/** Merge a realtime UPDATE into its court's list, keeping the signed URL of an unchanged photo. */
+function mergeSignupSheetReportUpdate(
+  prev: Record<string, SignupSheetReport[]>,
+  row: SignupSheetReportRow
+): Record<string, SignupSheetReport[]> {
+  const reports = prev[row.court_name];
+  const index = reports?.findIndex((r) => r.id === row.id) ?? -1;
+  if (index < 0) return prev;
+  const cur = reports[index];
+  const merged = toReport(row, cur.photo_path === row.photo_path ? cur.signedPhotoUrl : null);
+  return { ...prev, [row.court_name]: reports.map((r, i) => (i === index ? merged : r)) };
+}
+
+/** Photos reach here through `prepareSignupPhoto`, so only its two output types are possible. */
+function inferImageContentType(file: File): SignupPhotoType {
+  return file.type === 'image/webp' ? 'image/webp' : 'image/jpeg';
 }
 
 function extForStoragePath(file: File): string {
-  const t = inferImageContentType(file);
-  if (t === 'image/png') return 'png';
-  if (t === 'image/webp') return 'webp';
-  if (t === 'image/heic' || t === 'image/heif') return 'heic';
-  if (t === 'image/gif') return 'gif';
-  return 'jpg';
+  return inferImageContentType(file) === 'image/webp' ? 'webp' : 'jpg';
 }
 
-type UploadPhotoResult = { url: string | null; error?: string };
+type UploadPhotoResult = { path: string | null; error?: string };
 
-async function uploadSignupPhoto(file: File): Promise<UploadPhotoResult> {
-  if (!supabase) return { url: null, error: 'Supabase is not configured' };
-  const sb = supabase;
-  const ext = extForStoragePath(file);
-  const contentType = inferImageContentType(file);
+/**
+ * Resolves to the object name in the private bucket, `<report id>.<ext>`: the database only
+ * accepts a report's own photo (0016). The app only ever links signed URLs to it.
+ */
+async function uploadSignupPhoto(
+  reportId: string,
+  file: File,
+  onProgress?: (fraction: number) => void
+): Promise<UploadPhotoResult> {
+  if (!supabase) return { path: null, error: 'Supabase is not configured' };
   /** Some mobile browsers stream `File` poorly; `Blob` upload is more reliable. */
-  const body = new Blob([await file.arrayBuffer()], { type: contentType });
-
-  const tryUpload = async (path: string, declaredType: string) =>
-    sb.storage.from(BUCKET).upload(path, body, {
-      cacheControl: '3600',
-      upsert: false,
-      contentType: declaredType,
-    });
-
-  let path = `${newStorageObjectId()}.${ext}`;
-  let { error } = await tryUpload(path, contentType);
+  const body = new Blob([await file.arrayBuffer()], { type: inferImageContentType(file) });
+  const path = `${reportId}.${extForStoragePath(file)}`;
+  try {
+    await uploadToStorage({ bucket: BUCKET, path, body, onProgress });
+  } catch (e) {
+    // A retry of a report whose upload went through last time.
+    if (e instanceof StorageUploadError && e.error === 'Duplicate') return { path };
+    const message = e instanceof Error ? e.message : String(e);
+    console.warn('signup photo upload:', message, e);
+    return { path: null, error: message };
+  }
+  return { path };
+}
 
-  if (error) {
-    path = `${newStorageObjectId()}.${ext}`;
-    ({ error } = await tryUpload(path, 'application/octet-stream'));
+/**
+ * Signs a URL per report photo. A URL never outlives its report: photos of reports that expire
+ * within the TTL are signed for the time left. Storage itself refuses photos of expired reports.
+ */
+async function signPhotoUrls(rows: SignupSheetReportRow[]): Promise<Map<string, string>> {
+  const urls = new Map<string, string>();
+  if (!supabase) return urls;
+  const now = Date.now();
+  const fullTtl: string[] = [];
+  const shorter: { path: string; seconds: number }[] = [];
+  for (const r of rows) {
+    if (!r.photo_path) continue;
+    const secondsLeft = Math.floor((Date.parse(r.expires_at) - now) / 1000);
+    if (secondsLeft >= PHOTO_URL_TTL_SECONDS) fullTtl.push(r.photo_path);
+    else if (secondsLeft > 0) shorter.push({ path: r.photo_path, seconds: secondsLeft });
   }
+  const bucket = supabase.storage.from(BUCKET);
+  if (fullTtl.length > 0) {
+    const { data, error } = await bucket.createSignedUrls(fullTtl, PHOTO_URL_TTL_SECONDS);
+    if (error) console.warn('signup photo signing:', error);
+    for (const signed of data ?? []) {
+      if (signed.path && signed.signedUrl && !signed.error) urls.set(signed.path, signed.signedUrl);
+    }
+  }
+  await Promise.all(
+    shorter.map(async ({ path, seconds }) => {
+      const { data, error } = await bucket.createSignedUrl(path, seconds);
+      if (error) console.warn('signup photo signing:', error);
+      else urls.set(path, data.signedUrl);
+    })
+  );
+  return urls;
+}
 
-  if (error) {
-    console.warn('signup photo upload:', error.message, error);
-    return { url: null, error: error.message };
+/** Everything needed to send a report later; the photo is stored in IndexedDB with it. */
+interface PendingSignupSheetReport {
+  id: string;
+  courtName: string;
+  borough: SignupSheetBorough;
+  /** Null when the reporter only attached a photo. */
+  status: SignupSheetStatus | null;
+  /** Already normalized by `prepareSignupPhoto`. */
+  photo: File | null;
+  deviceId: string;
+  expiresAt: string;
+  /** Set when the report was queued offline, so it keeps the time it was taken. */
+  createdAt?: string;
+}
+
+async function sendSignupSheetReport(
+  report: PendingSignupSheetReport,
+  onUploadProgress?: (fraction: number) => void
+): Promise<void> {
+  if (!supabase) throw new Error('Supabase is not configured');
+  let photoPath: string | null = null;
+  if (report.photo) {
+    const uploaded = await uploadSignupPhoto(report.id, report.photo, onUploadProgress);
+    if (!uploaded.path) {
+      const reason = uploaded.error || 'Unknown upload error';
+      throw new Error(
+        `Photo upload failed (${reason}). In Supabase: create bucket "${BUCKET}" and apply the migrations (npm run db:migrate).`
+      );
+    }
+    photoPath = uploaded.path;
   }
-  const { data } = sb.storage.from(BUCKET).getPublicUrl(path);
-  return { url: data.publicUrl };
+  const row: Record<string, unknown> = {
+    id: report.id,
+    court_name: report.courtName,
+    borough: report.borough,
+    status: report.status,
+    expires_at: report.expiresAt,
+    device_id: report.deviceId,
+    photo_path: photoPath,
+  };
+  if (report.createdAt) row.created_at = report.createdAt;
+  const { error } = await supabase.from(TABLE).insert(row);
+  if (error && error.code !== DUPLICATE_KEY) throw error;
 }
 
 export function useSignupSheetReports() {
-  const [latestByCourt, setLatestByCourt] = useState<Record<string, SignupSheetReport | null>>(
-    () => emptyLatestMap()
+  /** Every unexpired report per court `court_name`, newest first. */
+  const [reportsByCourt, setReportsByCourt] = useState<Record<string, SignupSheetReport[]>>(
+    () => emptyReportsMap()
+  );
+  const latestByCourt = useMemo(
+    () =>
+      Object.fromEntries(
+        Object.entries(reportsByCourt).map(([court, reports]) => [court, reports[0] ?? null])
+      ) as Record<string, SignupSheetReport | null>,
+    [reportsByCourt]
+  );
+  /** For the map pins: a fresh photo of the sheet, not just a status. */
+  const latestPhotoByCourt = useMemo(
+    () =>
+      Object.fromEntries(
+        Object.entries(reportsByCourt).map(([court, reports]) => [
+          court,
+          reports.find((r) => r.photo_path) ?? null,
+        ])
+      ) as Record<string, SignupSheetReport | null>,
+    [reportsByCourt]
   );
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
   const [submitError, setSubmitError] = useState<string | null>(null);
+  /** Share of the photo uploaded (0–1) while a report with a photo is being sent. */
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  /** Ids of reports from other devices that arrived live and have not been looked at, per court. */
+  const [newByCourt, setNewByCourt] = useState<Record<string, string[]>>({});
 
   const configured = useMemo(() => Boolean(supabase), []);
 
-  const refresh = useCallback(async () => {
+  /** `quiet` reloads without the loading state, for the periodic photo re-signing. */
+  const refresh = useCallback(async (quiet = false) => {
     if (!supabase) {
-      setLatestByCourt(emptyLatestMap());
+      setReportsByCourt(emptyReportsMap());
       setLoading(false);
       return;
     }
-    setLoading(true);
-    setSubmitError(null);
+    if (!quiet) {
+      setLoading(true);
+      setSubmitError(null);
+    }
     try {
       const nowIso = new Date().toISOString();
       const { data, error } = await supabase
         .from(TABLE)
-        .select('*')
+        .select(COLUMNS)
         .gt('expires_at', nowIso)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
 
-      const next = emptyLatestMap();
-      const allowed = new Set(SIGNUP_SHEET_COURTS.map((c) => c.name));
-      for (const row of data ?? []) {
-        const r = row as SignupSheetReport;
-        if (!allowed.has(r.court_name) || next[r.court_name]) continue;
-        next[r.court_name] = r;
+      const rows = (data ?? []) as SignupSheetReportRow[];
+      // A photo that fails to sign is left out; the rest of the report still shows.
+      const photoUrls = await signPhotoUrls(rows).catch((e) => {
+        console.warn('signup photo signing:', e);
+        return new Map<string, string>();
+      });
+      const next = emptyReportsMap();
+      for (const r of rows) {
+        if (!next.hasOwnProperty(r.court_name)) continue;
+        next[r.court_name].push(toReport(r, r.photo_path ? (photoUrls.get(r.photo_path) ?? null) : null));
       }
-      setLatestByCourt(next);
+      setReportsByCourt(next);
     } catch (e) {
       console.warn('signup_sheet_reports load:', e);
-      setLatestByCourt(emptyLatestMap());
+      // A failed background reload keeps what is on screen.
+      if (quiet) return;
+      setReportsByCourt(emptyReportsMap());
       setSubmitError(formatSupabaseError(e));
     } finally {
       setLoading(false);
@@ -131,61 +249,122 @@ export function useSignupSheetReports() {
   useEffect(() => {
     ensureSmartcourtDeviceIdOnPageLoad();
     refresh();
+    // Signed photo URLs expire; reloading also drops reports that expired meanwhile.
+    const timer = window.setInterval(() => refresh(true), RESIGN_INTERVAL_MS);
+    return () => window.clearInterval(timer);
   }, [refresh]);
 
+  useEffect(() => {
+    const client = supabase;
+    if (!client) return;
+    return subscribeTableRealtime<SignupSheetReportRow>(client, TABLE, {
+      applyUpdate: (row) => setReportsByCourt((prev) => mergeSignupSheetReportUpdate(prev, row)),
+      onInsert: (row) => {
+        // This device's own reports are not news to it.
+        if (row.device_id === getOrCreateSmartcourtDeviceId()) return;
+        setNewByCourt((prev) => ({
+          ...prev,
+          [row.court_name]: [...(prev[row.court_name] ?? []), row.id],
+        }));
+      },
+      // Quiet, so the list does not flash "Loading" under the reader.
+      reload: () => refresh(true),
+    });
+  }, [refresh]);
+
+  const markCourtSeen = useCallback((courtName: string) => {
+    setNewByCourt((prev) => {
+      if (!prev[courtName]) return prev;
+      const next = { ...prev };
+      delete next[courtName];
+      return next;
+    });
+  }, []);
+
+  const pendingReports = useReportQueue('signup_sheet', sendSignupSheetReport, refresh);
+
   const submitReport = useCallback(
     async (
       courtName: string,
       borough: SignupSheetBorough,
+      status: SignupSheetStatus | null,
       photo?: File | null
     ): Promise<boolean> => {
       if (!supabase) {
         alert('Reporting is not configured. Add Supabase environment variables.');
         return false;
       }
-      if (!photo || photo.size <= 0) {
-        const msg = 'Attach a photo of the sign up sheet before submitting.';
+      const attached = photo && photo.size > 0 ? photo : null;
+      // The status is optional with a photo: the photo shows how full the sheet is.
+      if (!status && !attached) {
+        const msg = 'Pick how full the sign up sheet is, or attach a photo of it.';
         setSubmitError(msg);
         alert(msg);
         return false;
       }
       setSubmitting(true);
       setSubmitError(null);
-      try {
-        const uploaded = await uploadSignupPhoto(photo);
-        if (!uploaded.url) {
-          const reason = uploaded.error || 'Unknown upload error';
-          throw new Error(
-            `Photo upload failed (${reason}). In Supabase: create public bucket "${BUCKET}" and run the storage policies in supabase/signup_sheet_reports.sql.`
-          );
+      const now = Date.now();
+      let prepared: File | null = null;
+      if (attached) {
+        try {
+          // Downscale, re-encode and strip EXIF (GPS included) before anything leaves the device.
+          prepared = await prepareSignupPhoto(attached);
+        } catch (e) {
+          let msg = 'That photo could not be processed.';
+          if (e instanceof SignupPhotoError) msg = e.message;
+          else console.warn('signup photo prepare:', e);
+          setSubmitError(msg);
+          alert(msg);
+          setSubmitting(false);
+          return false;
         }
-        const expiresAt = new Date(Date.now() + HOURS_MS).toISOString();
-        const row: Record<string, unknown> = {
-          court_name: courtName,
-          borough,
-          // Legacy required DB column; the UI no longer asks users to choose a status.
-          status: DEFAULT_SIGNUP_SHEET_STATUS,
-          expires_at: expiresAt,
-          device_id: getOrCreateSmartcourtDeviceId(),
-          photo_url: uploaded.url,
-        };
-        const { error } = await supabase.from(TABLE).insert(row);
-        if (error) throw error;
+      }
+      const report: PendingSignupSheetReport = {
+        // A client id makes a retried report a duplicate instead of a second report.
+        id: newReportId(),
+        courtName,
+        borough,
+        status,
+        photo: prepared,
+        deviceId: getOrCreateSmartcourtDeviceId(),
+        expiresAt: new Date(now + HOURS_MS).toISOString(),
+      };
+      try {
+        if (prepared) setUploadProgress(0);
+        await sendSignupSheetReport(report, setUploadProgress);
         await refresh();
         return true;
       } catch (e) {
+        if (isOfflineError(e) && canQueueReports()) {
+          try {
+            // Keep the original report time; it is sent later.
+            await queueReport(
+              'signup_sheet',
+              { ...report, createdAt: new Date(now).toISOString() },
+              report.expiresAt
+            );
+            return true;
+          } catch (queueError) {
+            console.error('Error saving sign-up sheet report offline:', queueError);
+          }
+        }
         let msg = formatSupabaseError(e);
         if (/schema cache|does not exist|relation/i.test(msg)) {
-          msg += ` — Run the SQL in supabase/signup_sheet_reports.sql in the Supabase SQL editor (table "${TABLE}").`;
+          msg += ` — Apply supabase/migrations/0003_signup_sheet_reports.sql to create table "${TABLE}" (npm run db:migrate).`;
+        }
+        if (/null value in column "status"|status_or_photo/i.test(msg)) {
+          msg += ` — Apply supabase/migrations/0009_signup_sheet_status_optional.sql (npm run db:migrate).`;
         }
         if (/row-level security|RLS/i.test(msg)) {
-          msg += ` — Add the insert/select RLS policies from supabase/signup_sheet_reports.sql.`;
+          msg += ` — Add the insert/select RLS policies from supabase/migrations/0003_signup_sheet_reports.sql.`;
         }
         setSubmitError(msg);
         alert(`Could not submit report. ${msg}`);
         return false;
       } finally {
         setSubmitting(false);
+        setUploadProgress(null);
       }
     },
     [refresh]
@@ -193,8 +372,14 @@ export function useSignupSheetReports() {
 
   return {
     latestByCourt,
+    latestPhotoByCourt,
+    reportsByCourt,
+    newByCourt,
+    markCourtSeen,
+    pendingReports,
     loading,
     submitting,
+    uploadProgress,
     submitError,
     configured,
     refresh,
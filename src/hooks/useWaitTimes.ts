@@ -1,41 +1,65 @@
 'use client';
 
 import { useState, useEffect, useRef } from 'react';
-import { supabase, formatSupabaseError, type WaitTime } from '@/lib/supabase';
+import {
+  supabase,
+  formatSupabaseError,
+  type WaitTime,
+  type WaitTimeForecast,
+} from '@/lib/supabase';
 import type { WaitReportVoteKind } from '@/lib/waitTimeReportVotes';
-import { incrementWaitTimeFlag, alertFlagError } from '@/lib/incrementWaitTimeFlag';
-import { normalizeCourtNameFromDb } from '@/lib/waitTimesCourt';
+import { voteOnWaitTimeReport, alertFlagError, type WaitTimeVoteResult } from '@/lib/voteWaitTimeReport';
+import { waitTimeCourtIdFromDb } from '@/lib/waitTimesCourt';
+import { emptyByWaitTimeCourt, waitTimeCourtById } from '@/data/waitTimeCourts';
 import { ensureSmartcourtDeviceIdOnPageLoad, getOrCreateSmartcourtDeviceId } from '@/lib/smartcourtDeviceId';
+import { loadWaitTimeForecasts, nycHourAndWeekday } from '@/lib/waitTimeForecast';
+import {
+  waitStatusFromRange,
+  waitTimeBucketById,
+  type WaitRange,
+} from '@/lib/waitTimeRange';
 import {
   mergeWaitTimeUpdateIntoCourts,
   subscribeWaitTimesRealtime,
 } from '@/lib/waitTimesRealtime';
+import { canQueueReports, isOfflineError, newReportId, queueReport } from '@/lib/reportQueue';
+import { loadLastKnownWaitTimes, saveLastKnownWaitTimes } from '@/lib/lastKnownWaitTimes';
+import { useReportQueue } from '@/hooks/useReportQueue';
+
+/** Optional counts reported alongside the wait range. */
+export type WaitTimeCounts = {
+  racketsOnFence?: number | null;
+  courtsInUse?: number | null;
+};
 
-const BRIAN_WATKINS_KEY = 'Brian Watkins Tennis Courts';
-const SOUTH_OXFORD_KEY = 'South Oxford Park Tennis Courts';
+/** Latest live report per registry court id. */
+const EMPTY_COURTS = (): { [courtId: string]: WaitTime | null } => emptyByWaitTimeCourt<WaitTime>();
 
-const EMPTY_COURTS = (): { [key: string]: WaitTime | null } => ({
-  'Hudson River Park Courts': null,
-  'Pier 42': null,
-  [BRIAN_WATKINS_KEY]: null,
-  [SOUTH_OXFORD_KEY]: null,
-});
+/** Unique violation: a retried report the server already stored. */
+const DUPLICATE_KEY = '23505';
+
+async function sendWaitTimeReport(row: Record<string, unknown>): Promise<void> {
+  if (!supabase) throw new Error('Wait times are not configured');
+  const { error } = await supabase.from('wait_times').insert(row);
+  if (error && error.code !== DUPLICATE_KEY) throw error;
+}
 
 export function useWaitTimes() {
-  const [waitTimes, setWaitTimes] = useState<{ [key: string]: WaitTime | null }>(
+  const [waitTimes, setWaitTimes] = useState<{ [courtId: string]: WaitTime | null }>(
     EMPTY_COURTS()
   );
+  const [forecasts, setForecasts] = useState<{ [courtId: string]: WaitTimeForecast | null }>(
+    emptyByWaitTimeCourt<WaitTimeForecast>()
+  );
   const [loading, setLoading] = useState(true);
   const [reporting, setReporting] = useState<string | null>(null);
   const [reportSuccess, setReportSuccess] = useState<string | null>(null);
+  /** Court id whose report was just saved offline, to be sent when back online. */
+  const [reportQueued, setReportQueued] = useState<string | null>(null);
+  /** When the shown wait times were loaded, if they come from the offline copy. */
+  const [staleSince, setStaleSince] = useState<string | null>(null);
 
-  const getStatusFromWaitTime = (waitTime: string) => {
-    if (waitTime.includes('Less than 1 hour')) return 'green';
-    if (waitTime.includes('1-2 hours')) return 'yellow';
-    if (waitTime.includes('2-3 hours')) return 'orange';
-    if (waitTime.includes('More than 3 hours')) return 'red';
-    return 'gray';
-  };
+  const getStatusFromWaitRange = (range: WaitRange | null) => waitStatusFromRange(range);
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -63,6 +87,21 @@ export function useWaitTimes() {
     return `${Math.floor(diffHours / 24)} day${Math.floor(diffHours / 24) !== 1 ? 's' : ''} ago`;
   };
 
+  /** Offline: fall back to the last wait times loaded, marked stale; otherwise show none. */
+  const showFallbackWaitTimes = (error: unknown) => {
+    const lastKnown = isOfflineError(error) ? loadLastKnownWaitTimes() : null;
+    if (!lastKnown) {
+      setWaitTimes(EMPTY_COURTS());
+      return;
+    }
+    const courtWaitTimes = EMPTY_COURTS();
+    for (const key of Object.keys(courtWaitTimes)) {
+      courtWaitTimes[key] = lastKnown.waitTimes[key] ?? null;
+    }
+    setWaitTimes(courtWaitTimes);
+    setStaleSince(lastKnown.savedAt);
+  };
+
   const loadWaitTimes = async () => {
     try {
       setLoading(true);
@@ -77,22 +116,24 @@ export function useWaitTimes() {
         .order('created_at', { ascending: false });
 
       if (error) {
-        setWaitTimes(EMPTY_COURTS());
+        showFallbackWaitTimes(error);
         return;
       }
 
       const courtWaitTimes = EMPTY_COURTS();
 
       data?.forEach((wt) => {
-        const key = normalizeCourtNameFromDb(wt.court_name);
-        if (courtWaitTimes.hasOwnProperty(key) && !courtWaitTimes[key]) {
+        const key = waitTimeCourtIdFromDb(wt.court_name);
+        if (key && courtWaitTimes.hasOwnProperty(key) && !courtWaitTimes[key]) {
           courtWaitTimes[key] = wt;
         }
       });
 
       setWaitTimes(courtWaitTimes);
-    } catch {
-      setWaitTimes(EMPTY_COURTS());
+      setStaleSince(null);
+      saveLastKnownWaitTimes(courtWaitTimes);
+    } catch (error) {
+      showFallbackWaitTimes(error);
     } finally {
       setLoading(false);
     }
@@ -101,12 +142,20 @@ export function useWaitTimes() {
   const loadWaitTimesRef = useRef(loadWaitTimes);
   loadWaitTimesRef.current = loadWaitTimes;
 
+  const pendingReports = useReportQueue('wait_time', sendWaitTimeReport, () =>
+    loadWaitTimesRef.current()
+  );
+
   const handleReportWaitTime = async (
-    courtName: string,
-    waitTime: string,
-    comment: string = ''
+    courtId: string,
+    bucketId: string,
+    comment: string = '',
+    counts: WaitTimeCounts = {}
   ) => {
-    if (!waitTime || waitTime === 'Select wait time...') {
+    const court = waitTimeCourtById(courtId);
+    if (!court) return;
+    const bucket = waitTimeBucketById(bucketId);
+    if (!bucket) {
       alert('Please select a wait time before reporting');
       return;
     }
@@ -114,24 +163,40 @@ export function useWaitTimes() {
       alert('Wait times are not configured. Add Supabase env vars to enable.');
       return;
     }
-    setReporting(courtName);
+    setReporting(courtId);
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + 2 * 60 * 60 * 1000);
+    // A client id makes a retried report a duplicate instead of a second report. The database
+    // sets the forecast's hour and weekday from created_at (0013).
+    const row = {
+      id: newReportId(),
+      court_name: court.name,
+      wait_time: bucket.label,
+      wait_min_minutes: bucket.minMinutes,
+      wait_max_minutes: bucket.maxMinutes,
+      rackets_on_fence: counts.racketsOnFence ?? null,
+      courts_in_use: counts.courtsInUse ?? null,
+      comment: comment || '',
+      expires_at: expiresAt.toISOString(),
+      device_id: getOrCreateSmartcourtDeviceId(),
+    };
     try {
-      const now = new Date();
-      const expiresAt = new Date(now.getTime() + 2 * 60 * 60 * 1000);
-      const { error } = await supabase.from('wait_times').insert({
-        court_name: courtName,
-        wait_time: waitTime,
-        comment: comment || '',
-        expires_at: expiresAt.toISOString(),
-        hour_of_day: now.getHours(),
-        day_of_week: now.getDay(),
-        device_id: getOrCreateSmartcourtDeviceId(),
-      });
-      if (error) throw error;
-      setReportSuccess(courtName);
+      await sendWaitTimeReport(row);
+      setReportSuccess(courtId);
       setTimeout(() => setReportSuccess(null), 3000);
       await loadWaitTimes();
     } catch (error) {
+      if (isOfflineError(error) && canQueueReports()) {
+        try {
+          // Keep the original report time; it is sent later.
+          await queueReport('wait_time', { ...row, created_at: now.toISOString() }, row.expires_at);
+          setReportQueued(courtId);
+          setTimeout(() => setReportQueued(null), 3000);
+          return;
+        } catch (queueError) {
+          console.error('Error saving wait time offline:', queueError);
+        }
+      }
       console.error('Error reporting wait time:', error);
       alert(`Failed to report: ${formatSupabaseError(error)}`);
     } finally {
@@ -139,34 +204,67 @@ export function useWaitTimes() {
     }
   };
 
-  const handleFlagWaitTime = async (reportId: string, kind: WaitReportVoteKind) => {
+  const handleFlagWaitTime = async (
+    reportId: string,
+    kind: WaitReportVoteKind
+  ): Promise<WaitTimeVoteResult | null> => {
     if (!supabase) {
       alert('Wait times are not configured. Add Supabase env vars to enable.');
-      return;
+      return null;
     }
     try {
-      await incrementWaitTimeFlag(supabase, reportId, kind);
+      const result = await voteOnWaitTimeReport(
+        supabase,
+        reportId,
+        getOrCreateSmartcourtDeviceId(),
+        kind
+      );
       await loadWaitTimes();
+      return result;
     } catch (error) {
       console.error('Error flagging wait time:', error);
       alertFlagError(error);
+      return null;
     }
   };
 
   useEffect(() => {
     ensureSmartcourtDeviceIdOnPageLoad();
-    loadWaitTimes();
+    void loadWaitTimesRef.current();
+  }, []);
+
+  useEffect(() => {
     const client = supabase;
-    if (client) {
-      const run = async () => {
-        try {
-          await client.from('wait_times').delete().lt('expires_at', new Date().toISOString());
-        } catch {
-          // Ignore cleanup errors
-        }
-      };
-      run();
-    }
+    if (!client) return;
+    let slot = '';
+    let cancelled = false;
+    const loadForSlot = () => {
+      const { hour, dayOfWeek } = nycHourAndWeekday(new Date());
+      if (`${dayOfWeek}:${hour}` === slot) return;
+      slot = `${dayOfWeek}:${hour}`;
+      // Expired rows stay in the table: they feed the historical forecast.
+      loadWaitTimeForecasts(client)
+        .then((next) => {
+          if (!cancelled) setForecasts(next);
+        })
+        .catch(() => {
+          // Forecast view not installed yet; live reports still work.
+        });
+    };
+    loadForSlot();
+    // The forecast is for the current NYC hour; an open tab moves on when the hour does.
+    const timer = window.setInterval(loadForSlot, 60 * 1000);
+    return () => {
+      cancelled = true;
+      window.clearInterval(timer);
+    };
+  }, []);
+
+  useEffect(() => {
+    // Replace the offline copy as soon as the connection is back.
+    const reload = () => void loadWaitTimesRef.current();
+    window.addEventListener('online', reload);
+    return () => window.removeEventListener('online', reload);
   }, []);
 
   useEffect(() => {
@@ -181,10 +279,14 @@ export function useWaitTimes() {
 
   return {
     waitTimes,
+    forecasts,
     loading,
     reporting,
     reportSuccess,
-    getStatusFromWaitTime,
+    reportQueued,
+    pendingReports,
+    staleSince,
+    getStatusFromWaitRange,
     getStatusColor,
     formatTimeDifference,
     handleReportWaitTime,
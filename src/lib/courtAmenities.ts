@@ -0,0 +1,39 @@
+/** Amenities mentioned in a court's hours and local tips. */
+
+import type { CourtAmenity } from '@/types/courts';
+import { COURT_AMENITIES } from '@/data/courtOptions';
+import type { CourtAmenityOverride } from '@/data/courtAmenityOverrides';
+
+const AMENITY_PATTERNS: Record<CourtAmenity, RegExp> = {
+  lights: /\b(?:flood\s*|night\s+)lights?\b|\blit\s+(?:courts?|at\s+night)\b/gi,
+  restrooms: /\b(?:rest\s*rooms?|bathrooms?|toilets?|comfort\s+stations?)\b/gi,
+  water: /\b(?:fountains?|drinking\s+water|provided\s+water|bottle\s+fill(?:er|ing)s?)\b/gi,
+  backboard: /\b(?:back\s*boards?|hitting\s+(?:walls?|boards?)|practice\s+walls?)\b/gi,
+  proShop: /\bpro\s*shops?\b/gi,
+};
+
+/** "No restrooms", "no public water fountains": a negation shortly before the mention. */
+const NEGATED = /\b(?:no|without|not)\s+(?:[\w-]+\s+){0,2}$/i;
+
+function mentions(text: string, pattern: RegExp): boolean {
+  for (const match of text.matchAll(pattern)) {
+    if (!NEGATED.test(text.slice(Math.max(0, match.index - 40), match.index))) return true;
+  }
+  return false;
+}
+
+/** In `COURT_AMENITIES` order. */
+export function extractAmenities(hours: string, description: string): CourtAmenity[] {
+  const text = `${hours}\n${description}`;
+  return COURT_AMENITIES.filter((amenity) => mentions(text, AMENITY_PATTERNS[amenity]));
+}
+
+export function applyAmenityOverride(
+  amenities: CourtAmenity[],
+  override: CourtAmenityOverride | undefined
+): CourtAmenity[] {
+  if (!override) return amenities;
+  const remove = override.remove ?? [];
+  const add = override.add ?? [];
+  return COURT_AMENITIES.filter((a) => (amenities.includes(a) || add.includes(a)) && !remove.includes(a));
+}
@@ -0,0 +1,23 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { COURT_AMENITY_OVERRIDES } from '@/data/courtAmenityOverrides';
+import { COURT_CATALOGUE_CSV, compileCourtCatalogue } from '@/lib/courtCatalogue';
+
+describe('compileCourtCatalogue', () => {
+  const { courts } = compileCourtCatalogue(readFileSync(COURT_CATALOGUE_CSV, 'utf8'));
+  const byName = (name: string) => courts.find((court) => court.name === name);
+
+  it('keeps the amenities the sheet names', () => {
+    expect(byName('Hudson River Park Tennis Courts')?.amenities).toEqual(['lights', 'restrooms', 'water']);
+    expect(byName('Washington Market Tennis Court')?.amenities).toEqual(['lights']);
+  });
+
+  it('applies the reviewed overrides on top of the extraction', () => {
+    for (const override of COURT_AMENITY_OVERRIDES) {
+      const amenities = byName(override.catalogueName)?.amenities;
+      expect(amenities).toEqual(expect.arrayContaining(override.add ?? []));
+      for (const removed of override.remove ?? []) expect(amenities).not.toContain(removed);
+    }
+    expect(byName('Prospect Park Tennis Courts')?.amenities).toEqual(['lights', 'restrooms', 'water', 'proShop']);
+  });
+});
@@ -0,0 +1,275 @@
+/**
+ * Court catalogue compiled from `src/data/courts.csv`, the export of the NYC Tennis Courts sheet
+ * (edit the sheet, then export it as CSV over that file).
+ *
+ * Server-only: pages read it while they are statically generated, so a row that fails validation
+ * fails `next build` instead of quietly disappearing from the map.
+ */
+
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import type { Borough, CourtData, CourtSurface, PermitStatus } from '@/types/courts';
+import { BOROUGHS, COURT_SURFACES, PERMIT_STATUSES } from '@/data/courtOptions';
+import { WAIT_TIME_COURTS } from '@/data/waitTimeCourts';
+import { SIGNUP_SHEET_COURTS } from '@/data/signupSheetCourts';
+import { COURT_AMENITY_OVERRIDES } from '@/data/courtAmenityOverrides';
+import { CsvParseError, parseCsv } from '@/lib/csv';
+import { parseHours, parseSeason } from '@/lib/courtSchedule';
+import { applyAmenityOverride, extractAmenities } from '@/lib/courtAmenities';
+import { inNyc } from '@/lib/geo';
+
+export const COURT_CATALOGUE_CSV = path.join(process.cwd(), 'src', 'data', 'courts.csv');
+
+const EXPECTED_HEADER = [
+  'Name',
+  'Address',
+  'Borough',
+  'Surface Type',
+  'Permit Status',
+  'Number of Courts',
+  'Dates Open',
+  'Hours Open',
+  'Description/Local Tips',
+  'Latitude',
+  'Longitude',
+  'Google Maps Embed Code',
+];
+
+/** Sheet spellings that mean a canonical value. */
+const BOROUGH_ALIASES: Record<string, Borough> = { Bronx: 'The Bronx' };
+const PERMIT_ALIASES: Record<string, PermitStatus> = {
+  'Required and Enforced': 'Required & Enforced',
+  Free: 'Not Required',
+  '?': 'Unknown',
+  '': 'Unknown',
+};
+
+/** The embed column's iframe `src` is kept only when it points here. */
+const MAPS_EMBED_PREFIX = 'https://www.google.com/maps/embed';
+
+export interface SkippedCourtRow {
+  /** Row number as shown in the spreadsheet (header = 1). */
+  sheetRow: number;
+  name: string;
+  reason: string;
+}
+
+export interface CourtCatalogue {
+  courts: CourtData[];
+  skipped: SkippedCourtRow[];
+}
+
+export class CourtCatalogueError extends Error {
+  constructor(readonly issues: string[]) {
+    super(`Court catalogue is invalid (${issues.length} problem(s)):\n  ${issues.join('\n  ')}`);
+    this.name = 'CourtCatalogueError';
+  }
+}
+
+/** Trim every line and collapse runs of spaces; keeps intentional line breaks. */
+function cleanText(value: string): string {
+  return value
+    .split(/\r?\n/)
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+export function courtSlug(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/['’.]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+function parseBorough(raw: string): Borough | undefined {
+  return (BOROUGHS as string[]).includes(raw) ? (raw as Borough) : BOROUGH_ALIASES[raw];
+}
+
+function parsePermitStatus(raw: string): PermitStatus | undefined {
+  return (PERMIT_STATUSES as string[]).includes(raw) ? (raw as PermitStatus) : PERMIT_ALIASES[raw];
+}
+
+/** "Hard and Har-Tru" → ['Hard', 'Har-Tru']; '' → []; null when a part is not a known surface. */
+function parseSurfaces(raw: string): CourtSurface[] | null {
+  if (raw === '') return [];
+  const surfaces: CourtSurface[] = [];
+  for (const part of raw.split(/\s*(?:,|\/|&|\band\b)\s*/i)) {
+    const surface = COURT_SURFACES.find((s) => s.toLowerCase() === part.toLowerCase());
+    if (!surface) return null;
+    if (!surfaces.includes(surface)) surfaces.push(surface);
+  }
+  return surfaces;
+}
+
+function parseMapsEmbedUrl(raw: string): string | null | undefined {
+  if (raw === '') return null;
+  const src = /\bsrc="([^"]+)"/.exec(raw)?.[1];
+  return src?.startsWith(MAPS_EMBED_PREFIX) ? src : undefined;
+}
+
+/** Parse and validate the sheet export. Throws `CourtCatalogueError` listing every bad row. */
+export function compileCourtCatalogue(csvText: string): CourtCatalogue {
+  let rows: string[][];
+  try {
+    rows = parseCsv(csvText);
+  } catch (error) {
+    if (error instanceof CsvParseError) throw new CourtCatalogueError([error.message]);
+    throw error;
+  }
+  const [header, ...records] = rows;
+  const headerCells = (header ?? []).map((cell) => cell.trim());
+  if (headerCells.join('|') !== EXPECTED_HEADER.join('|')) {
+    throw new CourtCatalogueError([
+      `header is "${headerCells.join(', ')}", expected "${EXPECTED_HEADER.join(', ')}"`,
+    ]);
+  }
+
+  const courts: CourtData[] = [];
+  const skipped: SkippedCourtRow[] = [];
+  const issues: string[] = [];
+  const slugs = new Set<string>();
+
+  records.forEach((cells, index) => {
+    const sheetRow = index + 2;
+    if (cells.every((cell) => cell.trim() === '')) return;
+
+    const name = cleanText(cells[0] ?? '');
+    const problems: string[] = [];
+    const report = () => {
+      for (const problem of problems) issues.push(`sheet row ${sheetRow} (${name || 'no name'}): ${problem}`);
+    };
+
+    if (cells.length !== EXPECTED_HEADER.length) {
+      problems.push(`has ${cells.length} columns, expected ${EXPECTED_HEADER.length}`);
+      return report();
+    }
+
+    const [, address, boroughRaw, surfaceRaw, permitRaw, countRaw, datesOpen, hours, description] =
+      cells.map(cleanText);
+    const latRaw = cells[9].trim();
+    const lngRaw = cells[10].trim();
+
+    if (!name) problems.push('missing name');
+
+    const borough = parseBorough(boroughRaw);
+    if (!borough) problems.push(boroughRaw ? `unknown borough "${boroughRaw}"` : 'missing borough');
+
+    const surfaces = parseSurfaces(surfaceRaw);
+    if (!surfaces) problems.push(`unknown surface "${surfaceRaw}"`);
+
+    const permitStatus = parsePermitStatus(permitRaw);
+    if (!permitStatus) problems.push(`unknown permit status "${permitRaw}"`);
+
+    const courtCount = Number(/^\d+/.exec(countRaw)?.[0] ?? NaN);
+    if (!(courtCount > 0)) problems.push(`number of courts "${countRaw}" does not start with a count`);
+
+    const season = parseSeason(datesOpen);
+    if (!season) problems.push(`unrecognised dates open "${datesOpen}"`);
+
+    const parsedHours = parseHours(hours);
+    if (!parsedHours) problems.push(`unrecognised hours "${hours}"`);
+
+    const mapsEmbedUrl = parseMapsEmbedUrl(cells[11].trim());
+    if (mapsEmbedUrl === undefined) problems.push('embed code is not a Google Maps embed iframe');
+
+    const slug = courtSlug(name);
+    if (name && slugs.has(slug)) problems.push(`duplicate court (slug "${slug}")`);
+    slugs.add(slug);
+
+    // Rows without any coordinates are kept out of the map but reported, not fatal.
+    let lat = NaN;
+    let lng = NaN;
+    if (latRaw !== '' || lngRaw !== '') {
+      lat = Number(latRaw);
+      lng = Number(lngRaw);
+      if (!Number.isFinite(lat) || !Number.isFinite(lng) || latRaw === '' || lngRaw === '') {
+        problems.push(`invalid coordinates "${latRaw}", "${lngRaw}"`);
+      } else if (!inNyc({ lat, lng })) {
+        problems.push(`coordinates ${lat}, ${lng} are outside NYC`);
+      }
+    }
+
+    if (problems.length > 0) return report();
+    if (latRaw === '' && lngRaw === '') {
+      skipped.push({ sheetRow, name, reason: 'no latitude / longitude' });
+      return;
+    }
+
+    courts.push({
+      id: courts.length + 1,
+      slug,
+      name,
+      address,
+      borough: borough!,
+      surface: surfaceRaw,
+      surfaces: surfaces!,
+      permitStatus: permitStatus!,
+      courts: courtCount,
+      datesOpen,
+      hours,
+      schedule: { ...season!, ...parsedHours! },
+      description,
+      amenities: applyAmenityOverride(
+        extractAmenities(hours, description),
+        COURT_AMENITY_OVERRIDES.find((override) => override.catalogueName === name)
+      ),
+      lat,
+      lng,
+      mapsEmbedUrl: mapsEmbedUrl ?? null,
+    });
+  });
+
+  for (const court of WAIT_TIME_COURTS) {
+    if (!courts.some((row) => row.name === court.catalogueName)) {
+      issues.push(`wait-time court "${court.id}" expects a catalogue row named "${court.catalogueName}"`);
+    }
+  }
+
+  const sheetSlugs = new Set<string>();
+  for (const court of SIGNUP_SHEET_COURTS) {
+    const catalogueName = court.catalogueName ?? court.name;
+    if (!courts.some((row) => row.name === catalogueName)) {
+      issues.push(`sign-up sheet court "${court.name}" expects a catalogue row named "${catalogueName}"`);
+    }
+    if (sheetSlugs.has(court.slug)) issues.push(`sign-up sheet court "${court.name}" reuses slug "${court.slug}"`);
+    sheetSlugs.add(court.slug);
+  }
+
+  const overridden = new Set<string>();
+  for (const override of COURT_AMENITY_OVERRIDES) {
+    const label = `amenity override "${override.catalogueName}"`;
+    if (!courts.some((row) => row.name === override.catalogueName)) {
+      issues.push(`${label} expects a catalogue row with that name`);
+    }
+    if (overridden.has(override.catalogueName)) issues.push(`${label} is listed twice`);
+    overridden.add(override.catalogueName);
+    const both = (override.add ?? []).filter((a) => override.remove?.includes(a));
+    if (both.length > 0) issues.push(`${label} both adds and removes ${both.join(', ')}`);
+  }
+
+  if (issues.length > 0) throw new CourtCatalogueError(issues);
+  return { courts, skipped };
+}
+
+export function formatSkippedCourtRows(skipped: SkippedCourtRow[]): string {
+  const lines = skipped.map((row) => `  sheet row ${row.sheetRow} (${row.name}): ${row.reason}`);
+  return [`Court catalogue: skipped ${skipped.length} row(s) of src/data/courts.csv`, ...lines].join('\n');
+}
+
+let cached: CourtCatalogue | null = null;
+
+/** The validated catalogue, read once per server process. Logs the skipped-rows report. */
+export function loadCourtCatalogue(): CourtCatalogue {
+  if (cached) return cached;
+  cached = compileCourtCatalogue(readFileSync(COURT_CATALOGUE_CSV, 'utf8'));
+  if (cached.skipped.length > 0) console.warn(formatSkippedCourtRows(cached.skipped));
+  return cached;
+}
+
+export function courtBySlug(slug: string): CourtData | undefined {
+  return loadCourtCatalogue().courts.find((court) => court.slug === slug);
+}
@@ -0,0 +1,64 @@
+import type { CourtAmenity, CourtData } from '@/types/courts';
+import { matchesAvailability, type AvailabilityFilter } from '@/lib/courtSchedule';
+import { distanceMiles, type LatLng } from '@/lib/geo';
+import { nycLocalTime, type NycLocalTime } from '@/lib/nycTime';
+import type { TravelEstimate, TravelSort } from '@/lib/travelTime';
+import type { CourtSearchHit } from '@/lib/courtSearch';
+
+/** Distance sort around a located or typed-in origin. */
+export interface NearMe {
+  origin: LatLng;
+  /** "Your location" or the matched address. */
+  label: string;
+  /** null = no radius limit, just sort by distance. */
+  radiusMiles: number | null;
+  /** Order of the nearby list; travel-time sorts need the subway station data. */
+  sortBy: TravelSort;
+}
+
+export const NEAR_ME_RADIUS_OPTIONS = [0.5, 1, 2, 5];
+
+export interface CourtFilters {
+  boroughs: string[];
+  surfaces: string[];
+  permitStatuses: string[];
+  /** Unlike the other lists, a court needs every selected amenity. */
+  amenities: CourtAmenity[];
+  availability: AvailabilityFilter;
+  nearMe: NearMe | null;
+}
+
+export interface CourtMatch {
+  court: CourtData;
+  /** Set in near-me mode. */
+  distanceMiles: number | null;
+  /** Set by `withTravelEstimates` in near-me mode. */
+  travel?: TravelEstimate;
+  /** Set by `withSearchHits` while a search query is active. */
+  search?: CourtSearchHit;
+}
+
+/** Empty selections match everything. In near-me mode, nearest first. */
+export function filterCourts(
+  courts: CourtData[],
+  { boroughs, surfaces, permitStatuses, amenities, availability, nearMe }: CourtFilters,
+  now: NycLocalTime = nycLocalTime(new Date())
+): CourtMatch[] {
+  const matches: CourtMatch[] = [];
+  for (const court of courts) {
+    if (boroughs.length > 0 && !boroughs.includes(court.borough)) continue;
+    if (surfaces.length > 0 && !court.surfaces.some((s) => surfaces.includes(s))) continue;
+    if (permitStatuses.length > 0 && !permitStatuses.includes(court.permitStatus)) continue;
+    if (!amenities.every((a) => court.amenities.includes(a))) continue;
+    if (!matchesAvailability(court.schedule, availability, now)) continue;
+
+    let distance: number | null = null;
+    if (nearMe) {
+      distance = distanceMiles(nearMe.origin, court);
+      if (nearMe.radiusMiles !== null && distance > nearMe.radiusMiles) continue;
+    }
+    matches.push({ court, distanceMiles: distance });
+  }
+  if (nearMe) matches.sort((a, b) => (a.distanceMiles ?? 0) - (b.distanceMiles ?? 0));
+  return matches;
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_COURT_FINDER_STATE,
+  courtFinderSearch,
+  parseCourtFinderParams,
+  type CourtFinderUrlState,
+} from '@/lib/courtFinderUrl';
+
+const parse = (search: string) => parseCourtFinderParams(new URLSearchParams(search));
+
+const FILTERED: CourtFinderUrlState = {
+  query: 'river side',
+  boroughs: ['Manhattan', 'The Bronx'],
+  surfaces: ['Har-Tru'],
+  permitStatuses: ['Required & Enforced', 'Not Required'],
+  amenities: ['lights', 'proShop'],
+  availability: { kind: 'at', weekday: 6, minutes: 19 * 60 + 30 },
+  viewport: { center: { lat: 40.7812, lng: -73.9665 }, zoom: 13 },
+};
+
+describe('courtFinderSearch', () => {
+  it('leaves the defaults out', () => {
+    expect(courtFinderSearch(DEFAULT_COURT_FINDER_STATE, '')).toBe('');
+  });
+
+  it('writes readable slugs', () => {
+    expect(courtFinderSearch(FILTERED, '')).toBe(
+      '?q=river+side&borough=manhattan,the-bronx&surface=har-tru&permit=required-enforced,not-required' +
+        '&amenity=lights,pro-shop&open=sat-19:30&map=40.7812,-73.9665,13'
+    );
+  });
+
+  it('keeps parameters it does not own', () => {
+    expect(courtFinderSearch({ ...DEFAULT_COURT_FINDER_STATE, query: 'clay' }, '?utm_source=flyer&q=old')).toBe(
+      '?utm_source=flyer&q=clay'
+    );
+    expect(courtFinderSearch(DEFAULT_COURT_FINDER_STATE, '?borough=queens&utm_source=flyer')).toBe(
+      '?utm_source=flyer'
+    );
+  });
+
+  it('rounds the viewport to what the URL keeps', () => {
+    const viewport = { center: { lat: 40.781234, lng: -73.966549 }, zoom: 12.6 };
+    expect(courtFinderSearch({ ...DEFAULT_COURT_FINDER_STATE, viewport }, '')).toBe('?map=40.7812,-73.9665,13');
+  });
+});
+
+describe('parseCourtFinderParams', () => {
+  it('round-trips every filter', () => {
+    expect(parse(courtFinderSearch(FILTERED, ''))).toEqual(FILTERED);
+    for (const availability of [
+      { kind: 'now' },
+      { kind: 'month', month: 12 },
+      { kind: 'at', weekday: 0, minutes: 0 },
+    ] as const) {
+      const state = { ...DEFAULT_COURT_FINDER_STATE, availability };
+      expect(parse(courtFinderSearch(state, ''))).toEqual(state);
+    }
+  });
+
+  it('reads an empty query as the defaults', () => {
+    expect(parse('')).toEqual(DEFAULT_COURT_FINDER_STATE);
+    expect(parse('?utm_source=flyer&page=2')).toEqual(DEFAULT_COURT_FINDER_STATE);
+  });
+
+  it('drops unknown and repeated list values', () => {
+    expect(parse('?borough=Queens,atlantis,queens,%20brooklyn&surface=grass&amenity=pool,water')).toEqual({
+      ...DEFAULT_COURT_FINDER_STATE,
+      boroughs: ['Queens', 'Brooklyn'],
+      amenities: ['water'],
+    });
+  });
+
+  it.each(['later', 'sat', 'sat-24:00', 'sat-7:5', 'xyz-19:00', 'december', 'Dec'])(
+    'reads open=%s as any time',
+    (open) => {
+      expect(parse(`?open=${open}`).availability).toEqual({ kind: 'any' });
+    }
+  );
+
+  it.each([
+    ['too few parts', '40.78,-73.96'],
+    ['too many parts', '40.78,-73.96,13,1'],
+    ['not numbers', '40.78,west,13'],
+    ['empty parts', ',,'],
+    ['infinite', 'Infinity,-73.96,13'],
+    ['outside NYC', '34.05,-118.24,13'],
+    ['zoomed too far out', '40.78,-73.96,7'],
+    ['zoomed too far in', '40.78,-73.96,21'],
+  ])('ignores a map= that is %s', (_, map) => {
+    expect(parse(`?map=${map}`).viewport).toBeNull();
+  });
+
+  it('keeps the other filters when one is malformed', () => {
+    expect(parse('?map=nowhere&surface=clay&open=soon')).toEqual({
+      ...DEFAULT_COURT_FINDER_STATE,
+      surfaces: ['Clay'],
+    });
+  });
+});
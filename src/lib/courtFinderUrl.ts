@@ -0,0 +1,141 @@
+/**
+ * Court Finder filters in the URL query, so a filtered view can be bookmarked, shared and
+ * restored on reload, e.g. `/?borough=manhattan&surface=clay&permit=not-required&map=40.78,-73.96,13`.
+ * Unknown or malformed values are dropped instead of failing the page.
+ */
+
+import type { CourtAmenity } from '@/types/courts';
+import { BOROUGHS, COURT_AMENITIES, COURT_SURFACES, PERMIT_STATUSES } from '@/data/courtOptions';
+import type { AvailabilityFilter } from '@/lib/courtSchedule';
+import { inNyc } from '@/lib/geo';
+import type { MapViewport } from '@/lib/mapProvider';
+import { MONTHS, WEEKDAYS } from '@/lib/nycTime';
+
+export interface CourtFinderUrlState {
+  query: string;
+  boroughs: string[];
+  surfaces: string[];
+  permitStatuses: string[];
+  amenities: CourtAmenity[];
+  availability: AvailabilityFilter;
+  /** null = the map's default view. */
+  viewport: MapViewport | null;
+}
+
+export const DEFAULT_COURT_FINDER_STATE: CourtFinderUrlState = {
+  query: '',
+  boroughs: [],
+  surfaces: [],
+  permitStatuses: [],
+  amenities: [],
+  availability: { kind: 'any' },
+  viewport: null,
+};
+
+/** Query parameters owned by the Court Finder; anything else in the URL is left alone. */
+const PARAMS = {
+  query: 'q',
+  boroughs: 'borough',
+  surfaces: 'surface',
+  permitStatuses: 'permit',
+  amenities: 'amenity',
+  availability: 'open',
+  viewport: 'map',
+} as const;
+
+/** "Required & Enforced" → "required-enforced", "proShop" → "pro-shop". */
+function paramSlug(value: string): string {
+  return value
+    .replace(/([a-z])([A-Z])/g, '$1-$2')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+function parseList<T extends string>(raw: string | null, options: readonly T[]): T[] {
+  const values: T[] = [];
+  for (const slug of raw?.split(',') ?? []) {
+    const value = options.find((option) => paramSlug(option) === slug.trim().toLowerCase());
+    if (value && !values.includes(value)) values.push(value);
+  }
+  return values;
+}
+
+const weekdaySlug = (weekday: number) => WEEKDAYS[weekday].slice(0, 3).toLowerCase();
+const monthSlug = (month: number) => MONTHS[month - 1].slice(0, 3).toLowerCase();
+
+/** "now", "sat-19:00" or "dec". */
+function parseAvailability(raw: string | null): AvailabilityFilter {
+  if (raw === 'now') return { kind: 'now' };
+  const at = /^([a-z]{3})-(\d{1,2}):(\d{2})$/.exec(raw ?? '');
+  if (at) {
+    const weekday = WEEKDAYS.findIndex((_, i) => weekdaySlug(i) === at[1]);
+    const minutes = Number(at[2]) * 60 + Number(at[3]);
+    if (weekday >= 0 && minutes < 24 * 60) return { kind: 'at', weekday, minutes };
+  }
+  const month = MONTHS.findIndex((_, i) => monthSlug(i + 1) === raw);
+  if (month >= 0) return { kind: 'month', month: month + 1 };
+  return { kind: 'any' };
+}
+
+function formatAvailability(filter: AvailabilityFilter): string | null {
+  switch (filter.kind) {
+    case 'any':
+      return null;
+    case 'now':
+      return 'now';
+    case 'at': {
+      const hours = Math.floor(filter.minutes / 60);
+      const minutes = String(filter.minutes % 60).padStart(2, '0');
+      return `${weekdaySlug(filter.weekday)}-${hours}:${minutes}`;
+    }
+    case 'month':
+      return monthSlug(filter.month);
+  }
+}
+
+/** "lat,lng,zoom". */
+function parseViewport(raw: string | null): MapViewport | null {
+  const parts = raw?.split(',').map(Number) ?? [];
+  if (parts.length !== 3 || !parts.every(Number.isFinite)) return null;
+  const [lat, lng, zoom] = parts;
+  if (!inNyc({ lat, lng }) || zoom < 8 || zoom > 20) return null;
+  return { center: { lat, lng }, zoom };
+}
+
+function formatViewport({ center, zoom }: MapViewport): string {
+  return `${center.lat.toFixed(4)},${center.lng.toFixed(4)},${Math.round(zoom)}`;
+}
+
+export function parseCourtFinderParams(params: URLSearchParams): CourtFinderUrlState {
+  return {
+    query: params.get(PARAMS.query) ?? '',
+    boroughs: parseList(params.get(PARAMS.boroughs), BOROUGHS),
+    surfaces: parseList(params.get(PARAMS.surfaces), COURT_SURFACES),
+    permitStatuses: parseList(params.get(PARAMS.permitStatuses), PERMIT_STATUSES),
+    amenities: parseList(params.get(PARAMS.amenities), COURT_AMENITIES),
+    availability: parseAvailability(params.get(PARAMS.availability)),
+    viewport: parseViewport(params.get(PARAMS.viewport)),
+  };
+}
+
+/**
+ * `search` (a `location.search` string) with the Court Finder's parameters replaced by `state`.
+ * Defaults are left out; commas and colons stay readable.
+ */
+export function courtFinderSearch(state: CourtFinderUrlState, search: string): string {
+  const next = new URLSearchParams(search);
+  const set = (key: string, value: string | null) => {
+    if (value) next.set(key, value);
+    else next.delete(key);
+  };
+  set(PARAMS.query, state.query);
+  set(PARAMS.boroughs, state.boroughs.map(paramSlug).join(','));
+  set(PARAMS.surfaces, state.surfaces.map(paramSlug).join(','));
+  set(PARAMS.permitStatuses, state.permitStatuses.map(paramSlug).join(','));
+  set(PARAMS.amenities, state.amenities.map(paramSlug).join(','));
+  set(PARAMS.availability, formatAvailability(state.availability));
+  set(PARAMS.viewport, state.viewport && formatViewport(state.viewport));
+  const query = next.toString().replace(/%2C/gi, ',').replace(/%3A/gi, ':');
+  return query ? `?${query}` : '';
+}
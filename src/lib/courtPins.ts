@@ -0,0 +1,79 @@
+import type { CourtData } from '@/types/courts';
+import type { SignupSheetReport, WaitTime } from '@/lib/supabase';
+import { waitTimeCourtForCatalogue } from '@/data/waitTimeCourts';
+import { signupSheetCourtForCatalogue } from '@/data/signupSheetCourts';
+import { isOpenOnDate } from '@/lib/courtSchedule';
+import type { NycLocalTime } from '@/lib/nycTime';
+import { waitRangeOf, waitStatusFromRange } from '@/lib/waitTimeRange';
+
+/** What a court's map pin shows, most urgent first. */
+export type CourtPinStatus =
+  | 'closed'
+  | 'wait-green'
+  | 'wait-yellow'
+  | 'wait-orange'
+  | 'wait-red'
+  | 'sheet'
+  | 'none';
+
+export const COURT_PIN_COLOR: Record<CourtPinStatus, string> = {
+  closed: '#9CA3AF',
+  'wait-green': '#2D5A27',
+  'wait-yellow': '#EAB308',
+  'wait-orange': '#F97316',
+  'wait-red': '#EF4444',
+  sheet: '#2563EB',
+  none: '#FFFFFF',
+};
+
+/** Legend rows, in display order. */
+export const COURT_PIN_LEGEND: { status: CourtPinStatus; label: string }[] = [
+  { status: 'wait-green', label: 'Wait under 1 hour' },
+  { status: 'wait-yellow', label: 'Wait 1-2 hours' },
+  { status: 'wait-orange', label: 'Wait 2-3 hours' },
+  { status: 'wait-red', label: 'Wait 3+ hours' },
+  { status: 'sheet', label: 'Fresh sign-up sheet photo' },
+  { status: 'closed', label: 'Closed for the season' },
+  { status: 'none', label: 'No live report' },
+];
+
+export interface CourtLiveReports {
+  /** Latest live report per wait-time registry id. */
+  waitTimes: Record<string, WaitTime | null>;
+  /**
+   * Latest unexpired report with a photo per sign-up sheet `court_name`; status-only reports do
+   * not make a pin "fresh sheet".
+   */
+  signupSheetPhotos: Record<string, SignupSheetReport | null>;
+}
+
+/** A closed court outranks any report; a live wait outranks a sign-up sheet photo. */
+export function courtPinStatus(
+  court: CourtData,
+  { waitTimes, signupSheetPhotos }: CourtLiveReports,
+  now: NycLocalTime
+): CourtPinStatus {
+  if (!isOpenOnDate(court.schedule, now)) return 'closed';
+
+  const waitCourt = waitTimeCourtForCatalogue(court);
+  const report = waitCourt ? waitTimes[waitCourt.id] : null;
+  if (report) {
+    const status = waitStatusFromRange(waitRangeOf(report));
+    if (status !== 'gray') return `wait-${status}`;
+  }
+
+  const sheetCourt = signupSheetCourtForCatalogue(court);
+  if (sheetCourt && signupSheetPhotos[sheetCourt.name]?.photo_path) return 'sheet';
+  return 'none';
+}
+
+/** Filled circle with a white dot; the "no report" pin is an outline in the brand green. */
+export function courtPinSvg(status: CourtPinStatus): string {
+  const fill = COURT_PIN_COLOR[status];
+  const ring = status === 'none' ? '#2D5A27' : 'white';
+  const dot = status === 'none' ? '#2D5A27' : 'white';
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="30" height="30" viewBox="0 0 30 30">
+    <circle cx="15" cy="15" r="12" fill="${fill}" stroke="${ring}" stroke-width="${status === 'none' ? 3 : 2}"/>
+    <circle cx="15" cy="15" r="4" fill="${dot}"/>
+  </svg>`;
+}
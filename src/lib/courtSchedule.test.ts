@@ -0,0 +1,175 @@
+import { describe, expect, it } from 'vitest';
+import type { CourtSchedule } from '@/types/courts';
+import {
+  NYC_PARKS_SEASON_OPENS,
+  SUNDAY_BEFORE_THANKSGIVING,
+  THANKSGIVING,
+  courtOpenInMonth,
+  courtOpenStatus,
+  parseHours,
+  parseSeason,
+  resolveSeasonDate,
+} from '@/lib/courtSchedule';
+import { addDays, type NycLocalTime } from '@/lib/nycTime';
+
+/** NYC local time on a date, at "HH:MM". */
+function at(year: number, month: number, day: number, time = '12:00'): NycLocalTime {
+  const [hour, minute] = time.split(':').map(Number);
+  return { ...addDays({ year, month, day }, 0), minutes: hour * 60 + minute };
+}
+
+function schedule(season: string, hours: string): CourtSchedule {
+  return { ...parseSeason(season)!, ...parseHours(hours)! };
+}
+
+describe('parseHours', () => {
+  it('reads the sheet formats', () => {
+    expect(parseHours('7am til dusk')).toEqual({ hours: { opens: 420, closes: { kind: 'dusk' } }, lights: false });
+    expect(parseHours('6 AM - 1 AM (Floodlights)')).toEqual({
+      hours: { opens: 360, closes: { kind: 'fixed', minutes: 1500 } },
+      lights: true,
+    });
+    expect(parseHours('7:00am ~ 3:00pm/8:00pm (varies by month)')).toEqual({
+      hours: { opens: 420, closes: { kind: 'varies', earliest: 900, latest: 1200 } },
+      lights: false,
+    });
+    expect(parseHours('8:30am to 12am')).toEqual({
+      hours: { opens: 510, closes: { kind: 'fixed', minutes: 1440 } },
+      lights: false,
+    });
+  });
+
+  it('reads an empty cell as hours not listed', () => {
+    expect(parseHours('  ')).toEqual({ hours: null, lights: false });
+  });
+
+  it.each(['Call ahead', '7am', '13pm - 2pm', '7:75am - 9pm', 'dusk - 7pm', '7am - 3pm/dusk'])(
+    'rejects %j',
+    (raw) => {
+      expect(parseHours(raw)).toBeNull();
+    }
+  );
+});
+
+describe('parseSeason', () => {
+  it('reads all-year courts', () => {
+    expect(parseSeason('All Year')).toEqual({ season: null, closures: [] });
+    expect(parseSeason('')).toEqual({ season: null, closures: [] });
+    expect(parseSeason('All Year except during the US Open')?.closures.map((c) => c.label)).toEqual(['US Open']);
+  });
+
+  it('follows the NYC Parks season for April and November', () => {
+    expect(parseSeason('April ~ November')?.season).toEqual({
+      opens: NYC_PARKS_SEASON_OPENS,
+      closes: SUNDAY_BEFORE_THANKSGIVING,
+    });
+    expect(parseSeason('Apr - Nov (Thanksgiving Day)')?.season).toEqual({
+      opens: NYC_PARKS_SEASON_OPENS,
+      closes: THANKSGIVING,
+    });
+  });
+
+  it('uses whole months otherwise', () => {
+    expect(parseSeason('May through October')?.season).toEqual({
+      opens: { month: 5, day: 1 },
+      closes: { month: 10, day: 'last' },
+    });
+  });
+
+  it.each(['Spring', 'April ~ November (weather permitting)', 'April'])('rejects %j', (raw) => {
+    expect(parseSeason(raw)).toBeNull();
+  });
+});
+
+describe('resolveSeasonDate', () => {
+  it('finds the NYC Parks dates', () => {
+    expect(resolveSeasonDate(NYC_PARKS_SEASON_OPENS, 2026)).toEqual({ month: 4, day: 4 });
+    expect(resolveSeasonDate(THANKSGIVING, 2026)).toEqual({ month: 11, day: 26 });
+    expect(resolveSeasonDate(SUNDAY_BEFORE_THANKSGIVING, 2026)).toEqual({ month: 11, day: 22 });
+    expect(resolveSeasonDate({ month: 2, day: 'last' }, 2028)).toEqual({ month: 2, day: 29 });
+  });
+});
+
+describe('courtOpenStatus', () => {
+  const parks = schedule('April ~ November', '7am - 8pm');
+
+  it('closes the Sunday before Thanksgiving', () => {
+    expect(courtOpenStatus(parks, at(2026, 11, 22))).toEqual({ state: 'open', label: 'Open now · until 8pm' });
+    expect(courtOpenStatus(parks, at(2026, 11, 23))).toEqual({
+      state: 'closed',
+      label: 'Closed for the season · reopens Apr 3',
+    });
+    expect(courtOpenStatus(parks, at(2026, 4, 3))).toEqual({
+      state: 'closed',
+      label: 'Closed for the season · reopens Apr 4',
+    });
+    expect(courtOpenStatus(parks, at(2026, 4, 4)).state).toBe('open');
+  });
+
+  it('stays open through Thanksgiving Day when the sheet says so', () => {
+    const thanksgiving = schedule('April ~ November (Thanksgiving Day)', '7am - 8pm');
+    expect(courtOpenStatus(thanksgiving, at(2026, 11, 26)).state).toBe('open');
+    expect(courtOpenStatus(thanksgiving, at(2026, 11, 27)).state).toBe('closed');
+  });
+
+  it('closes from US Open qualifying through the final', () => {
+    const usOpen = schedule('All Year except during the US Open', '7am - 8pm');
+    // Labor Day 2026 is September 7.
+    expect(courtOpenStatus(usOpen, at(2026, 8, 23)).state).toBe('open');
+    expect(courtOpenStatus(usOpen, at(2026, 8, 24))).toEqual({ state: 'closed', label: 'Closed for the US Open' });
+    expect(courtOpenStatus(usOpen, at(2026, 9, 13)).state).toBe('closed');
+    expect(courtOpenStatus(usOpen, at(2026, 9, 14)).state).toBe('open');
+  });
+
+  it("keeps yesterday's late session open across a month and season boundary", () => {
+    const late = schedule('May - October', '6am - 1am');
+    expect(courtOpenStatus(late, at(2026, 11, 1, '00:30'))).toEqual({ state: 'open', label: 'Open now · until 1am' });
+    expect(courtOpenStatus(late, at(2026, 11, 1, '01:00'))).toEqual({
+      state: 'closed',
+      label: 'Closed for the season · reopens May 1',
+    });
+    expect(courtOpenStatus(late, at(2026, 5, 1, '00:30')).state).toBe('closed');
+  });
+
+  it('wraps seasons around the new year', () => {
+    const winter = schedule('November ~ March', '7am - 8pm');
+    expect(courtOpenStatus(winter, at(2027, 1, 1)).state).toBe('open');
+    expect(courtOpenStatus(winter, at(2027, 3, 31)).state).toBe('open');
+    expect(courtOpenStatus(winter, at(2027, 4, 1))).toEqual({
+      state: 'closed',
+      label: 'Closed for the season · reopens Nov 1',
+    });
+  });
+
+  it('closes at dusk for the month', () => {
+    const dusk = schedule('All Year', '7am til dusk');
+    expect(courtOpenStatus(dusk, at(2026, 6, 15, '20:00'))).toEqual({
+      state: 'open',
+      label: 'Open now · until dusk (~8:55pm)',
+    });
+    expect(courtOpenStatus(dusk, at(2026, 12, 15, '17:00')).state).toBe('closed');
+  });
+
+  it('is unsure between the earliest and latest closing time', () => {
+    const varies = schedule('All Year', '7:00am ~ 3:00pm/8:00pm');
+    expect(courtOpenStatus(varies, at(2026, 6, 15, '14:00')).state).toBe('open');
+    expect(courtOpenStatus(varies, at(2026, 6, 15, '19:00'))).toEqual({
+      state: 'unknown',
+      label: 'Closing time varies by month',
+    });
+    expect(courtOpenStatus(varies, at(2026, 6, 15, '20:00')).state).toBe('closed');
+  });
+
+  it('opens in the morning', () => {
+    expect(courtOpenStatus(parks, at(2026, 6, 15, '06:59'))).toEqual({ state: 'closed', label: 'Closed · opens 7am' });
+  });
+});
+
+describe('courtOpenInMonth', () => {
+  it('counts a month with any open day', () => {
+    const parks = schedule('April ~ November', '7am - 8pm');
+    expect(courtOpenInMonth(parks, 2026, 11)).toBe(true);
+    expect(courtOpenInMonth(parks, 2026, 12)).toBe(false);
+    expect(courtOpenInMonth(schedule('All Year except the US Open', ''), 2026, 9)).toBe(true);
+  });
+});
@@ -0,0 +1,246 @@
+/**
+ * Court seasons and opening hours: parsed from the sheet's "Dates Open" / "Hours Open" text and
+ * evaluated against NYC local time ("open now", "open at 7pm Saturday", "open in December").
+ */
+
+import type { ClosingTime, CourtSchedule, SeasonClosure, SeasonDate } from '@/types/courts';
+import {
+  MONTHS,
+  addDays,
+  daysInMonth,
+  formatClockTime,
+  nycLocalTime,
+  type NycLocalTime,
+} from '@/lib/nycTime';
+
+/** NYC Parks outdoor season opens the first Saturday in April… */
+export const NYC_PARKS_SEASON_OPENS: SeasonDate = { month: 4, weekday: 6, nth: 1, offsetDays: 0 };
+/** …and ends the Sunday before Thanksgiving (fourth Thursday of November). */
+export const SUNDAY_BEFORE_THANKSGIVING: SeasonDate = { month: 11, weekday: 4, nth: 4, offsetDays: -4 };
+export const THANKSGIVING: SeasonDate = { month: 11, weekday: 4, nth: 4, offsetDays: 0 };
+
+/** Qualifying (two weeks before Labor Day) through the final (the Sunday after). */
+const US_OPEN: SeasonClosure = {
+  label: 'US Open',
+  from: { month: 9, weekday: 1, nth: 1, offsetDays: -14 },
+  to: { month: 9, weekday: 1, nth: 1, offsetDays: 6 },
+};
+
+/** Approximate end of civil twilight in NYC, mid-month, local time (DST included). */
+const DUSK_BY_MONTH = [1040, 1075, 1165, 1200, 1230, 1255, 1250, 1215, 1170, 1120, 1025, 1015];
+
+const RANGE_SEPARATOR = String.raw`\s*(?:~|-|–|—|to|through|til|till|until)\s*`;
+const CLOCK = String.raw`(?:\d{1,2}(?::\d{2})?(?:am|pm)|dusk)`;
+const HOURS_PATTERN = new RegExp(`^(${CLOCK})${RANGE_SEPARATOR}(${CLOCK})(?:\\s*/\\s*(${CLOCK}))?$`);
+const MONTH_NAME = String.raw`(jan\w*|feb\w*|mar\w*|apr\w*|may|jun\w*|jul\w*|aug\w*|sep\w*|oct\w*|nov\w*|dec\w*)`;
+const SEASON_PATTERN = new RegExp(`^${MONTH_NAME}${RANGE_SEPARATOR}${MONTH_NAME}(?:\\s*\\((.+)\\))?$`);
+
+function parseClock(text: string): number | 'dusk' | null {
+  if (text === 'dusk') return 'dusk';
+  const match = /^(\d{1,2})(?::(\d{2}))?(am|pm)$/.exec(text);
+  if (!match) return null;
+  const hour = Number(match[1]);
+  const minute = Number(match[2] ?? 0);
+  if (hour < 1 || hour > 12 || minute > 59) return null;
+  return ((hour % 12) + (match[3] === 'pm' ? 12 : 0)) * 60 + minute;
+}
+
+/** "7am til dusk", "6 AM - 1 AM (Floodlights)", "7:00am ~ 3:00pm/8:00pm (varies by month)". */
+export function parseHours(raw: string): Pick<CourtSchedule, 'hours' | 'lights'> | null {
+  const lower = raw.toLowerCase().trim();
+  const lights = /(flood|night)\s*lights/.test(lower);
+  if (lower === '') return { hours: null, lights };
+
+  const text = lower
+    .replace(/\(.*?\)/g, '')
+    .replace(/(\d)\s*-?\s*(am|pm)\b/g, '$1$2')
+    .replace(/\s+/g, ' ')
+    .trim();
+  const match = HOURS_PATTERN.exec(text);
+  if (!match) return null;
+
+  const opens = parseClock(match[1]);
+  const first = parseClock(match[2]);
+  const second = match[3] ? parseClock(match[3]) : undefined;
+  if (typeof opens !== 'number' || first === null || second === null) return null;
+
+  // A close at or before the opening time is after midnight.
+  const afterOpening = (m: number) => (m <= opens ? m + 1440 : m);
+  let closes: ClosingTime;
+  if (second !== undefined) {
+    if (first === 'dusk' || second === 'dusk') return null;
+    closes = { kind: 'varies', earliest: afterOpening(first), latest: afterOpening(second) };
+  } else {
+    closes = first === 'dusk' ? { kind: 'dusk' } : { kind: 'fixed', minutes: afterOpening(first) };
+  }
+  return { hours: { opens, closes }, lights };
+}
+
+function monthNumber(name: string): number {
+  return MONTHS.findIndex((m) => m.toLowerCase().startsWith(name.slice(0, 3))) + 1;
+}
+
+/**
+ * "All Year", "All Year except during the US Open", "April ~ November (Thanksgiving Day)".
+ * Month ranges follow the NYC Parks season unless the sheet names the day: April starts on the
+ * first Saturday and November ends the Sunday before Thanksgiving.
+ */
+export function parseSeason(raw: string): Pick<CourtSchedule, 'season' | 'closures'> | null {
+  const text = raw.toLowerCase().replace(/\s+/g, ' ').trim();
+  if (text === '' || text === 'all year') return { season: null, closures: [] };
+  if (/^all year except (during )?the us open$/.test(text)) return { season: null, closures: [US_OPEN] };
+
+  const match = SEASON_PATTERN.exec(text);
+  if (!match) return null;
+  const from = monthNumber(match[1]);
+  const to = monthNumber(match[2]);
+  const until = match[3]?.trim();
+
+  let closes: SeasonDate;
+  if (until === 'thanksgiving' || until === 'thanksgiving day') closes = THANKSGIVING;
+  else if (until === 'sunday before thanksgiving') closes = SUNDAY_BEFORE_THANKSGIVING;
+  else if (until) return null;
+  else closes = to === 11 ? SUNDAY_BEFORE_THANKSGIVING : { month: to, day: 'last' };
+
+  const opens: SeasonDate = from === 4 ? NYC_PARKS_SEASON_OPENS : { month: from, day: 1 };
+  return { season: { opens, closes }, closures: [] };
+}
+
+export function resolveSeasonDate(date: SeasonDate, year: number): { month: number; day: number } {
+  if ('day' in date) {
+    return { month: date.month, day: date.day === 'last' ? daysInMonth(year, date.month) : date.day };
+  }
+  const firstWeekday = new Date(Date.UTC(year, date.month - 1, 1)).getUTCDay();
+  const day = 1 + ((date.weekday - firstWeekday + 7) % 7) + (date.nth - 1) * 7;
+  const shifted = addDays({ year, month: date.month, day }, date.offsetDays);
+  return { month: shifted.month, day: shifted.day };
+}
+
+type LocalDate = Pick<NycLocalTime, 'year' | 'month' | 'day'>;
+
+function withinDates(date: LocalDate, from: SeasonDate, to: SeasonDate): boolean {
+  const key = date.month * 100 + date.day;
+  const start = resolveSeasonDate(from, date.year);
+  const end = resolveSeasonDate(to, date.year);
+  const startKey = start.month * 100 + start.day;
+  const endKey = end.month * 100 + end.day;
+  // Seasons like November ~ March wrap around the new year.
+  return startKey <= endKey ? key >= startKey && key <= endKey : key >= startKey || key <= endKey;
+}
+
+function closureOn(schedule: CourtSchedule, date: LocalDate): SeasonClosure | undefined {
+  return schedule.closures.find((c) => withinDates(date, c.from, c.to));
+}
+
+function inSeason(schedule: CourtSchedule, date: LocalDate): boolean {
+  return !schedule.season || withinDates(date, schedule.season.opens, schedule.season.closes);
+}
+
+/** Whether the court opens at all on this date (season and closures, not hours). */
+export function isOpenOnDate(schedule: CourtSchedule, date: LocalDate): boolean {
+  return inSeason(schedule, date) && !closureOn(schedule, date);
+}
+
+export function courtOpenInMonth(schedule: CourtSchedule, year: number, month: number): boolean {
+  for (let day = 1; day <= daysInMonth(year, month); day++) {
+    if (isOpenOnDate(schedule, { year, month, day })) return true;
+  }
+  return false;
+}
+
+function closingWindow(closes: ClosingTime, month: number): [number, number] {
+  switch (closes.kind) {
+    case 'fixed':
+      return [closes.minutes, closes.minutes];
+    case 'dusk':
+      return [DUSK_BY_MONTH[month - 1], DUSK_BY_MONTH[month - 1]];
+    case 'varies':
+      return [closes.earliest, closes.latest];
+  }
+}
+
+function formatClosingTime(closes: ClosingTime, month: number): string {
+  if (closes.kind === 'fixed') return formatClockTime(closes.minutes);
+  if (closes.kind === 'dusk') return `dusk (~${formatClockTime(DUSK_BY_MONTH[month - 1])})`;
+  return `${formatClockTime(closes.earliest)}–${formatClockTime(closes.latest)}`;
+}
+
+function formatSeasonDay({ month, day }: { month: number; day: number }): string {
+  return `${MONTHS[month - 1].slice(0, 3)} ${day}`;
+}
+
+export type OpenState = 'open' | 'closed' | 'unknown';
+
+export interface OpenStatus {
+  state: OpenState;
+  /** e.g. "Open now · until 8pm", "Closed for the season · reopens Apr 4". */
+  label: string;
+}
+
+export function courtOpenStatus(schedule: CourtSchedule, at: NycLocalTime): OpenStatus {
+  const { hours } = schedule;
+
+  // Still inside yesterday's session when it runs past midnight.
+  const yesterday = addDays(at, -1);
+  if (hours && isOpenOnDate(schedule, yesterday)) {
+    const [, latest] = closingWindow(hours.closes, yesterday.month);
+    if (latest > 1440 && at.minutes < latest - 1440) {
+      return { state: 'open', label: `Open now · until ${formatClosingTime(hours.closes, yesterday.month)}` };
+    }
+  }
+
+  const closure = closureOn(schedule, at);
+  if (closure) return { state: 'closed', label: `Closed for the ${closure.label}` };
+
+  if (schedule.season && !inSeason(schedule, at)) {
+    let reopens = resolveSeasonDate(schedule.season.opens, at.year);
+    if (reopens.month * 100 + reopens.day < at.month * 100 + at.day) {
+      reopens = resolveSeasonDate(schedule.season.opens, at.year + 1);
+    }
+    return { state: 'closed', label: `Closed for the season · reopens ${formatSeasonDay(reopens)}` };
+  }
+
+  if (!hours) return { state: 'unknown', label: 'Hours not listed' };
+
+  const opensLabel = `Closed · opens ${formatClockTime(hours.opens)}`;
+  const [earliest, latest] = closingWindow(hours.closes, at.month);
+  if (at.minutes < hours.opens) return { state: 'closed', label: opensLabel };
+  if (at.minutes < earliest) {
+    return { state: 'open', label: `Open now · until ${formatClosingTime(hours.closes, at.month)}` };
+  }
+  if (at.minutes < latest) return { state: 'unknown', label: 'Closing time varies by month' };
+  return { state: 'closed', label: opensLabel };
+}
+
+export type AvailabilityFilter =
+  | { kind: 'any' }
+  | { kind: 'now' }
+  | { kind: 'at'; weekday: number; minutes: number }
+  | { kind: 'month'; month: number };
+
+/** The next `weekday` at `minutes` from `now` (today if it is still ahead). */
+export function nextWeekdayAt(now: NycLocalTime, weekday: number, minutes: number): NycLocalTime {
+  let days = (weekday - now.weekday + 7) % 7;
+  if (days === 0 && minutes < now.minutes) days = 7;
+  return { ...addDays(now, days), minutes };
+}
+
+/** Courts we are unsure about stay visible; only a definite "closed" filters a court out. */
+export function matchesAvailability(
+  schedule: CourtSchedule,
+  filter: AvailabilityFilter,
+  now: NycLocalTime = nycLocalTime(new Date())
+): boolean {
+  switch (filter.kind) {
+    case 'any':
+      return true;
+    case 'now':
+      return courtOpenStatus(schedule, now).state !== 'closed';
+    case 'at':
+      return courtOpenStatus(schedule, nextWeekdayAt(now, filter.weekday, filter.minutes)).state !== 'closed';
+    case 'month': {
+      const year = filter.month >= now.month ? now.year : now.year + 1;
+      return courtOpenInMonth(schedule, year, filter.month);
+    }
+  }
+}
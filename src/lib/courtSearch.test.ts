@@ -0,0 +1,161 @@
+import { describe, expect, it } from 'vitest';
+import type { CourtData } from '@/types/courts';
+import { buildCourtSearchIndex, queryTerms, searchCourts, searchSnippet } from '@/lib/courtSearch';
+
+function court(id: number, fields: Partial<CourtData>): CourtData {
+  return {
+    id,
+    slug: `court-${id}`,
+    name: `Court ${id}`,
+    address: '',
+    borough: 'Manhattan',
+    surface: 'Hard',
+    surfaces: ['Hard'],
+    permitStatus: 'Required',
+    courts: 4,
+    datesOpen: 'All Year',
+    hours: '7am - 8pm',
+    schedule: { season: null, closures: [], hours: null, lights: false },
+    description: '',
+    amenities: [],
+    lat: 40.75,
+    lng: -73.98,
+    mapsEmbedUrl: null,
+    ...fields,
+  };
+}
+
+const RIVERSIDE = court(1, {
+  name: 'Riverside Park Clay Courts',
+  address: 'Riverside Dr & W 96th St',
+  surface: 'Clay',
+  surfaces: ['Clay'],
+  description: 'Floodlights on the back courts. Sign up at the shed.',
+});
+const MCCARREN = court(2, {
+  name: 'McCarren Park',
+  address: '80 Driggs Ave',
+  borough: 'Brooklyn',
+  description: 'Kids play here after school.',
+});
+const ERICSON = court(3, {
+  name: "Ericson's Café Courts",
+  borough: 'Queens',
+  description: 'Ten minutes from McCarren.',
+});
+
+const index = buildCourtSearchIndex([RIVERSIDE, MCCARREN, ERICSON]);
+const names = (query: string) => searchCourts(index, query).map((hit) => hit.court.name);
+
+describe('queryTerms', () => {
+  it('folds case, accents and apostrophes', () => {
+    expect(queryTerms("Ericson's CAFÉ")).toEqual(['ericsons', 'cafe']);
+  });
+
+  it('drops stop words unless that leaves nothing', () => {
+    expect(queryTerms('courts with lights near the park')).toEqual(['lights', 'park']);
+    expect(queryTerms('the courts')).toEqual(['the', 'courts']);
+  });
+});
+
+describe('searchCourts', () => {
+  it('matches nothing for an empty query', () => {
+    expect(searchCourts(index, '  ')).toEqual([]);
+  });
+
+  it('matches words exactly, as a prefix and as the end of a compound', () => {
+    expect(names('riverside')).toEqual([RIVERSIDE.name]);
+    expect(names('riv')).toEqual([RIVERSIDE.name]);
+    expect(names('lights')).toEqual([RIVERSIDE.name]);
+    // Too short to match the end of a word.
+    expect(names('ark')).toEqual([]);
+  });
+
+  it('needs every word of a multi-word query', () => {
+    expect(names('park')).toEqual([MCCARREN.name, RIVERSIDE.name]);
+    expect(names('park brooklyn')).toEqual([MCCARREN.name]);
+    expect(names('clay courts with lights')).toEqual([RIVERSIDE.name]);
+    expect(names('clay brooklyn')).toEqual([]);
+  });
+
+  it('ranks name matches above matches elsewhere, then by name', () => {
+    expect(names('mccarren')).toEqual([MCCARREN.name, ERICSON.name]);
+    const [first, second] = searchCourts(index, 'courts');
+    expect(first.score).toBe(second.score);
+    expect([first.court.name, second.court.name]).toEqual([ERICSON.name, RIVERSIDE.name]);
+  });
+
+  describe('typos', () => {
+    it('allows none in words under four letters', () => {
+      expect(names('cly')).toEqual([]);
+      expect(names('prk')).toEqual([]);
+    });
+
+    it('allows one in words of four to seven letters, counting a swap once', () => {
+      expect(names('caly')).toEqual([RIVERSIDE.name]);
+      expect(names('mccaren')).toEqual([MCCARREN.name, ERICSON.name]);
+      expect(names('mcarrn')).toEqual([]);
+    });
+
+    it('allows two from eight letters, also while the word is being typed', () => {
+      expect(names('rivresdie')).toEqual([RIVERSIDE.name]);
+      expect(names('rivresdie park')).toEqual([RIVERSIDE.name]);
+      expect(names('floodlihgts')).toEqual([RIVERSIDE.name]);
+      expect(names('rivxrsxdx')).toEqual([]);
+    });
+
+    it('only applies to words that match nothing as typed', () => {
+      // "clay" matches Riverside exactly, so it does not also find "play" at McCarren.
+      expect(names('clay')).toEqual([RIVERSIDE.name]);
+      expect(names('plai')).toEqual([MCCARREN.name]);
+    });
+  });
+
+  describe('highlights', () => {
+    it('covers whole words at their offsets in each field', () => {
+      const [hit] = searchCourts(index, 'river lights');
+      expect(hit.ranges).toEqual({ name: [[0, 9]], address: [[0, 9]], description: [[0, 11]] });
+      expect(RIVERSIDE.description.slice(0, 11)).toBe('Floodlights');
+    });
+
+    it('merges words found by several query words and keeps them in order', () => {
+      const [hit] = searchCourts(index, 'clay riv riverside');
+      expect(hit.ranges.name).toEqual([
+        [0, 9],
+        [15, 19],
+      ]);
+      expect(hit.ranges.surface).toEqual([[0, 4]]);
+    });
+
+    it('points at the original text, apostrophes and accents included', () => {
+      const [hit] = searchCourts(index, 'ericsons cafe');
+      expect(hit.ranges.name).toEqual([
+        [0, 9],
+        [10, 14],
+      ]);
+      expect(hit.ranges.name!.map(([start, end]) => ERICSON.name.slice(start, end))).toEqual(["Ericson's", 'Café']);
+    });
+  });
+});
+
+describe('searchSnippet', () => {
+  const text = 'Courts are resurfaced every spring. Floodlights stay on until 11pm on weeknights in summer.';
+
+  it('returns short text unchanged', () => {
+    expect(searchSnippet(text, [[36, 47]], 200)).toEqual({ text, ranges: [[36, 47]] });
+  });
+
+  it('cuts at word boundaries and shifts the ranges', () => {
+    const snippet = searchSnippet(
+      text,
+      [
+        [36, 47],
+        [81, 89],
+      ],
+      12
+    );
+    expect(snippet.text).toBe('…spring. Floodlights stay on…');
+    expect(snippet.ranges).toEqual([[9, 20]]);
+    expect(snippet.text.slice(9, 20)).toBe('Floodlights');
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Client-side court search over name, address, borough, surface, hours and local tips. Words
+ * match exactly, as a prefix (so results update while typing), as the end of a compound
+ * ("lights" in "Floodlights") or, when nothing matches that way, within a typo or two. Every hit
+ * carries the character ranges to highlight.
+ */
+
+import type { CourtData } from '@/types/courts';
+import type { CourtMatch } from '@/lib/courtFilters';
+
+export type SearchField = 'name' | 'address' | 'borough' | 'surface' | 'hours' | 'description';
+
+/** [start, end) offsets into the field's original text. */
+export type SearchRange = [number, number];
+
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 4,
+  borough: 2,
+  surface: 2,
+  address: 1.5,
+  hours: 1,
+  description: 1,
+};
+
+const EXACT_SCORE = 1;
+const PREFIX_SCORE = 0.8;
+const SUFFIX_SCORE = 0.6;
+const FUZZY_SCORE = 0.5;
+/** Shorter query words would match the ends of too many unrelated words. */
+const MIN_SUFFIX_LENGTH = 5;
+
+/** Ignored in queries with other words, so "courts with lights" still finds "lights". */
+const STOP_WORDS = new Set('a an and at court courts for in near of on the to with'.split(' '));
+
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:['’][\p{L}]+)?/gu;
+
+interface IndexedWord {
+  term: string;
+  field: SearchField;
+  range: SearchRange;
+}
+
+export interface CourtSearchIndex {
+  entries: { court: CourtData; words: IndexedWord[] }[];
+}
+
+export interface CourtSearchHit {
+  court: CourtData;
+  score: number;
+  ranges: Partial<Record<SearchField, SearchRange[]>>;
+}
+
+/** Lowercase, no accents or apostrophes: "Ericson's" → "ericsons". */
+function foldTerm(word: string): string {
+  return word
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f'’]/g, '')
+    .toLowerCase();
+}
+
+function words(text: string): { term: string; range: SearchRange }[] {
+  return Array.from(text.matchAll(WORD_PATTERN), (m) => ({
+    term: foldTerm(m[0]),
+    range: [m.index, m.index + m[0].length] as SearchRange,
+  }));
+}
+
+/** Edits a query word of this length may contain and still match. */
+function allowedTypos(length: number): number {
+  if (length >= 8) return 2;
+  return length >= 4 ? 1 : 0;
+}
+
+/** Optimal string alignment distance (adjacent swaps count once), or max + 1 once it exceeds max. */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let d = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d = Math.min(d, prevPrev[j - 2] + 1);
+      }
+      row.push(d);
+      rowMin = Math.min(rowMin, d);
+    }
+    if (rowMin > max) return max + 1;
+    prevPrev = prev;
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+function matchScore(query: string, term: string, allowTypos: boolean): number {
+  if (term === query) return EXACT_SCORE;
+  if (query.length >= 2 && term.startsWith(query)) return PREFIX_SCORE;
+  if (query.length >= MIN_SUFFIX_LENGTH && term.endsWith(query)) return SUFFIX_SCORE;
+  const typos = allowedTypos(query.length);
+  if (!allowTypos || typos === 0) return 0;
+  // Whole word, or the start of a longer word that is still being typed.
+  if (editDistance(query, term, typos) <= typos) return FUZZY_SCORE;
+  if (term.length > query.length && editDistance(query, term.slice(0, query.length), typos) <= typos) {
+    return FUZZY_SCORE * PREFIX_SCORE;
+  }
+  return 0;
+}
+
+export function buildCourtSearchIndex(courts: CourtData[]): CourtSearchIndex {
+  return {
+    entries: courts.map((court) => ({
+      court,
+      words: (Object.keys(FIELD_WEIGHTS) as SearchField[]).flatMap((field) =>
+        words(court[field]).map(({ term, range }) => ({ term, field, range }))
+      ),
+    })),
+  };
+}
+
+export function queryTerms(query: string): string[] {
+  const terms = words(query).map((w) => w.term);
+  const meaningful = terms.filter((term) => !STOP_WORDS.has(term));
+  return meaningful.length > 0 ? meaningful : terms;
+}
+
+/** Courts matching every query word, best first. An empty query matches nothing. */
+export function searchCourts(index: CourtSearchIndex, query: string): CourtSearchHit[] {
+  const terms = queryTerms(query);
+  if (terms.length === 0) return [];
+
+  // Typos only count for words that match nothing as typed: "clay" should not find "play".
+  const allowTypos = terms.map(
+    (term) => !index.entries.some(({ words }) => words.some((word) => matchScore(term, word.term, false) > 0))
+  );
+
+  const hits: CourtSearchHit[] = [];
+  for (const { court, words: courtWords } of index.entries) {
+    let score = 0;
+    const ranges: CourtSearchHit['ranges'] = {};
+    const matchedAll = terms.every((term, i) => {
+      let best = 0;
+      for (const word of courtWords) {
+        const s = matchScore(term, word.term, allowTypos[i]);
+        if (s === 0) continue;
+        best = Math.max(best, s * FIELD_WEIGHTS[word.field]);
+        (ranges[word.field] ??= []).push(word.range);
+      }
+      score += best;
+      return best > 0;
+    });
+    if (!matchedAll) continue;
+    for (const field of Object.keys(ranges) as SearchField[]) ranges[field] = mergeRanges(ranges[field]!);
+    hits.push({ court, score, ranges });
+  }
+  return hits.sort((a, b) => b.score - a.score || a.court.name.localeCompare(b.court.name));
+}
+
+function mergeRanges(ranges: SearchRange[]): SearchRange[] {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  const merged: SearchRange[] = [];
+  for (const [start, end] of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) last[1] = Math.max(last[1], end);
+    else merged.push([start, end]);
+  }
+  return merged;
+}
+
+/**
+ * Up to `radius` characters either side of the first highlight, cut at word boundaries, with the
+ * ranges shifted to match. Ellipses mark the cut ends.
+ */
+export function searchSnippet(
+  text: string,
+  ranges: SearchRange[],
+  radius = 60
+): { text: string; ranges: SearchRange[] } {
+  const first = ranges[0];
+  if (!first) return { text, ranges };
+  let start = Math.max(0, first[0] - radius);
+  let end = Math.min(text.length, first[1] + radius);
+  if (start > 0) {
+    const wordStart = text.indexOf(' ', start) + 1;
+    if (wordStart > 0 && wordStart <= first[0]) start = wordStart;
+  }
+  if (end < text.length) {
+    const wordEnd = text.lastIndexOf(' ', end);
+    if (wordEnd >= first[1]) end = wordEnd;
+  }
+
+  const prefix = start > 0 ? '…' : '';
+  const shift = prefix.length - start;
+  return {
+    text: `${prefix}${text.slice(start, end).replace(/\s/g, ' ')}${end < text.length ? '…' : ''}`,
+    ranges: ranges
+      .filter(([s, e]) => s >= start && e <= end)
+      .map(([s, e]) => [s + shift, e + shift] as SearchRange),
+  };
+}
+
+/** Attach each match's search hit, keeping the matches' order. */
+export function withSearchHits(matches: CourtMatch[], hits: CourtSearchHit[]): CourtMatch[] {
+  const byCourt = new Map(hits.map((hit) => [hit.court.id, hit]));
+  return matches.map((match) => ({ ...match, search: byCourt.get(match.court.id) }));
+}
@@ -0,0 +1,68 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { CsvParseError, parseCsv } from '@/lib/csv';
+
+describe('parseCsv', () => {
+  it('splits records and fields', () => {
+    expect(parseCsv('a,b,c\n1,2,3\n')).toEqual([
+      ['a', 'b', 'c'],
+      ['1', '2', '3'],
+    ]);
+  });
+
+  it('keeps commas and line breaks inside quoted fields', () => {
+    expect(parseCsv('name,tips\nRiverside,"Bring water,\nsign up early"\n')).toEqual([
+      ['name', 'tips'],
+      ['Riverside', 'Bring water,\nsign up early'],
+    ]);
+  });
+
+  it('unescapes doubled quotes', () => {
+    expect(parseCsv('"The ""Bubble""",""\n')).toEqual([['The "Bubble"', '']]);
+  });
+
+  it('keeps quotes inside unquoted fields literally', () => {
+    expect(parseCsv('5\'6" net,x\n')).toEqual([['5\'6" net', 'x']]);
+  });
+
+  it('strips a UTF-8 BOM', () => {
+    expect(parseCsv('\uFEFFName,Borough\r\nA,Queens\r\n')).toEqual([
+      ['Name', 'Borough'],
+      ['A', 'Queens'],
+    ]);
+  });
+
+  it('accepts CRLF, bare CR and a missing final line break', () => {
+    expect(parseCsv('a,b\r\n1,2\r3,4')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+      ['3', '4'],
+    ]);
+  });
+
+  it('keeps CRLF inside quoted fields and empty fields', () => {
+    expect(parseCsv('"x\r\ny",,\r\n')).toEqual([['x\r\ny', '', '']]);
+  });
+
+  it('reports an unterminated quote with the line it opened on', () => {
+    let error: unknown;
+    try {
+      parseCsv('a,b\n1,"open\nstill open\n');
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(CsvParseError);
+    expect((error as CsvParseError).line).toBe(2);
+  });
+
+  it('parses the court sheet', () => {
+    const text = readFileSync(join(process.cwd(), 'src/data/courts.csv'), 'utf8');
+    const rows = parseCsv(text);
+    // Header plus one record per court; every record has the sheet's 12 columns.
+    expect(rows).toHaveLength(57);
+    expect(rows[0]).toHaveLength(12);
+    expect(rows[0][0]).toBe('Name');
+    expect(rows.every((row) => row.length === 12)).toBe(true);
+  });
+});
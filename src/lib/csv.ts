@@ -0,0 +1,73 @@
+/**
+ * RFC 4180 CSV parsing: quoted fields may contain commas, line breaks and `""` escaped quotes.
+ * Also accepts what spreadsheet exports add on top of the RFC — a UTF-8 BOM, bare `\n` or `\r`
+ * line endings and a missing final line break.
+ */
+
+export class CsvParseError extends Error {
+  constructor(
+    message: string,
+    readonly line: number
+  ) {
+    super(`${message} (line ${line})`);
+    this.name = 'CsvParseError';
+  }
+}
+
+/** Every record as an array of raw (untrimmed) fields. A trailing empty line is not a record. */
+export function parseCsv(text: string): string[][] {
+  const src = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let quoteOpenedOn = 0;
+
+  const endField = () => {
+    record.push(field);
+    field = '';
+  };
+  const endRecord = () => {
+    endField();
+    records.push(record);
+    record = [];
+  };
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+
+    if (inQuotes) {
+      if (ch === '"') {
+        if (src[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (ch === '\n' || (ch === '\r' && src[i + 1] !== '\n')) line++;
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"' && field === '') {
+      inQuotes = true;
+      quoteOpenedOn = line;
+    } else if (ch === ',') {
+      endField();
+    } else if (ch === '\r' || ch === '\n') {
+      if (ch === '\r' && src[i + 1] === '\n') i++;
+      line++;
+      endRecord();
+    } else {
+      // Quotes inside an unquoted field are kept literally, as spreadsheets do.
+      field += ch;
+    }
+  }
+
+  if (inQuotes) throw new CsvParseError('Unterminated quoted field', quoteOpenedOn);
+  if (field !== '' || record.length > 0) endRecord();
+  return records;
+}
@@ -0,0 +1,33 @@
+/** Coordinates and distances for "near me" search. */
+
+export type LatLng = { lat: number; lng: number };
+
+/** Generous bounding box around the five boroughs. */
+export const NYC_BOUNDS = { south: 40.47, north: 40.93, west: -74.27, east: -73.68 };
+
+/** The court catalogue treats a coordinate outside the box as a typo in the sheet. */
+export function inNyc({ lat, lng }: LatLng): boolean {
+  return (
+    lat >= NYC_BOUNDS.south &&
+    lat <= NYC_BOUNDS.north &&
+    lng >= NYC_BOUNDS.west &&
+    lng <= NYC_BOUNDS.east
+  );
+}
+
+const EARTH_RADIUS_MILES = 3958.8;
+
+/** Great-circle (haversine) distance; street distance is typically a little longer. */
+export function distanceMiles(a: LatLng, b: LatLng): number {
+  const rad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = rad(b.lat - a.lat);
+  const dLng = rad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(rad(a.lat)) * Math.cos(rad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/** "0.3 mi", "4.8 mi", "12 mi". */
+export function formatDistance(miles: number): string {
+  if (miles < 0.1) return '< 0.1 mi';
+  return `${miles < 10 ? miles.toFixed(1) : Math.round(miles)} mi`;
+}
@@ -0,0 +1,54 @@
+import { NYC_BOUNDS, inNyc, type LatLng } from '@/lib/geo';
+
+/** OpenStreetMap's key-free geocoder; light, user-triggered use only. */
+const NOMINATIM_SEARCH_URL = 'https://nominatim.openstreetmap.org/search';
+
+const COORDINATES_PATTERN = /^\s*(-?\d{1,2}(?:\.\d+)?)\s*,\s*(-?\d{1,3}(?:\.\d+)?)\s*$/;
+
+export interface GeocodedPlace {
+  position: LatLng;
+  label: string;
+}
+
+export class GeocodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GeocodeError';
+  }
+}
+
+/**
+ * An address, intersection or "lat, lng" pair inside NYC. Resolves to null when nothing in the
+ * city matches; throws `GeocodeError` when the lookup itself fails.
+ */
+export async function geocodeNycAddress(query: string): Promise<GeocodedPlace | null> {
+  const coordinates = COORDINATES_PATTERN.exec(query);
+  if (coordinates) {
+    const position = { lat: Number(coordinates[1]), lng: Number(coordinates[2]) };
+    return inNyc(position) ? { position, label: query.trim() } : null;
+  }
+
+  const params = new URLSearchParams({
+    q: query,
+    format: 'jsonv2',
+    limit: '1',
+    countrycodes: 'us',
+    viewbox: `${NYC_BOUNDS.west},${NYC_BOUNDS.north},${NYC_BOUNDS.east},${NYC_BOUNDS.south}`,
+    bounded: '1',
+  });
+  let res: Response;
+  try {
+    res = await fetch(`${NOMINATIM_SEARCH_URL}?${params}`, { headers: { Accept: 'application/json' } });
+  } catch {
+    throw new GeocodeError('Could not reach the address lookup. Check your connection.');
+  }
+  if (!res.ok) throw new GeocodeError(`Address lookup failed (${res.status}).`);
+
+  const results = (await res.json()) as { lat: string; lon: string; display_name: string }[];
+  const first = results[0];
+  if (!first) return null;
+  const position = { lat: Number(first.lat), lng: Number(first.lon) };
+  if (!inNyc(position)) return null;
+  // "Bryant Park, 6th Avenue, Manhattan, ..." → "Bryant Park, 6th Avenue"
+  return { position, label: first.display_name.split(',').slice(0, 2).join(',').trim() };
+}
@@ -0,0 +1,99 @@
+import { Loader } from '@googlemaps/js-api-loader';
+import { MarkerClusterer, type Renderer } from '@googlemaps/markerclusterer';
+import type { MapMarker, MapPinIcon, MapProvider, MapView } from '@/lib/mapProvider';
+
+const MAP_STYLES: google.maps.MapTypeStyle[] = [
+  { featureType: 'poi', elementType: 'labels', stylers: [{ visibility: 'off' }] },
+  { featureType: 'road', elementType: 'geometry', stylers: [{ color: '#f5f5f5' }] },
+  { featureType: 'landscape', elementType: 'geometry', stylers: [{ color: '#f0f0f0' }] },
+  { featureType: 'water', elementType: 'geometry', stylers: [{ color: '#e0e0e0' }] },
+  { featureType: 'administrative', elementType: 'labels', stylers: [{ visibility: 'simplified' }] },
+  { featureType: 'transit', stylers: [{ visibility: 'off' }] },
+];
+
+/** One loader per page: the Maps script can only be injected once. */
+let loader: Loader | null = null;
+
+class GoogleMapMarker implements MapMarker {
+  constructor(readonly native: google.maps.Marker) {}
+
+  setIcon(icon: MapPinIcon) {
+    this.native.setIcon(markerIcon(icon));
+  }
+}
+
+function markerIcon({ url, size }: MapPinIcon): google.maps.Icon {
+  return { url, scaledSize: new google.maps.Size(size, size) };
+}
+
+function clusterRenderer(color: string): Renderer {
+  const url = `data:image/svg+xml;charset=UTF-8,${encodeURIComponent(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="40" height="40" viewBox="0 0 40 40">
+      <circle cx="20" cy="20" r="17" fill="${color}" fill-opacity="0.9" stroke="white" stroke-width="3"/>
+    </svg>`
+  )}`;
+  return {
+    render: ({ count, position }) =>
+      new google.maps.Marker({
+        position,
+        icon: { url, scaledSize: new google.maps.Size(40, 40) },
+        label: { text: String(count), color: 'white', fontSize: '13px', fontWeight: '600' },
+        title: `${count} courts`,
+        zIndex: Number(google.maps.Marker.MAX_ZINDEX) + count,
+      }),
+  };
+}
+
+export const googleMapProvider: MapProvider = {
+  name: 'google',
+
+  async mount(container, { center, zoom, clusterColor }): Promise<MapView> {
+    const apiKey = process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY;
+    if (!apiKey) throw new Error('NEXT_PUBLIC_GOOGLE_MAPS_API_KEY is not set');
+    loader ??= new Loader({ apiKey, version: 'weekly' });
+    await loader.importLibrary('maps');
+    await loader.importLibrary('marker');
+
+    const map = new google.maps.Map(container, { center, zoom, styles: MAP_STYLES });
+    const clusterer = new MarkerClusterer({ map, renderer: clusterRenderer(clusterColor) });
+    const infoWindow = new google.maps.InfoWindow();
+    const natives = (markers: MapMarker[]) => markers.map((m) => (m as GoogleMapMarker).native);
+
+    return {
+      createMarker({ position, title, icon, onClick }) {
+        const marker = new google.maps.Marker({ position, title, icon: markerIcon(icon) });
+        marker.addListener('click', onClick);
+        return new GoogleMapMarker(marker);
+      },
+      updateMarkers(added, removed) {
+        if (removed.length > 0) {
+          natives(removed).forEach((m) => google.maps.event.clearInstanceListeners(m));
+          clusterer.removeMarkers(natives(removed), true);
+        }
+        if (added.length > 0) clusterer.addMarkers(natives(added), true);
+        clusterer.render();
+      },
+      openInfoWindow(marker, html) {
+        infoWindow.setContent(html);
+        infoWindow.open(map, (marker as GoogleMapMarker).native);
+      },
+      focusOn(center, zoom) {
+        map.panTo(center);
+        map.setZoom(zoom);
+      },
+      onViewportChange(listener) {
+        map.addListener('idle', () => {
+          const center = map.getCenter();
+          const zoom = map.getZoom();
+          if (center && zoom !== undefined) listener({ center: center.toJSON(), zoom });
+        });
+      },
+      destroy() {
+        infoWindow.close();
+        clusterer.clearMarkers();
+        clusterer.setMap(null);
+        google.maps.event.clearInstanceListeners(map);
+      },
+    };
+  },
+};
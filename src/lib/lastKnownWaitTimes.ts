@@ -0,0 +1,32 @@
+import type { WaitTime } from '@/lib/supabase';
+
+/** The last wait times loaded from the server, shown (marked stale) when the app is offline. */
+export interface LastKnownWaitTimes {
+  savedAt: string;
+  waitTimes: { [courtId: string]: WaitTime | null };
+}
+
+const STORAGE_KEY = 'smartcourt_last_wait_times';
+
+export function saveLastKnownWaitTimes(waitTimes: LastKnownWaitTimes['waitTimes']): void {
+  try {
+    const snapshot: LastKnownWaitTimes = { savedAt: new Date().toISOString(), waitTimes };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(snapshot));
+  } catch {
+    // Storage full or disabled; the offline fallback is best-effort.
+  }
+}
+
+export function loadLastKnownWaitTimes(): LastKnownWaitTimes | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw) as Partial<LastKnownWaitTimes>;
+    if (typeof parsed.savedAt !== 'string' || !parsed.waitTimes || typeof parsed.waitTimes !== 'object') {
+      return null;
+    }
+    return { savedAt: parsed.savedAt, waitTimes: parsed.waitTimes };
+  } catch {
+    return null;
+  }
+}
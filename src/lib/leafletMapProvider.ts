@@ -0,0 +1,104 @@
+import 'leaflet/dist/leaflet.css';
+import 'leaflet.markercluster/dist/MarkerCluster.css';
+import type * as Leaflet from 'leaflet';
+import type { MapMarker, MapPinIcon, MapProvider, MapView } from '@/lib/mapProvider';
+
+/**
+ * Raster tiles, `{z}/{x}/{y}` style. By default they come from `public/tiles/`, filled by
+ * `npm run tiles:fetch`, so the map does not depend on an outside tile server. Point
+ * `NEXT_PUBLIC_MAP_TILE_URL` at another tile server to use that instead.
+ */
+const TILE_URL = process.env.NEXT_PUBLIC_MAP_TILE_URL || '/tiles/{z}/{x}/{y}.png';
+const TILE_ATTRIBUTION =
+  process.env.NEXT_PUBLIC_MAP_TILE_ATTRIBUTION ||
+  '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+/** Highest zoom the tile set has; the map enlarges those tiles when zoomed in further. */
+const TILE_MAX_ZOOM = Number(process.env.NEXT_PUBLIC_MAP_TILE_MAX_ZOOM) || 15;
+
+class LeafletMapMarker implements MapMarker {
+  constructor(
+    readonly native: Leaflet.Marker,
+    private readonly L: typeof Leaflet
+  ) {}
+
+  setIcon(icon: MapPinIcon) {
+    this.native.setIcon(markerIcon(this.L, icon));
+  }
+}
+
+function markerIcon(L: typeof Leaflet, { url, size }: MapPinIcon): Leaflet.Icon {
+  return L.icon({
+    iconUrl: url,
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2],
+    popupAnchor: [0, -size / 2],
+  });
+}
+
+/** Leaflet itself, plus the cluster plugin, which only knows how to extend the global `L`. */
+async function loadLeaflet(): Promise<typeof Leaflet> {
+  const L = (await import('leaflet')).default;
+  (window as unknown as { L: typeof Leaflet }).L = L;
+  await import('leaflet.markercluster');
+  return L;
+}
+
+export const leafletMapProvider: MapProvider = {
+  name: 'leaflet',
+
+  async mount(container, { center, zoom, clusterColor }): Promise<MapView> {
+    const L = await loadLeaflet();
+    const map = L.map(container, { center, zoom });
+    L.tileLayer(TILE_URL, {
+      attribution: TILE_ATTRIBUTION,
+      maxNativeZoom: TILE_MAX_ZOOM,
+      maxZoom: 19,
+    }).addTo(map);
+
+    const clusters = L.markerClusterGroup({
+      showCoverageOnHover: false,
+      iconCreateFunction: (cluster) =>
+        L.divIcon({
+          className: '',
+          iconSize: L.point(40, 40),
+          html: `<div style="display: flex; width: 40px; height: 40px; align-items: center; justify-content: center; border-radius: 9999px; border: 3px solid white; background: ${clusterColor}; opacity: 0.9; color: white; font: 600 13px Arial, sans-serif;">${cluster.getChildCount()}</div>`,
+        }),
+    });
+    map.addLayer(clusters);
+    const popup = L.popup({ maxWidth: 320 });
+    const natives = (markers: MapMarker[]) => markers.map((m) => (m as LeafletMapMarker).native);
+
+    return {
+      createMarker({ position, title, icon, onClick }) {
+        const marker = L.marker(position, { title, icon: markerIcon(L, icon) });
+        marker.on('click', onClick);
+        return new LeafletMapMarker(marker, L);
+      },
+      updateMarkers(added, removed) {
+        if (removed.length > 0) {
+          natives(removed).forEach((m) => m.off());
+          clusters.removeLayers(natives(removed));
+        }
+        if (added.length > 0) clusters.addLayers(natives(added));
+      },
+      openInfoWindow(marker, html) {
+        popup
+          .setLatLng((marker as LeafletMapMarker).native.getLatLng())
+          .setContent(html)
+          .openOn(map);
+      },
+      focusOn(center, zoom) {
+        map.setView(center, zoom);
+      },
+      onViewportChange(listener) {
+        map.on('moveend', () => {
+          const { lat, lng } = map.getCenter();
+          listener({ center: { lat, lng }, zoom: map.getZoom() });
+        });
+      },
+      destroy() {
+        map.remove();
+      },
+    };
+  },
+};
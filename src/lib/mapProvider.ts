@@ -0,0 +1,87 @@
+/**
+ * The court map talks to this interface only, so markers, filters and info windows work the same
+ * on Google Maps and on the key-free Leaflet map. Implementations load their library on demand.
+ */
+
+import type { LatLng } from '@/lib/geo';
+
+export type MapProviderName = 'google' | 'leaflet';
+
+export const NYC_MAP_CENTER: LatLng = { lat: 40.7902065, lng: -73.9621475 };
+
+/** Square image icon, e.g. an SVG data URL. */
+export interface MapPinIcon {
+  url: string;
+  size: number;
+}
+
+/** Opaque handle to a provider's marker. */
+export interface MapMarker {
+  setIcon(icon: MapPinIcon): void;
+}
+
+export interface MapMarkerOptions {
+  position: LatLng;
+  title: string;
+  icon: MapPinIcon;
+  onClick: () => void;
+}
+
+export interface MapViewport {
+  center: LatLng;
+  zoom: number;
+}
+
+/** Equal to within what a URL keeps (4 decimals is about 10 m). */
+export function sameViewport(a: MapViewport | null, b: MapViewport | null): boolean {
+  if (!a || !b) return a === b;
+  return (
+    Math.abs(a.center.lat - b.center.lat) < 1e-4 &&
+    Math.abs(a.center.lng - b.center.lng) < 1e-4 &&
+    Math.round(a.zoom) === Math.round(b.zoom)
+  );
+}
+
+export interface MapMountOptions {
+  center: LatLng;
+  zoom: number;
+  /** Fill of the cluster bubbles shown at low zoom. */
+  clusterColor: string;
+}
+
+/** A mounted map. Markers are clustered at low zoom by every provider. */
+export interface MapView {
+  /** Creates a marker without showing it; pass it to `updateMarkers`. */
+  createMarker(options: MapMarkerOptions): MapMarker;
+  /** Adds and removes markers in one batch, then redraws clusters once. */
+  updateMarkers(added: MapMarker[], removed: MapMarker[]): void;
+  /** Shows `html` in the map's single info window, anchored at `marker`. */
+  openInfoWindow(marker: MapMarker, html: string): void;
+  focusOn(center: LatLng, zoom: number): void;
+  /** Called whenever the map settles after a pan or zoom, by the user or by `focusOn`. */
+  onViewportChange(listener: (viewport: MapViewport) => void): void;
+  destroy(): void;
+}
+
+export interface MapProvider {
+  name: MapProviderName;
+  /** Rejects when the provider's library or credentials fail to load. */
+  mount(container: HTMLElement, options: MapMountOptions): Promise<MapView>;
+}
+
+function isMapProviderName(value: string | undefined): value is MapProviderName {
+  return value === 'google' || value === 'leaflet';
+}
+
+/** `NEXT_PUBLIC_MAP_PROVIDER` wins; otherwise Google when an API key is set, else Leaflet. */
+export function configuredMapProvider(): MapProviderName {
+  const forced = process.env.NEXT_PUBLIC_MAP_PROVIDER;
+  if (isMapProviderName(forced)) return forced;
+  const key = process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY;
+  return key && key !== 'YOUR_API_KEY_HERE' ? 'google' : 'leaflet';
+}
+
+export async function loadMapProvider(name: MapProviderName): Promise<MapProvider> {
+  if (name === 'google') return (await import('@/lib/googleMapProvider')).googleMapProvider;
+  return (await import('@/lib/leafletMapProvider')).leafletMapProvider;
+}
@@ -0,0 +1,55 @@
+/** Routes behind the mobile tab bar and the sign-up sheet screens. */
+
+import { signupSheetCourtBySlug, type SignupSheetCourt } from '@/data/signupSheetCourts';
+
+export type MobileTab = 'home' | 'courts' | 'map' | 'sheets' | 'more';
+
+export const MOBILE_TAB_PATHS: Record<MobileTab, string> = {
+  home: '/',
+  sheets: '/sheets',
+  courts: '/courts',
+  map: '/map',
+  more: '/more',
+};
+
+/** Tabs whose screens read the Court Finder filters from the URL. */
+export const COURT_FINDER_TABS: MobileTab[] = ['courts', 'map'];
+
+/** The tab a pathname belongs to; nested routes such as `/sheets/…` belong to their first segment. */
+export function mobileTabForPath(pathname: string): MobileTab {
+  const root = `/${pathname.split('/')[1] ?? ''}`;
+  const tabs = Object.keys(MOBILE_TAB_PATHS) as MobileTab[];
+  return tabs.find((tab) => MOBILE_TAB_PATHS[tab] === root) ?? 'home';
+}
+
+export type SignupSheetScreen =
+  | { view: 'list' }
+  | { view: 'detail'; court: SignupSheetCourt }
+  | { view: 'report'; court: SignupSheetCourt };
+
+export function signupSheetPath(screen: SignupSheetScreen): string {
+  switch (screen.view) {
+    case 'list':
+      return '/sheets';
+    case 'detail':
+      return `/sheets/${screen.court.slug}`;
+    case 'report':
+      return `/sheets/${screen.court.slug}/report`;
+  }
+}
+
+/** The screen for a `/sheets/…` pathname, or null for anything else (including unknown courts). */
+export function signupSheetScreenForPath(pathname: string): SignupSheetScreen | null {
+  const [, root, slug, action, ...rest] = pathname.split('/');
+  if (root !== 'sheets' || rest.length > 0) return null;
+  if (!slug) return { view: 'list' };
+  const court = signupSheetCourtBySlug(slug);
+  if (!court) return null;
+  if (action === undefined) return { view: 'detail', court };
+  return action === 'report' ? { view: 'report', court } : null;
+}
+
+/** Where a sign-up sheet screen's back button leads. */
+export function parentSignupSheetScreen(screen: SignupSheetScreen): SignupSheetScreen {
+  return screen.view === 'report' ? { view: 'detail', court: screen.court } : { view: 'list' };
+}
@@ -0,0 +1,78 @@
+/** Wall-clock time in New York, independent of the browser's or server's time zone. */
+
+export const NYC_TIME_ZONE = 'America/New_York';
+
+export const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export const MONTHS = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December',
+];
+
+export interface NycLocalTime {
+  year: number;
+  /** 1-12 */
+  month: number;
+  day: number;
+  /** 0 = Sunday */
+  weekday: number;
+  /** Minutes since local midnight. */
+  minutes: number;
+}
+
+const formatter = new Intl.DateTimeFormat('en-US', {
+  timeZone: NYC_TIME_ZONE,
+  year: 'numeric',
+  month: 'numeric',
+  day: 'numeric',
+  hour: 'numeric',
+  minute: 'numeric',
+  hourCycle: 'h23',
+  weekday: 'long',
+});
+
+export function nycLocalTime(date: Date): NycLocalTime {
+  const parts = formatter.formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value;
+  const weekday = WEEKDAYS.indexOf(part('weekday') ?? '');
+  return {
+    year: Number(part('year')),
+    month: Number(part('month')),
+    day: Number(part('day')),
+    weekday: weekday >= 0 ? weekday : date.getDay(),
+    minutes: (Number(part('hour')) % 24) * 60 + Number(part('minute')),
+  };
+}
+
+/** Calendar arithmetic on a local date (no time zone involved). */
+export function addDays(
+  { year, month, day }: Pick<NycLocalTime, 'year' | 'month' | 'day'>,
+  days: number
+): Pick<NycLocalTime, 'year' | 'month' | 'day' | 'weekday'> {
+  const d = new Date(Date.UTC(year, month - 1, day + days));
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate(), weekday: d.getUTCDay() };
+}
+
+export function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/** "7am", "3:30pm", "12am"; minutes past midnight of the next day wrap around. */
+export function formatClockTime(minutes: number): string {
+  const m = ((minutes % 1440) + 1440) % 1440;
+  const hour = Math.floor(m / 60);
+  const minute = m % 60;
+  const suffix = hour < 12 ? 'am' : 'pm';
+  const h = hour % 12 === 0 ? 12 : hour % 12;
+  return minute === 0 ? `${h}${suffix}` : `${h}:${String(minute).padStart(2, '0')}${suffix}`;
+}
@@ -0,0 +1,125 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  isOfflineError,
+  newReportId,
+  sendQueuedReports,
+  type QueuedReport,
+  type QueuedReportKind,
+  type ReportQueueStore,
+} from '@/lib/reportQueue';
+
+const LATER = '2999-01-01T00:00:00Z';
+const EARLIER = '2000-01-01T00:00:00Z';
+
+/** In-memory queue that lists entries in key order, like the IndexedDB index. */
+function fakeStore(entries: Omit<QueuedReport<string>, 'queuedAt'>[]) {
+  const queued = entries.map((entry) => ({ ...entry, queuedAt: EARLIER }));
+  const store: ReportQueueStore = {
+    list: async <T,>(kind: QueuedReportKind) =>
+      queued.filter((entry) => entry.kind === kind).sort((a, b) => a.key - b.key) as QueuedReport<T>[],
+    remove: async (key) => {
+      queued.splice(
+        queued.findIndex((entry) => entry.key === key),
+        1
+      );
+    },
+  };
+  return { store, remaining: () => queued.map((entry) => entry.payload) };
+}
+
+const waitTime = (key: number, payload: string, expiresAt = LATER) => ({
+  key,
+  kind: 'wait_time' as const,
+  payload,
+  expiresAt,
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('isOfflineError', () => {
+  it.each([
+    new TypeError('Failed to fetch'),
+    new TypeError('NetworkError when attempting to fetch resource.'),
+    new TypeError('Load failed'),
+    { message: 'TypeError: Network request failed', details: '', hint: '', code: '' },
+    'TypeError: Failed to fetch',
+  ])('treats %j as offline', (err) => {
+    expect(isOfflineError(err)).toBe(true);
+  });
+
+  it.each([
+    new Error('new row violates row-level security policy for table "wait_times"'),
+    { message: 'duplicate key value violates unique constraint "wait_times_pkey"', code: '23505' },
+    null,
+    undefined,
+  ])('treats %j as a rejected report', (err) => {
+    expect(isOfflineError(err)).toBe(false);
+  });
+
+  it('trusts the browser when it says it is offline', () => {
+    vi.stubGlobal('navigator', { onLine: false });
+    expect(isOfflineError(new Error('Internal Server Error'))).toBe(true);
+  });
+});
+
+describe('newReportId', () => {
+  it('makes distinct v4 UUIDs', () => {
+    const ids = Array.from({ length: 20 }, newReportId);
+    for (const id of ids) {
+      expect(id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+    }
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+});
+
+describe('sendQueuedReports', () => {
+  it('sends reports of its kind in the order they were queued', async () => {
+    const { store, remaining } = fakeStore([
+      waitTime(3, 'third'),
+      waitTime(1, 'first'),
+      { key: 2, kind: 'signup_sheet', payload: 'sheet', expiresAt: LATER },
+      waitTime(4, 'fourth'),
+    ]);
+    const sent: string[] = [];
+    await expect(sendQueuedReports<string>(store, 'wait_time', async (p) => void sent.push(p))).resolves.toBe(3);
+    expect(sent).toEqual(['first', 'third', 'fourth']);
+    expect(remaining()).toEqual(['sheet']);
+  });
+
+  it('drops expired reports without sending them', async () => {
+    const { store, remaining } = fakeStore([waitTime(1, 'stale', EARLIER), waitTime(2, 'fresh')]);
+    const send = vi.fn(async () => {});
+    await expect(sendQueuedReports(store, 'wait_time', send)).resolves.toBe(1);
+    expect(send.mock.calls).toEqual([['fresh']]);
+    expect(remaining()).toEqual([]);
+  });
+
+  it('drops reports the server rejects and goes on', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { store, remaining } = fakeStore([waitTime(1, 'bad'), waitTime(2, 'good')]);
+    const sent: string[] = [];
+    const send = async (payload: string) => {
+      if (payload === 'bad') throw { message: 'violates check constraint', code: '23514' };
+      sent.push(payload);
+    };
+    await expect(sendQueuedReports(store, 'wait_time', send)).resolves.toBe(1);
+    expect(sent).toEqual(['good']);
+    expect(remaining()).toEqual([]);
+    expect(warn).toHaveBeenCalledOnce();
+  });
+
+  it('keeps the failed report and everything after it while offline', async () => {
+    const { store, remaining } = fakeStore([waitTime(1, 'first'), waitTime(2, 'second'), waitTime(3, 'third')]);
+    const send = async (payload: string) => {
+      if (payload === 'second') throw new TypeError('Failed to fetch');
+    };
+    await expect(sendQueuedReports(store, 'wait_time', send)).resolves.toBe(1);
+    expect(remaining()).toEqual(['second', 'third']);
+
+    await expect(sendQueuedReports(store, 'wait_time', async () => {})).resolves.toBe(2);
+    expect(remaining()).toEqual([]);
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Reports submitted while offline, kept in IndexedDB until they can be sent.
+ * The app flushes the queue on load and whenever the browser comes back online.
+ */
+
+export type QueuedReportKind = 'wait_time' | 'signup_sheet';
+
+export interface QueuedReport<T = unknown> {
+  key: number;
+  kind: QueuedReportKind;
+  payload: T;
+  queuedAt: string;
+  /** Reports past their expiry are dropped instead of sent. */
+  expiresAt: string;
+}
+
+const DB_NAME = 'smartcourt';
+const DB_VERSION = 1;
+const STORE = 'queued_reports';
+const CHANGE_EVENT = 'smartcourt:report-queue';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const store = req.result.createObjectStore(STORE, { keyPath: 'key', autoIncrement: true });
+        store.createIndex('kind', 'kind');
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    }).catch((err) => {
+      dbPromise = null;
+      throw err;
+    });
+  }
+  return dbPromise;
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  return request(run(db.transaction(STORE, mode).objectStore(STORE)));
+}
+
+function notifyChange(): void {
+  window.dispatchEvent(new Event(CHANGE_EVENT));
+}
+
+/** True when IndexedDB exists (not during SSR, not in some private modes). */
+export function canQueueReports(): boolean {
+  return typeof window !== 'undefined' && typeof indexedDB !== 'undefined';
+}
+
+/**
+ * Whether a failed request looks like a lost connection rather than a rejected report.
+ * Supabase surfaces fetch failures as `TypeError: Failed to fetch` (Chrome),
+ * `NetworkError when attempting to fetch resource` (Firefox) or `Load failed` (Safari).
+ */
+export function isOfflineError(err: unknown): boolean {
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return true;
+  const message =
+    err && typeof err === 'object' && 'message' in err
+      ? String((err as { message: unknown }).message)
+      : String(err);
+  return /failed to fetch|networkerror|load failed|network request failed/i.test(message);
+}
+
+/** RFC 4122 v4 id; unlike `crypto.randomUUID()` this also works on non-secure origins. */
+export function newReportId(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+export async function queueReport<T>(
+  kind: QueuedReportKind,
+  payload: T,
+  expiresAt: string
+): Promise<void> {
+  await withStore('readwrite', (store) =>
+    store.add({ kind, payload, queuedAt: new Date().toISOString(), expiresAt })
+  );
+  notifyChange();
+}
+
+export async function queuedReports<T>(kind: QueuedReportKind): Promise<QueuedReport<T>[]> {
+  if (!canQueueReports()) return [];
+  return withStore('readonly', (store) => store.index('kind').getAll(kind)) as Promise<
+    QueuedReport<T>[]
+  >;
+}
+
+async function removeQueuedReport(key: number): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(key));
+}
+
+/** Calls `listener` after any tab-local change to the queue. */
+export function subscribeReportQueue(listener: () => void): () => void {
+  window.addEventListener(CHANGE_EVENT, listener);
+  return () => window.removeEventListener(CHANGE_EVENT, listener);
+}
+
+/** Where queued reports live: IndexedDB in the app, an in-memory fake in tests. */
+export interface ReportQueueStore {
+  list<T>(kind: QueuedReportKind): Promise<QueuedReport<T>[]>;
+  remove(key: number): Promise<void>;
+}
+
+const indexedDbStore: ReportQueueStore = { list: queuedReports, remove: removeQueuedReport };
+
+/**
+ * One pass over the queue: expired reports and reports the server rejects are removed, the rest
+ * are sent in order until the first one that fails for lack of a connection.
+ */
+export async function sendQueuedReports<T>(
+  store: ReportQueueStore,
+  kind: QueuedReportKind,
+  send: (payload: T) => Promise<void>
+): Promise<number> {
+  let sent = 0;
+  for (const entry of await store.list<T>(kind)) {
+    if (Date.parse(entry.expiresAt) <= Date.now()) {
+      await store.remove(entry.key);
+      continue;
+    }
+    try {
+      await send(entry.payload);
+      sent += 1;
+    } catch (err) {
+      // Still offline: keep this and everything after it for the next attempt.
+      if (isOfflineError(err)) break;
+      console.warn(`Dropping queued ${kind} report the server rejected:`, err);
+    }
+    await store.remove(entry.key);
+  }
+  return sent;
+}
+
+const flushing = new Map<QueuedReportKind, Promise<number>>();
+
+async function flushNow<T>(
+  kind: QueuedReportKind,
+  send: (payload: T) => Promise<void>
+): Promise<number> {
+  try {
+    return await sendQueuedReports(indexedDbStore, kind, send);
+  } finally {
+    notifyChange();
+  }
+}
+
+/**
+ * Sends queued reports of one kind in the order they were made, resolving to how many were sent.
+ * `send` must be idempotent: a report can be retried after the server stored it but before the
+ * queue entry was removed. Concurrent flushes (other hooks, other tabs) are serialized.
+ */
+export function flushQueuedReports<T>(
+  kind: QueuedReportKind,
+  send: (payload: T) => Promise<void>
+): Promise<number> {
+  if (!canQueueReports()) return Promise.resolve(0);
+  const running = flushing.get(kind);
+  if (running) return running;
+  const run = (async () => {
+    const flushOnce = () => flushNow(kind, send);
+    if (typeof navigator !== 'undefined' && navigator.locks) {
+      return navigator.locks.request(`${DB_NAME}:${STORE}:${kind}`, flushOnce);
+    }
+    return flushOnce();
+  })().finally(() => flushing.delete(kind));
+  flushing.set(kind, run);
+  return run;
+}
@@ -0,0 +1,136 @@
+/**
+ * Sign-up sheet photos are normalized in the browser before upload: decoded (HEIC too, through a
+ * bundled decoder where the browser cannot read it), turned upright, downscaled and re-encoded.
+ * Re-encoding through a canvas drops every EXIF field, including the GPS position phone cameras
+ * embed.
+ */
+
+/** Longest edge after downscaling; enough to read names on a sheet. */
+const MAX_EDGE_PX = 1600;
+/** Aim for this size; the storage bucket rejects anything over `MAX_SIGNUP_PHOTO_BYTES`. */
+const TARGET_BYTES = 900 * 1024;
+/** Keep in sync with `file_size_limit` in supabase/migrations/0010_signup_photo_limits.sql. */
+export const MAX_SIGNUP_PHOTO_BYTES = 2 * 1024 * 1024;
+
+export type SignupPhotoType = 'image/webp' | 'image/jpeg';
+const QUALITIES = [0.82, 0.7, 0.55];
+
+export class SignupPhotoError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SignupPhotoError';
+  }
+}
+
+function looksLikeHeic(file: File): boolean {
+  return /image\/hei[cf]/i.test(file.type) || /\.hei[cf]$/i.test(file.name);
+}
+
+type Decoded = { source: CanvasImageSource; width: number; height: number; close: () => void };
+
+/**
+ * `createImageBitmap` applies the EXIF orientation; the `<img>` fallback covers older Safari.
+ * Resolves to null when the browser cannot read the image.
+ */
+async function decodeNatively(image: Blob): Promise<Decoded | null> {
+  if (typeof createImageBitmap === 'function') {
+    try {
+      const bitmap = await createImageBitmap(image, { imageOrientation: 'from-image' });
+      const close = () => bitmap.close();
+      return { source: bitmap, width: bitmap.width, height: bitmap.height, close };
+    } catch {
+      // Fall through to <img>, which decodes HEIC on Safari.
+    }
+  }
+  const url = URL.createObjectURL(image);
+  try {
+    const img = new Image();
+    img.decoding = 'async';
+    img.src = url;
+    await img.decode();
+    return { source: img, width: img.naturalWidth, height: img.naturalHeight, close: () => {} };
+  } catch {
+    return null;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * HEIC as a JPEG, through libheif compiled to JavaScript (heic2any). It is about 1.3 MB, so it is
+ * only loaded for a HEIC photo the browser cannot read itself. libheif applies the HEIC rotation.
+ */
+async function heicToJpeg(file: File): Promise<Blob | null> {
+  try {
+    const { default: heic2any } = await import('heic2any');
+    const converted = await heic2any({ blob: file, toType: 'image/jpeg', quality: 0.92 });
+    return Array.isArray(converted) ? converted[0] : converted;
+  } catch (err) {
+    console.warn('Could not convert the HEIC photo:', err);
+    return null;
+  }
+}
+
+async function decode(file: File): Promise<Decoded> {
+  const decoded = await decodeNatively(file);
+  if (decoded) return decoded;
+  if (looksLikeHeic(file)) {
+    const jpeg = await heicToJpeg(file);
+    const converted = jpeg && (await decodeNatively(jpeg));
+    if (converted) return converted;
+    throw new SignupPhotoError(
+      'That HEIC photo could not be read. Take the photo from the report screen, or set the camera format to "Most Compatible".'
+    );
+  }
+  throw new SignupPhotoError('That file could not be read as a photo.');
+}
+
+function toBlob(
+  canvas: HTMLCanvasElement,
+  type: SignupPhotoType,
+  quality: number
+): Promise<Blob | null> {
+  return new Promise((resolve) => canvas.toBlob(resolve, type, quality));
+}
+
+/**
+ * Resolves to a WebP (or, where the browser cannot encode WebP, JPEG) no larger than
+ * `MAX_SIGNUP_PHOTO_BYTES`, with no metadata. Rejects with `SignupPhotoError` for unreadable files.
+ */
+export async function prepareSignupPhoto(file: File): Promise<File> {
+  const decoded = await decode(file);
+  try {
+    let scale = Math.min(1, MAX_EDGE_PX / Math.max(decoded.width, decoded.height));
+    let type: SignupPhotoType = 'image/webp';
+    // Shrink further only if the lowest quality is still over the cap.
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(decoded.width * scale));
+      canvas.height = Math.max(1, Math.round(decoded.height * scale));
+      const ctx = canvas.getContext('2d');
+      if (!ctx) throw new SignupPhotoError('This browser cannot process photos.');
+      ctx.drawImage(decoded.source, 0, 0, canvas.width, canvas.height);
+
+      let blob: Blob | null = null;
+      for (const quality of QUALITIES) {
+        blob = await toBlob(canvas, type, quality);
+        // Browsers without a WebP encoder silently return PNG.
+        if (blob && blob.type !== type) {
+          type = 'image/jpeg';
+          blob = await toBlob(canvas, type, quality);
+        }
+        if (blob && blob.size <= TARGET_BYTES) break;
+      }
+      if (blob && blob.size <= MAX_SIGNUP_PHOTO_BYTES) {
+        return new File([blob], `signup-sheet.${type === 'image/webp' ? 'webp' : 'jpg'}`, {
+          type,
+          lastModified: Date.now(),
+        });
+      }
+      scale *= 0.7;
+    }
+    throw new SignupPhotoError('That photo is too large to upload. Try taking it again.');
+  } finally {
+    decoded.close();
+  }
+}
@@ -0,0 +1,5 @@
+/** Public origin for canonical links, Open Graph URLs and the sitemap. */
+export const siteUrl = new URL(
+  process.env.NEXT_PUBLIC_SITE_URL ??
+    (process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : 'http://localhost:3000')
+);
@@ -0,0 +1,68 @@
+import { supabaseAnonKey, supabaseUrl } from '@/lib/supabase';
+
+/** A refused upload; `error` is Storage's error name, e.g. `Duplicate` when the path is taken. */
+export class StorageUploadError extends Error {
+  constructor(message: string, readonly error: string | null) {
+    super(message);
+    this.name = 'StorageUploadError';
+  }
+}
+
+/**
+ * Supabase Storage upload with progress. `supabase.storage.upload` uses `fetch`, which reports no
+ * upload progress, so this posts to the same REST endpoint with XMLHttpRequest.
+ */
+export function uploadToStorage({
+  bucket,
+  path,
+  body,
+  cacheControlSeconds = 3600,
+  onProgress,
+}: {
+  bucket: string;
+  path: string;
+  body: Blob;
+  cacheControlSeconds?: number;
+  /** Fraction of the body sent, 0–1. */
+  onProgress?: (fraction: number) => void;
+}): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (!supabaseUrl || !supabaseAnonKey) {
+      reject(new Error('Supabase is not configured'));
+      return;
+    }
+    const objectPath = path.split('/').map(encodeURIComponent).join('/');
+    const xhr = new XMLHttpRequest();
+    xhr.open('POST', `${supabaseUrl}/storage/v1/object/${bucket}/${objectPath}`);
+    xhr.setRequestHeader('Authorization', `Bearer ${supabaseAnonKey}`);
+    xhr.setRequestHeader('apikey', supabaseAnonKey);
+    xhr.setRequestHeader('Content-Type', body.type || 'application/octet-stream');
+    xhr.setRequestHeader('Cache-Control', `max-age=${cacheControlSeconds}`);
+    xhr.setRequestHeader('x-upsert', 'false');
+    xhr.upload.onprogress = (e) => {
+      if (e.lengthComputable) onProgress?.(e.loaded / e.total);
+    };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        onProgress?.(1);
+        resolve();
+        return;
+      }
+      // Storage answers `{ statusCode, error, message }`, e.g. 413 over the bucket's size limit.
+      let message = `Upload failed with status ${xhr.status}`;
+      let error: string | null = null;
+      try {
+        const parsed = JSON.parse(xhr.responseText) as { message?: string; error?: string };
+        if (parsed.message) message = parsed.message;
+        error = parsed.error ?? null;
+      } catch {
+        // Not JSON; keep the status message.
+      }
+      reject(new StorageUploadError(message, error));
+    };
+    // Worded like the fetch failures `isOfflineError` recognizes, so the report gets queued.
+    xhr.onerror = () => reject(new Error('Network request failed'));
+    xhr.onabort = () => reject(new Error('Upload aborted'));
+    xhr.send(body);
+  });
+}
@@ -0,0 +1,36 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { SUBWAY_STATIONS_CSV, SubwayStationsError, compileSubwayStations } from '@/lib/subwayStations';
+
+describe('compileSubwayStations', () => {
+  const stations = compileSubwayStations(readFileSync(SUBWAY_STATIONS_CSV, 'utf8'));
+  const onRoute = (route: string) => stations.filter((s) => s.routes.includes(route));
+
+  it('validates the generated file and covers the whole system', () => {
+    // 423 complexes in the MTA feed at the time of writing, give or take openings and closures.
+    expect(stations.length).toBeGreaterThan(400);
+  });
+
+  it('includes every stop of a line, not just a sample', () => {
+    // Bronx 6 local: Pelham Bay Park down to 3 Av-138 St.
+    expect(onRoute('6').some((s) => s.name === 'Pelham Bay Park')).toBe(true);
+    expect(onRoute('6').length).toBeGreaterThanOrEqual(38);
+    expect(onRoute('G').length).toBeGreaterThanOrEqual(21);
+    expect(onRoute('L').length).toBeGreaterThanOrEqual(24);
+  });
+
+  it('merges transfer complexes into one station', () => {
+    const timesSq = stations.find((s) => s.name.startsWith('Times Sq-42 St'));
+    expect(timesSq?.routes).toEqual(expect.arrayContaining(['1', '7', 'A', 'N', 'S']));
+  });
+
+  it('lists every bad row', () => {
+    const csv = 'Station,Latitude,Longitude,Routes\nA,40.7,-73.9,X\nB,10,10,1\n';
+    expect(() => compileSubwayStations(csv)).toThrow(SubwayStationsError);
+    try {
+      compileSubwayStations(csv);
+    } catch (error) {
+      expect((error as SubwayStationsError).issues).toHaveLength(2);
+    }
+  });
+});
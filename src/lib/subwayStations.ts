@@ -0,0 +1,94 @@
+/**
+ * Subway station complexes from `src/data/subway-stations.csv`, generated from the MTA's static
+ * subway GTFS feed by `npm run data:subway-stations` (`stops.txt` parent stations merged into
+ * complexes along in-station transfers, with the weekday daytime routes serving each one).
+ *
+ * Server-only, like the court catalogue: pages embed the stations they need while they are
+ * statically generated, so travel estimates work without any network request.
+ */
+
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import type { SubwayStation } from '@/types/transit';
+import { CsvParseError, parseCsv } from '@/lib/csv';
+import { inNyc } from '@/lib/geo';
+
+export const SUBWAY_STATIONS_CSV = path.join(process.cwd(), 'src', 'data', 'subway-stations.csv');
+
+const EXPECTED_HEADER = ['Station', 'Latitude', 'Longitude', 'Routes'];
+
+/** Every service letter and number the MTA runs; S covers all three shuttles. */
+const SUBWAY_ROUTES = new Set('1 2 3 4 5 6 7 A B C D E F G J L M N Q R S W Z'.split(' '));
+
+export class SubwayStationsError extends Error {
+  constructor(readonly issues: string[]) {
+    super(`Subway station data is invalid (${issues.length} problem(s)):\n  ${issues.join('\n  ')}`);
+    this.name = 'SubwayStationsError';
+  }
+}
+
+/** Parse and validate the station export. Throws `SubwayStationsError` listing every bad row. */
+export function compileSubwayStations(csvText: string): SubwayStation[] {
+  let rows: string[][];
+  try {
+    rows = parseCsv(csvText);
+  } catch (error) {
+    if (error instanceof CsvParseError) throw new SubwayStationsError([error.message]);
+    throw error;
+  }
+  const [header, ...records] = rows;
+  const headerCells = (header ?? []).map((cell) => cell.trim());
+  if (headerCells.join('|') !== EXPECTED_HEADER.join('|')) {
+    throw new SubwayStationsError([
+      `header is "${headerCells.join(', ')}", expected "${EXPECTED_HEADER.join(', ')}"`,
+    ]);
+  }
+
+  const stations: SubwayStation[] = [];
+  const issues: string[] = [];
+  const names = new Set<string>();
+
+  records.forEach((cells, index) => {
+    const row = index + 2;
+    if (cells.every((cell) => cell.trim() === '')) return;
+    const [name = '', latRaw = '', lngRaw = '', routesRaw = ''] = cells.map((cell) => cell.trim());
+    const problems: string[] = [];
+
+    if (cells.length !== EXPECTED_HEADER.length) {
+      problems.push(`has ${cells.length} columns, expected ${EXPECTED_HEADER.length}`);
+    }
+    if (!name) problems.push('missing name');
+    if (names.has(name)) problems.push('duplicate station name');
+    names.add(name);
+
+    const lat = Number(latRaw);
+    const lng = Number(lngRaw);
+    if (latRaw === '' || lngRaw === '' || !Number.isFinite(lat) || !Number.isFinite(lng)) {
+      problems.push(`invalid coordinates "${latRaw}", "${lngRaw}"`);
+    } else if (!inNyc({ lat, lng })) {
+      problems.push(`coordinates ${lat}, ${lng} are outside NYC`);
+    }
+
+    const routes = routesRaw.split(/\s+/).filter(Boolean);
+    if (routes.length === 0) problems.push('no routes');
+    const unknown = routes.filter((route) => !SUBWAY_ROUTES.has(route));
+    if (unknown.length > 0) problems.push(`unknown route(s) ${unknown.join(', ')}`);
+
+    if (problems.length > 0) {
+      for (const problem of problems) issues.push(`row ${row} (${name || 'no name'}): ${problem}`);
+      return;
+    }
+    stations.push({ name, lat, lng, routes });
+  });
+
+  if (issues.length > 0) throw new SubwayStationsError(issues);
+  return stations;
+}
+
+let cached: SubwayStation[] | null = null;
+
+/** The validated stations, read once per server process. */
+export function loadSubwayStations(): SubwayStation[] {
+  cached ??= compileSubwayStations(readFileSync(SUBWAY_STATIONS_CSV, 'utf8'));
+  return cached;
+}
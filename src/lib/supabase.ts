@@ -1,7 +1,7 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js'
 
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
-const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+export const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+export const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
 
 export const supabase: SupabaseClient | null =
   supabaseUrl && supabaseAnonKey ? createClient(supabaseUrl, supabaseAnonKey) : null
@@ -10,35 +10,70 @@ export const supabase: SupabaseClient | null =
 export interface WaitTime {
   id: string
   court_name: string
+  /** Display label; legacy rows only have this. */
   wait_time: string
+  /** Reported wait range in minutes; `wait_max_minutes: null` is open-ended. */
+  wait_min_minutes?: number | null
+  wait_max_minutes?: number | null
+  rackets_on_fence?: number | null
+  courts_in_use?: number | null
   comment?: string
   device_id?: string | null
   confirmed_count?: number
   outdated_count?: number
+  /** NYC local hour / weekday of the report; kept after expiry for forecasting. */
+  hour_of_day?: number | null
+  day_of_week?: number | null
   created_at: string
   expires_at: string
 }
 
+/** Row of the `wait_time_forecast` view (supabase/migrations/0008_wait_time_forecast.sql). */
+export interface WaitTimeForecast {
+  court_name: string
+  day_of_week: number
+  hour_of_day: number
+  typical_min_minutes: number
+  typical_max_minutes: number | null
+  sample_count: number
+  last_reported_at: string
+}
+
 export interface NewWaitTime {
   court_name: string
   wait_time: string
+  wait_min_minutes: number
+  wait_max_minutes: number | null
+  rackets_on_fence?: number | null
+  courts_in_use?: number | null
   comment?: string
   expires_at: string
   device_id?: string
 }
 
-/** Morning sign-up sheet line reports (mobile “Sheets” tab). */
-export interface SignupSheetReport {
+/** Morning sign-up sheet line reports (mobile “Sheets” tab): the columns the app reads. */
+export interface SignupSheetReportRow {
   id: string
   court_name: string
   borough: string
-  status: 'sheet_empty' | 'few_names' | 'line_forming' | 'sheet_full'
-  photo_url: string | null
+  /** Null on photo-only reports (supabase/migrations/0009_signup_sheet_status_optional.sql). */
+  status: 'sheet_empty' | 'few_names' | 'line_forming' | 'sheet_full' | null
+  /** Object name in the private `signup-sheet-photos` bucket. */
+  photo_path: string | null
   device_id?: string | null
   created_at: string
   expires_at: string
 }
 
+/** A report as the app shows it. */
+export interface SignupSheetReport extends SignupSheetReportRow {
+  /**
+   * Not a column: a short-lived signed URL for `photo_path`, added by `useSignupSheetReports`.
+   * Null without a photo or when the photo could not be signed.
+   */
+  signedPhotoUrl: string | null
+}
+
 /** Postgrest / Storage errors are plain objects, not always `Error`. */
 export function formatSupabaseError(err: unknown): string {
   if (err && typeof err === 'object') {
@@ -0,0 +1,76 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { newReportId } from '@/lib/reportQueue';
+
+/** Coalesces bursts of changes (e.g. a device flushing its offline queue) into one reload. */
+const RELOAD_DEBOUNCE_MS = 200;
+
+export interface TableRealtimeHandlers<Row> {
+  /** Merges an UPDATE into state in place; without it, updates reload like inserts. */
+  applyUpdate?: (row: Row) => void;
+  /** Sees each INSERT before the reload it schedules, e.g. to mark the row as new. */
+  onInsert?: (row: Row) => void;
+  /** Full reload; debounced. */
+  reload: () => void | Promise<void>;
+}
+
+/**
+ * Subscribes to row changes on `public.<table>`, which must be in the `supabase_realtime`
+ * publication. UPDATEs go to `applyUpdate`; INSERT, DELETE and rows already past `expires_at`
+ * trigger a debounced full reload. Returns the unsubscribe function.
+ */
+export function subscribeTableRealtime<Row extends { expires_at?: string | null }>(
+  client: SupabaseClient,
+  table: string,
+  { applyUpdate, onInsert, reload }: TableRealtimeHandlers<Row>
+): () => void {
+  let debounce: ReturnType<typeof setTimeout> | null = null;
+
+  const scheduleReload = () => {
+    if (debounce) clearTimeout(debounce);
+    debounce = setTimeout(() => {
+      debounce = null;
+      void reload();
+    }, RELOAD_DEBOUNCE_MS);
+  };
+
+  const channel = client
+    // Unique per subscription so two hooks on one table do not share (and unsubscribe) a channel.
+    .channel(`${table}_public_${newReportId()}`)
+    .on(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table },
+      (payload) => {
+        const row = payload.new as Row;
+        const expires = row.expires_at ? new Date(row.expires_at).getTime() : NaN;
+        if (!applyUpdate || (Number.isFinite(expires) && expires <= Date.now())) {
+          scheduleReload();
+          return;
+        }
+        applyUpdate(row);
+      }
+    )
+    .on(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table },
+      (payload) => {
+        onInsert?.(payload.new as Row);
+        scheduleReload();
+      }
+    )
+    .on(
+      'postgres_changes',
+      { event: 'DELETE', schema: 'public', table },
+      () => {
+        scheduleReload();
+      }
+    )
+    .subscribe();
+
+  return () => {
+    if (debounce) {
+      clearTimeout(debounce);
+      debounce = null;
+    }
+    void client.removeChannel(channel);
+  };
+}
@@ -0,0 +1,145 @@
+/**
+ * Rough door-to-door travel times from straight-line distances: walking and cycling at typical
+ * city speeds, and the subway as walk → wait → ride → walk via stations near each end. There are
+ * no timetables involved, so these are planning estimates, not trip plans.
+ */
+
+import type { SubwayStation } from '@/types/transit';
+import type { CourtMatch, NearMe } from '@/lib/courtFilters';
+import { distanceMiles, type LatLng } from '@/lib/geo';
+
+/** Streets make real routes this much longer than the crow flies. */
+const WALK_DETOUR = 1.25;
+const WALK_MPH = 3;
+const BIKE_DETOUR = 1.3;
+const BIKE_MPH = 9;
+/** Unlocking, docking and locking up. */
+const BIKE_OVERHEAD_MINUTES = 4;
+const RIDE_DETOUR = 1.2;
+/** Average train speed including stops. */
+const SUBWAY_MPH = 17;
+/** Getting down to the platform plus half a typical headway. */
+const SUBWAY_WAIT_MINUTES = 6;
+const TRANSFER_MINUTES = 8;
+/** Stations considered at each end of a trip. */
+const STATION_CANDIDATES = 3;
+
+/** Past this a station is not "nearby"; trips still use it, since buses are not in the data. */
+export const STATION_WALK_RANGE_MILES = 1.5;
+
+export type TravelSort = 'distance' | 'transit' | 'bike';
+
+export const TRAVEL_SORT_OPTIONS: { value: TravelSort; label: string }[] = [
+  { value: 'distance', label: 'Distance' },
+  { value: 'transit', label: 'Subway / walk time' },
+  { value: 'bike', label: 'Bike time' },
+];
+
+export interface NearbyStation {
+  station: SubwayStation;
+  miles: number;
+  walkMinutes: number;
+}
+
+export interface SubwayTrip {
+  minutes: number;
+  board: NearbyStation;
+  alight: NearbyStation;
+  /** Routes serving both stations; empty means the trip needs a transfer. */
+  directRoutes: string[];
+}
+
+export interface TravelEstimate {
+  walkMinutes: number;
+  bikeMinutes: number;
+  /** null when walking is as quick. */
+  subway: SubwayTrip | null;
+}
+
+export function walkMinutes(miles: number): number {
+  return ((miles * WALK_DETOUR) / WALK_MPH) * 60;
+}
+
+function bikeMinutes(miles: number): number {
+  return ((miles * BIKE_DETOUR) / BIKE_MPH) * 60 + BIKE_OVERHEAD_MINUTES;
+}
+
+function rideMinutes(from: LatLng, to: LatLng): number {
+  return ((distanceMiles(from, to) * RIDE_DETOUR) / SUBWAY_MPH) * 60;
+}
+
+/** Closest stations, nearest first. */
+export function nearestStations(
+  point: LatLng,
+  stations: SubwayStation[],
+  limit = STATION_CANDIDATES,
+  maxMiles = Infinity
+): NearbyStation[] {
+  return stations
+    .map((station) => {
+      const miles = distanceMiles(point, station);
+      return { station, miles, walkMinutes: walkMinutes(miles) };
+    })
+    .filter(({ miles }) => miles <= maxMiles)
+    .sort((a, b) => a.miles - b.miles)
+    .slice(0, limit);
+}
+
+export function estimateTravel(from: LatLng, to: LatLng, stations: SubwayStation[]): TravelEstimate {
+  const miles = distanceMiles(from, to);
+  const walk = walkMinutes(miles);
+  let subway: SubwayTrip | null = null;
+
+  const alightOptions = nearestStations(to, stations);
+  for (const board of nearestStations(from, stations)) {
+    for (const alight of alightOptions) {
+      if (board.station === alight.station) continue;
+      const directRoutes = board.station.routes.filter((r) => alight.station.routes.includes(r));
+      const minutes =
+        board.walkMinutes +
+        SUBWAY_WAIT_MINUTES +
+        rideMinutes(board.station, alight.station) +
+        (directRoutes.length > 0 ? 0 : TRANSFER_MINUTES) +
+        alight.walkMinutes;
+      if (!subway || minutes < subway.minutes) subway = { minutes, board, alight, directRoutes };
+    }
+  }
+
+  return {
+    walkMinutes: walk,
+    bikeMinutes: bikeMinutes(miles),
+    subway: subway && subway.minutes < walk ? subway : null,
+  };
+}
+
+/** Subway when it beats walking, otherwise on foot. */
+export function transitMinutes(estimate: TravelEstimate): number {
+  return estimate.subway?.minutes ?? estimate.walkMinutes;
+}
+
+/** "4 min", "35 min", "1 hr 10 min"; rounded up to the next 5 minutes past the hour. */
+export function formatMinutes(minutes: number): string {
+  const rounded = Math.max(1, Math.round(minutes));
+  if (rounded < 60) return `${rounded} min`;
+  const nearest5 = Math.ceil(rounded / 5) * 5;
+  const mins = nearest5 % 60;
+  return `${Math.floor(nearest5 / 60)} hr${mins ? ` ${mins} min` : ''}`;
+}
+
+/** Near-me matches with a travel estimate each, ordered by the chosen sort. */
+export function withTravelEstimates(
+  matches: CourtMatch[],
+  nearMe: NearMe,
+  stations: SubwayStation[]
+): CourtMatch[] {
+  const estimated = matches.map((match) => ({
+    ...match,
+    travel: estimateTravel(nearMe.origin, match.court, stations),
+  }));
+  if (nearMe.sortBy === 'transit') {
+    estimated.sort((a, b) => transitMinutes(a.travel) - transitMinutes(b.travel));
+  } else if (nearMe.sortBy === 'bike') {
+    estimated.sort((a, b) => a.travel.bikeMinutes - b.travel.bikeMinutes);
+  }
+  return estimated;
+}
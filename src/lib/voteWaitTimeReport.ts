@@ -0,0 +1,47 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { formatSupabaseError } from '@/lib/supabase';
+import type { WaitReportVoteKind } from '@/lib/waitTimeReportVotes';
+
+export type WaitTimeVoteResult = {
+  /** False when this device had already voted; counts were not changed. */
+  accepted: boolean;
+  /** The vote on record for this device (may differ from the one just sent). */
+  vote: WaitReportVoteKind;
+  confirmedCount: number;
+  outdatedCount: number;
+};
+
+type VoteRow = {
+  accepted: boolean;
+  vote: WaitReportVoteKind;
+  confirmed_count: number;
+  outdated_count: number;
+};
+
+/** Records one vote per device per report via `vote_wait_time()` (supabase/migrations/0006_wait_time_votes.sql). */
+export async function voteOnWaitTimeReport(
+  client: SupabaseClient,
+  reportId: string,
+  deviceId: string,
+  kind: WaitReportVoteKind
+): Promise<WaitTimeVoteResult> {
+  const { data, error } = await client.rpc('vote_wait_time', {
+    p_report_id: reportId,
+    p_device_id: deviceId,
+    p_kind: kind,
+  });
+
+  if (error) throw error;
+  const row = (Array.isArray(data) ? data[0] : data) as VoteRow | null | undefined;
+  if (!row) throw new Error('Vote was not recorded');
+  return {
+    accepted: row.accepted,
+    vote: row.vote,
+    confirmedCount: row.confirmed_count,
+    outdatedCount: row.outdated_count,
+  };
+}
+
+export function alertFlagError(error: unknown) {
+  alert(`Could not save flag: ${formatSupabaseError(error)}`);
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import type { WaitTimeForecast } from '@/lib/supabase';
+import { formatForecast, mergeForecasts } from '@/lib/waitTimeForecast';
+
+const COURT = 'South Oxford Park Tennis Courts';
+
+function slot(
+  court_name: string,
+  typical_min_minutes: number,
+  typical_max_minutes: number | null,
+  sample_count: number,
+  last_reported_at = '2026-06-09T22:10:00+00:00'
+): WaitTimeForecast {
+  return {
+    court_name,
+    day_of_week: 2,
+    hour_of_day: 18,
+    typical_min_minutes,
+    typical_max_minutes,
+    sample_count,
+    last_reported_at,
+  };
+}
+
+describe('mergeForecasts', () => {
+  it('keeps a single row under the canonical name', () => {
+    expect(mergeForecasts(COURT, [slot('South Oxford Park', 60, 120, 4)])).toEqual(slot(COURT, 60, 120, 4));
+  });
+
+  it('weights the bounds by sample count', () => {
+    const merged = mergeForecasts(COURT, [
+      slot(COURT, 60, 120, 9),
+      slot('South Oxford Park', 0, 60, 1, '2026-06-16T22:40:00+00:00'),
+      slot('South Oxford Park Courts', 120, 180, 2, '2026-05-26T22:05:00+00:00'),
+    ]);
+    // (60·9 + 0 + 120·2) / 12 = 65, (120·9 + 60 + 180·2) / 12 = 125; to the nearest quarter hour.
+    expect(merged).toEqual(slot(COURT, 60, 120, 12, '2026-06-16T22:40:00+00:00'));
+  });
+
+  it('is open-ended only when more than half of the reports were', () => {
+    expect(mergeForecasts(COURT, [slot(COURT, 180, null, 5), slot('South Oxford Park', 120, 180, 2)])).toEqual(
+      slot(COURT, 165, null, 7)
+    );
+    expect(mergeForecasts(COURT, [slot(COURT, 180, null, 2), slot('South Oxford Park', 120, 180, 5)])).toEqual(
+      slot(COURT, 135, 180, 7)
+    );
+  });
+
+  it('never ends the range before it starts', () => {
+    expect(mergeForecasts(COURT, [slot(COURT, 180, null, 3), slot('South Oxford Park', 0, 60, 3)])).toEqual(
+      slot(COURT, 90, 90, 6)
+    );
+  });
+});
+
+describe('formatForecast', () => {
+  it('reads like the live card', () => {
+    expect(formatForecast(slot(COURT, 60, 120, 4))).toBe('Usually 1-2 hours at 6pm Tuesdays');
+    expect(formatForecast(slot(COURT, 180, null, 4))).toBe('Usually more than 3 hours at 6pm Tuesdays');
+  });
+});
@@ -0,0 +1,94 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { WaitTimeForecast } from '@/lib/supabase';
+import { emptyByWaitTimeCourt, waitTimeCourtById } from '@/data/waitTimeCourts';
+import { waitTimeCourtIdFromDb } from '@/lib/waitTimesCourt';
+import { formatWaitRange, type WaitRange } from '@/lib/waitTimeRange';
+import { WEEKDAYS, formatClockTime, nycLocalTime } from '@/lib/nycTime';
+
+/** Fewer reports than this for a slot is noise, not a pattern. */
+const MIN_FORECAST_SAMPLES = 3;
+/** Merged ranges are averages; they are shown to the nearest quarter hour. */
+const MERGED_RANGE_STEP_MINUTES = 15;
+
+/** Hour (0-23) and weekday (0 = Sunday) in NYC, matching `hour_of_day` / `day_of_week`. */
+export function nycHourAndWeekday(date: Date): { hour: number; dayOfWeek: number } {
+  const { minutes, weekday } = nycLocalTime(date);
+  return { hour: Math.floor(minutes / 60), dayOfWeek: weekday };
+}
+
+/** Average of [minutes, samples] pairs weighted by samples, to the nearest step. */
+function weightedMinutes(values: [number, number][]): number {
+  const samples = values.reduce((sum, [, n]) => sum + n, 0);
+  const mean = values.reduce((sum, [minutes, n]) => sum + minutes * n, 0) / samples;
+  return Math.round(mean / MERGED_RANGE_STEP_MINUTES) * MERGED_RANGE_STEP_MINUTES;
+}
+
+/**
+ * One forecast from the view's rows for the same court and slot under different names (legacy
+ * `court_name` values aggregate separately). Medians cannot be recombined exactly, so the bounds
+ * become averages weighted by sample count; the range is open-ended when more than half of the
+ * reports were.
+ */
+export function mergeForecasts(courtName: string, rows: WaitTimeForecast[]): WaitTimeForecast {
+  if (rows.length === 1) return { ...rows[0], court_name: courtName };
+  const samples = rows.reduce((sum, row) => sum + row.sample_count, 0);
+  const min = weightedMinutes(rows.map((row) => [row.typical_min_minutes, row.sample_count]));
+  const bounded = rows.flatMap((row): [number, number][] =>
+    row.typical_max_minutes === null ? [] : [[row.typical_max_minutes, row.sample_count]]
+  );
+  const boundedSamples = bounded.reduce((sum, [, n]) => sum + n, 0);
+  const latest = rows.reduce((a, b) =>
+    Date.parse(b.last_reported_at) > Date.parse(a.last_reported_at) ? b : a
+  );
+  return {
+    court_name: courtName,
+    day_of_week: rows[0].day_of_week,
+    hour_of_day: rows[0].hour_of_day,
+    typical_min_minutes: min,
+    typical_max_minutes: boundedSamples * 2 >= samples ? Math.max(weightedMinutes(bounded), min) : null,
+    sample_count: samples,
+    last_reported_at: latest.last_reported_at,
+  };
+}
+
+/** Forecast for the current NYC hour, keyed by registry court id. */
+export async function loadWaitTimeForecasts(
+  client: SupabaseClient,
+  at: Date = new Date()
+): Promise<{ [courtId: string]: WaitTimeForecast | null }> {
+  const { hour, dayOfWeek } = nycHourAndWeekday(at);
+  const { data, error } = await client
+    .from('wait_time_forecast')
+    .select('*')
+    .eq('day_of_week', dayOfWeek)
+    .eq('hour_of_day', hour);
+
+  if (error) throw error;
+
+  const rowsByCourt = new Map<string, WaitTimeForecast[]>();
+  for (const row of (data ?? []) as WaitTimeForecast[]) {
+    const key = waitTimeCourtIdFromDb(row.court_name);
+    if (key) rowsByCourt.set(key, [...(rowsByCourt.get(key) ?? []), row]);
+  }
+
+  const byCourt = emptyByWaitTimeCourt<WaitTimeForecast>();
+  for (const [key, rows] of rowsByCourt) {
+    const court = waitTimeCourtById(key);
+    if (!court) continue;
+    const forecast = mergeForecasts(court.name, rows);
+    // Legacy names only count towards the threshold once merged.
+    if (forecast.sample_count >= MIN_FORECAST_SAMPLES) byCourt[key] = forecast;
+  }
+  return byCourt;
+}
+
+export function forecastRange(forecast: WaitTimeForecast): WaitRange {
+  return { minMinutes: forecast.typical_min_minutes, maxMinutes: forecast.typical_max_minutes };
+}
+
+/** e.g. "Usually 1-2 hours at 6pm Tuesdays". */
+export function formatForecast(forecast: WaitTimeForecast): string {
+  const label = formatWaitRange(forecastRange(forecast));
+  const wait = label.charAt(0).toLowerCase() + label.slice(1);
+  return `Usually ${wait} at ${formatClockTime(forecast.hour_of_day * 60)} ${WEEKDAYS[forecast.day_of_week]}s`;
+}
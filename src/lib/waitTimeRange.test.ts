@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import type { WaitTime } from '@/lib/supabase';
+import {
+  WAIT_TIME_BUCKETS,
+  compareWaitRanges,
+  formatCourtCounts,
+  formatWaitRange,
+  waitRangeFromLegacyText,
+  waitRangeOf,
+  waitStatusFromRange,
+  waitTimeBucketForRange,
+  type WaitRange,
+} from '@/lib/waitTimeRange';
+
+function report(fields: Partial<WaitTime>): WaitTime {
+  return {
+    id: 'report-1',
+    court_name: 'Riverside Park Clay Courts',
+    wait_time: '',
+    created_at: '2026-06-15T16:00:00Z',
+    expires_at: '2026-06-15T18:00:00Z',
+    ...fields,
+  };
+}
+
+const range = (minMinutes: number, maxMinutes: number | null): WaitRange => ({ minMinutes, maxMinutes });
+
+describe('waitRangeOf', () => {
+  it('reads the numeric columns', () => {
+    expect(waitRangeOf(report({ wait_min_minutes: 45, wait_max_minutes: 90 }))).toEqual(range(45, 90));
+  });
+
+  it('reads a missing maximum as open-ended', () => {
+    expect(waitRangeOf(report({ wait_min_minutes: 180, wait_max_minutes: null }))).toEqual(range(180, null));
+    expect(waitRangeOf(report({ wait_min_minutes: 180 }))).toEqual(range(180, null));
+  });
+
+  it('falls back to the legacy label', () => {
+    expect(waitRangeOf(report({ wait_time: '1-2 hours' }))).toEqual(range(60, 120));
+    expect(waitRangeOf(report({ wait_time: 'More than 3 hours', wait_min_minutes: null }))).toEqual(
+      range(180, null)
+    );
+  });
+
+  it('ignores an invalid numeric range', () => {
+    expect(waitRangeOf(report({ wait_min_minutes: 90, wait_max_minutes: 30 }))).toBeNull();
+    expect(waitRangeOf(report({ wait_min_minutes: -15, wait_max_minutes: 30 }))).toBeNull();
+    expect(waitRangeOf(report({ wait_min_minutes: 90, wait_max_minutes: 30, wait_time: '2-3 hours' }))).toEqual(
+      range(120, 180)
+    );
+  });
+
+  it('is null without a range or a known label', () => {
+    expect(waitRangeOf(report({}))).toBeNull();
+    expect(waitRangeOf(report({ wait_time: 'about an hour' }))).toBeNull();
+  });
+});
+
+describe('waitRangeFromLegacyText', () => {
+  it('finds a bucket label inside the text', () => {
+    expect(waitRangeFromLegacyText('Less than 1 hour')).toEqual(range(0, 60));
+    expect(waitRangeFromLegacyText('Wait: 2-3 hours')).toEqual(range(120, 180));
+    expect(waitRangeFromLegacyText('')).toBeNull();
+  });
+});
+
+describe('waitTimeBucketForRange', () => {
+  it('only matches a bucket exactly', () => {
+    expect(waitTimeBucketForRange(range(180, null))?.id).toBe('over-3h');
+    expect(waitTimeBucketForRange(range(60, 120))?.id).toBe('1-2h');
+    expect(waitTimeBucketForRange(range(60, 90))).toBeUndefined();
+    expect(waitTimeBucketForRange(range(240, null))).toBeUndefined();
+    expect(waitTimeBucketForRange(null)).toBeUndefined();
+  });
+});
+
+describe('formatWaitRange', () => {
+  it('keeps the bucket labels', () => {
+    for (const bucket of WAIT_TIME_BUCKETS) expect(formatWaitRange(bucket)).toBe(bucket.label);
+  });
+
+  it.each([
+    [range(45, 90), '45-90 min'],
+    [range(0, 30), 'Less than 30 min'],
+    [range(0, 120), 'Less than 2 hours'],
+    [range(0, 90), 'Less than 90 min'],
+    [range(240, null), 'More than 4 hours'],
+    [range(60, null), 'More than 1 hour'],
+    [range(45, null), 'More than 45 min'],
+  ])('formats %j as %j', (value, label) => {
+    expect(formatWaitRange(value)).toBe(label);
+  });
+});
+
+describe('waitStatusFromRange', () => {
+  it('colors by the upper end', () => {
+    expect(waitStatusFromRange(range(0, 60))).toBe('green');
+    expect(waitStatusFromRange(range(30, 61))).toBe('yellow');
+    expect(waitStatusFromRange(range(120, 180))).toBe('orange');
+    expect(waitStatusFromRange(range(0, 181))).toBe('red');
+    expect(waitStatusFromRange(range(0, null))).toBe('red');
+    expect(waitStatusFromRange(null)).toBe('gray');
+  });
+});
+
+describe('compareWaitRanges', () => {
+  it('sorts the shortest wait first and unknown waits last', () => {
+    const ranges = [null, range(180, null), range(60, 120), range(0, null), range(90, 120), range(0, 60)];
+    expect(ranges.sort(compareWaitRanges)).toEqual([
+      range(0, 60),
+      range(60, 120),
+      range(90, 120),
+      range(0, null),
+      range(180, null),
+      null,
+    ]);
+  });
+});
+
+describe('formatCourtCounts', () => {
+  it('lists the counts that were given', () => {
+    expect(formatCourtCounts(report({ rackets_on_fence: 1, courts_in_use: 4 }))).toBe(
+      '1 racket on fence · 4 courts in use'
+    );
+    expect(formatCourtCounts(report({ rackets_on_fence: 0, courts_in_use: null }))).toBe('0 rackets on fence');
+    expect(formatCourtCounts(report({}))).toBe('');
+  });
+});
@@ -0,0 +1,101 @@
+import type { WaitTime } from '@/lib/supabase';
+
+/** Wait in minutes; `maxMinutes: null` is open-ended ("more than …"). */
+export type WaitRange = {
+  minMinutes: number;
+  maxMinutes: number | null;
+};
+
+export type WaitStatus = 'green' | 'yellow' | 'orange' | 'red' | 'gray';
+
+export type WaitTimeBucket = WaitRange & {
+  id: string;
+  label: string;
+};
+
+/** Report choices offered in the UI; also the legacy `wait_time` strings. */
+export const WAIT_TIME_BUCKETS: WaitTimeBucket[] = [
+  { id: 'under-1h', label: 'Less than 1 hour', minMinutes: 0, maxMinutes: 60 },
+  { id: '1-2h', label: '1-2 hours', minMinutes: 60, maxMinutes: 120 },
+  { id: '2-3h', label: '2-3 hours', minMinutes: 120, maxMinutes: 180 },
+  { id: 'over-3h', label: 'More than 3 hours', minMinutes: 180, maxMinutes: null },
+];
+
+export function waitTimeBucketById(id: string): WaitTimeBucket | undefined {
+  return WAIT_TIME_BUCKETS.find((b) => b.id === id);
+}
+
+/** Bucket whose range exactly matches, for pre-selecting the report form. */
+export function waitTimeBucketForRange(range: WaitRange | null): WaitTimeBucket | undefined {
+  if (!range) return undefined;
+  return WAIT_TIME_BUCKETS.find(
+    (b) => b.minMinutes === range.minMinutes && b.maxMinutes === range.maxMinutes
+  );
+}
+
+/** Rows written before the numeric columns existed only carry `wait_time` text. */
+export function waitRangeFromLegacyText(text: string): WaitRange | null {
+  const bucket = WAIT_TIME_BUCKETS.find((b) => text.includes(b.label));
+  return bucket ? { minMinutes: bucket.minMinutes, maxMinutes: bucket.maxMinutes } : null;
+}
+
+/** The same rule as the wait_times_wait_range_check constraint (migration 0005). */
+function isValidWaitRange({ minMinutes, maxMinutes }: WaitRange): boolean {
+  return minMinutes >= 0 && (maxMinutes === null || maxMinutes >= minMinutes);
+}
+
+/** Numeric range of a report, falling back to its legacy text when that is missing or invalid. */
+export function waitRangeOf(report: WaitTime): WaitRange | null {
+  if (typeof report.wait_min_minutes === 'number') {
+    const range = { minMinutes: report.wait_min_minutes, maxMinutes: report.wait_max_minutes ?? null };
+    if (isValidWaitRange(range)) return range;
+  }
+  return report.wait_time ? waitRangeFromLegacyText(report.wait_time) : null;
+}
+
+/** Status from the upper end of the range (open-ended ranges are always red). */
+export function waitStatusFromRange(range: WaitRange | null): WaitStatus {
+  if (!range) return 'gray';
+  const upper = range.maxMinutes;
+  if (upper === null) return 'red';
+  if (upper <= 60) return 'green';
+  if (upper <= 120) return 'yellow';
+  if (upper <= 180) return 'orange';
+  return 'red';
+}
+
+function formatMinutes(minutes: number): string {
+  if (minutes < 60 || minutes % 60 !== 0) return `${minutes} min`;
+  const h = minutes / 60;
+  return `${h} hour${h !== 1 ? 's' : ''}`;
+}
+
+/** Bucket ranges keep their familiar labels; anything else reads as "45-90 min". */
+export function formatWaitRange(range: WaitRange): string {
+  const bucket = waitTimeBucketForRange(range);
+  if (bucket) return bucket.label;
+  if (range.maxMinutes === null) return `More than ${formatMinutes(range.minMinutes)}`;
+  if (range.minMinutes === 0) return `Less than ${formatMinutes(range.maxMinutes)}`;
+  return `${range.minMinutes}-${range.maxMinutes} min`;
+}
+
+/** Shortest wait first; unknown waits last. */
+export function compareWaitRanges(a: WaitRange | null, b: WaitRange | null): number {
+  if (!a || !b) return a ? -1 : b ? 1 : 0;
+  const upperA = a.maxMinutes ?? Number.POSITIVE_INFINITY;
+  const upperB = b.maxMinutes ?? Number.POSITIVE_INFINITY;
+  if (upperA !== upperB) return upperA - upperB;
+  return a.minMinutes - b.minMinutes;
+}
+
+/** e.g. "6 rackets on fence · 4 courts in use"; empty when neither count was given. */
+export function formatCourtCounts(report: WaitTime): string {
+  const parts: string[] = [];
+  if (typeof report.rackets_on_fence === 'number') {
+    parts.push(`${report.rackets_on_fence} racket${report.rackets_on_fence !== 1 ? 's' : ''} on fence`);
+  }
+  if (typeof report.courts_in_use === 'number') {
+    parts.push(`${report.courts_in_use} court${report.courts_in_use !== 1 ? 's' : ''} in use`);
+  }
+  return parts.join(' · ');
+}
@@ -1,3 +1,4 @@
+/** Per-browser cache of the vote the server recorded for each report; the server is authoritative. */
 const STORAGE_KEY = 'smartcourt_wait_report_votes_v1';
 
 export type WaitReportVoteKind = 'confirmed' | 'outdated';
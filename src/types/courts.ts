@@ -1,14 +1,65 @@
+export type Borough = 'Manhattan' | 'Brooklyn' | 'Queens' | 'The Bronx' | 'Staten Island';
+
+export type CourtSurface = 'Hard' | 'Clay' | 'Har-Tru';
+
+export type CourtAmenity = 'lights' | 'restrooms' | 'water' | 'backboard' | 'proShop';
+
+export type PermitStatus =
+  | 'Required & Enforced'
+  | 'Required, but Rarely Checked'
+  | 'Required'
+  | 'Reservation'
+  | 'Not Required'
+  | 'Unknown';
+
+/** A calendar day: a fixed date, or the nth weekday of a month shifted by some days. */
+export type SeasonDate =
+  | { month: number; day: number | 'last' }
+  | { month: number; weekday: number; nth: number; offsetDays: number };
+
+export interface SeasonClosure {
+  label: string;
+  from: SeasonDate;
+  to: SeasonDate;
+}
+
+/** Times are minutes since midnight; a close after midnight is > 1440. */
+export type ClosingTime =
+  | { kind: 'fixed'; minutes: number }
+  | { kind: 'dusk' }
+  /** "3:00pm/8:00pm (varies by month)". */
+  | { kind: 'varies'; earliest: number; latest: number };
+
+export interface CourtSchedule {
+  /** null = open all year. */
+  season: { opens: SeasonDate; closes: SeasonDate } | null;
+  closures: SeasonClosure[];
+  /** null = hours not listed. */
+  hours: { opens: number; closes: ClosingTime } | null;
+  lights: boolean;
+}
+
 export interface CourtData {
   id: number;
+  /** URL-safe, unique per court (derived from the name). */
+  slug: string;
   name: string;
   address: string;
-  borough: string;
+  borough: Borough;
+  /** Surface label as written in the sheet, e.g. "Hard and Har-Tru"; '' when unknown. */
   surface: string;
-  permitStatus: string;
+  surfaces: CourtSurface[];
+  permitStatus: PermitStatus;
   courts: number;
   datesOpen: string;
   hours: string;
+  /** Parsed from `datesOpen` and `hours`. */
+  schedule: CourtSchedule;
   description: string;
+  /** Found in `hours` and `description`, then corrected by `src/data/courtAmenityOverrides.ts`. */
+  amenities: CourtAmenity[];
   lat: number;
   lng: number;
+  /** `src` of the sheet's Google Maps embed iframe. */
+  mapsEmbedUrl: string | null;
 }
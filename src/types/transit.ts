@@ -0,0 +1,8 @@
+/** A subway station complex: platforms you can transfer between without leaving count as one. */
+export interface SubwayStation {
+  name: string;
+  lat: number;
+  lng: number;
+  /** Service letters and numbers stopping here, e.g. ['A', 'C', 'E', 'L']. */
+  routes: string[];
+}
@@ -0,0 +1,68 @@
+-- Minimal stand-ins for what a Supabase project provides, so the migrations also run on a plain
+-- local Postgres (`npm run db:reset`). Every statement is skipped when the object already exists,
+-- so this is a no-op against the Supabase CLI stack. Never run it against a hosted project.
+
+-- 1) API roles -------------------------------------------------------------------
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'anon') THEN
+    CREATE ROLE anon NOLOGIN NOINHERIT;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'authenticated') THEN
+    CREATE ROLE authenticated NOLOGIN NOINHERIT;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'service_role') THEN
+    CREATE ROLE service_role NOLOGIN NOINHERIT BYPASSRLS;
+  END IF;
+END;
+$$;
+
+-- The migrations `SET ROLE anon` to verify their grants.
+GRANT anon, authenticated, service_role TO current_user;
+
+-- Supabase grants everything in `public` to the API roles and relies on RLS; mirror that so the
+-- REVOKEs in the migrations are exercised the same way locally.
+GRANT USAGE ON SCHEMA public TO anon, authenticated, service_role;
+ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON TABLES TO anon, authenticated, service_role;
+ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON FUNCTIONS TO anon, authenticated, service_role;
+
+-- 2) Realtime publication ---------------------------------------------------------
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    CREATE PUBLICATION supabase_realtime;
+  END IF;
+END;
+$$;
+
+-- 3) Storage ----------------------------------------------------------------------
+-- Only the columns the migrations touch.
+CREATE SCHEMA IF NOT EXISTS storage;
+GRANT USAGE ON SCHEMA storage TO anon, authenticated, service_role;
+
+CREATE TABLE IF NOT EXISTS storage.buckets (
+  id text PRIMARY KEY,
+  name text NOT NULL,
+  public boolean NOT NULL DEFAULT false,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE storage.buckets
+  ADD COLUMN IF NOT EXISTS file_size_limit bigint,
+  ADD COLUMN IF NOT EXISTS allowed_mime_types text[];
+
+CREATE TABLE IF NOT EXISTS storage.objects (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  bucket_id text REFERENCES storage.buckets (id),
+  name text,
+  owner uuid,
+  metadata jsonb,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS bucketid_objname ON storage.objects (bucket_id, name);
+
+ALTER TABLE storage.objects ENABLE ROW LEVEL SECURITY;
+GRANT SELECT, INSERT ON storage.objects TO anon, authenticated;
+-- `npm run storage:local` acts as service_role for requests made with the service key.
+GRANT ALL ON storage.objects, storage.buckets TO service_role;
@@ -1,5 +1,6 @@
--- Full setup for a NEW Supabase project (run once in SQL Editor after project is created).
--- Creates `wait_times` + indexes + RLS policies for the NYC Tennis app.
+-- Live wait-time reports: table, indexes and the public read / insert policies.
+-- Older projects created the table before device_id and the vote counts existed, so those are
+-- also added with ADD COLUMN IF NOT EXISTS.
 
 CREATE TABLE IF NOT EXISTS public.wait_times (
   id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -13,8 +14,19 @@ CREATE TABLE IF NOT EXISTS public.wait_times (
   expires_at timestamptz NOT NULL
 );
 
+ALTER TABLE public.wait_times
+  ADD COLUMN IF NOT EXISTS device_id text,
+  ADD COLUMN IF NOT EXISTS confirmed_count integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS outdated_count integer NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN public.wait_times.device_id IS
+  'Opaque browser id from client localStorage (smartcourt_device_id); no login.';
+
 CREATE INDEX IF NOT EXISTS wait_times_expires_at_idx ON public.wait_times (expires_at DESC);
 CREATE INDEX IF NOT EXISTS wait_times_court_created_idx ON public.wait_times (court_name, created_at DESC);
+CREATE INDEX IF NOT EXISTS wait_times_device_id_idx
+  ON public.wait_times (device_id)
+  WHERE device_id IS NOT NULL;
 
 ALTER TABLE public.wait_times ENABLE ROW LEVEL SECURITY;
 
@@ -31,11 +43,5 @@ CREATE POLICY "wait_times_insert_public"
   ON public.wait_times FOR INSERT
   WITH CHECK (true);
 
-CREATE POLICY "wait_times_update_public"
-  ON public.wait_times FOR UPDATE
-  USING (true)
-  WITH CHECK (true);
-
-CREATE POLICY "wait_times_delete_public"
-  ON public.wait_times FOR DELETE
-  USING (true);
+-- No UPDATE / DELETE policies: vote counts change only through vote_wait_time() (0006) and
+-- expired rows are archived by archive_expired_wait_times() (0007).
@@ -0,0 +1,15 @@
+-- Realtime for `wait_times` so clients receive postgres_changes (INSERT / UPDATE / DELETE).
+-- Skipped when the publication does not exist (plain Postgres without supabase/local/bootstrap.sql).
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+    AND NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'wait_times'
+    )
+  THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.wait_times;
+  END IF;
+END;
+$$;
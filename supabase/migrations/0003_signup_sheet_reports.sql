@@ -1,8 +1,4 @@
--- =============================================================================
--- Sign Up Sheets feature: table + RLS + Storage bucket policies
--- Run the full script in the Supabase SQL Editor (Dashboard → SQL).
--- Safe to re-run: drops and recreates policies by name.
--- =============================================================================
+-- Sign-up sheet reports: table, RLS and the photo bucket with its storage policies.
 
 -- 1) Table -------------------------------------------------------------------
 create table if not exists public.signup_sheet_reports (
@@ -18,14 +14,22 @@ create table if not exists public.signup_sheet_reports (
   expires_at timestamptz not null
 );
 
+alter table public.signup_sheet_reports add column if not exists device_id text;
+
 create index if not exists signup_sheet_reports_expires_at_idx
   on public.signup_sheet_reports (expires_at);
 
 create index if not exists signup_sheet_reports_court_created_idx
   on public.signup_sheet_reports (court_name, created_at desc);
 
+create index if not exists signup_sheet_reports_device_id_idx
+  on public.signup_sheet_reports (device_id)
+  where device_id is not null;
+
 comment on table public.signup_sheet_reports is
   'Anonymous sign-up sheet line reports; expires_at hides stale rows (8h in app).';
+comment on column public.signup_sheet_reports.device_id is
+  'Opaque browser id from client localStorage (smartcourt_device_id); no login.';
 
 -- 2) Row Level Security ------------------------------------------------------
 alter table public.signup_sheet_reports enable row level security;
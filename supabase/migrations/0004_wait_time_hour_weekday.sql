@@ -0,0 +1,31 @@
+-- NYC-local hour and weekday of each report, kept after expiry for the forecast (0008).
+
+ALTER TABLE public.wait_times
+  ADD COLUMN IF NOT EXISTS hour_of_day smallint,
+  ADD COLUMN IF NOT EXISTS day_of_week smallint;
+
+UPDATE public.wait_times
+SET
+  hour_of_day = extract(hour FROM created_at AT TIME ZONE 'America/New_York')::smallint,
+  day_of_week = extract(dow FROM created_at AT TIME ZONE 'America/New_York')::smallint
+WHERE hour_of_day IS NULL OR day_of_week IS NULL;
+
+ALTER TABLE public.wait_times
+  ALTER COLUMN hour_of_day SET DEFAULT extract(hour FROM now() AT TIME ZONE 'America/New_York')::smallint,
+  ALTER COLUMN day_of_week SET DEFAULT extract(dow FROM now() AT TIME ZONE 'America/New_York')::smallint;
+
+ALTER TABLE public.wait_times DROP CONSTRAINT IF EXISTS wait_times_hour_of_day_check;
+ALTER TABLE public.wait_times
+  ADD CONSTRAINT wait_times_hour_of_day_check CHECK (hour_of_day BETWEEN 0 AND 23);
+
+ALTER TABLE public.wait_times DROP CONSTRAINT IF EXISTS wait_times_day_of_week_check;
+ALTER TABLE public.wait_times
+  ADD CONSTRAINT wait_times_day_of_week_check CHECK (day_of_week BETWEEN 0 AND 6);
+
+COMMENT ON COLUMN public.wait_times.hour_of_day IS
+  'NYC local hour (0-23) when the report was made. Kept after expires_at for forecasting.';
+COMMENT ON COLUMN public.wait_times.day_of_week IS
+  'NYC local weekday (0 = Sunday) when the report was made. Kept after expires_at for forecasting.';
+
+CREATE INDEX IF NOT EXISTS wait_times_forecast_idx
+  ON public.wait_times (day_of_week, hour_of_day, court_name);
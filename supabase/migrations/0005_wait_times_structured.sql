@@ -0,0 +1,52 @@
+-- Structured wait times: numeric minute range + optional court counts.
+-- `wait_time` stays as the display label so older clients keep working; new code reads the numbers.
+
+-- 1) Columns -----------------------------------------------------------------
+ALTER TABLE public.wait_times
+  ADD COLUMN IF NOT EXISTS wait_min_minutes integer,
+  ADD COLUMN IF NOT EXISTS wait_max_minutes integer,
+  ADD COLUMN IF NOT EXISTS rackets_on_fence smallint,
+  ADD COLUMN IF NOT EXISTS courts_in_use smallint;
+
+COMMENT ON COLUMN public.wait_times.wait_min_minutes IS 'Lower bound of the reported wait, in minutes.';
+COMMENT ON COLUMN public.wait_times.wait_max_minutes IS
+  'Upper bound of the reported wait, in minutes. NULL = open-ended ("more than …").';
+COMMENT ON COLUMN public.wait_times.rackets_on_fence IS 'Optional: rackets hung on the fence when reported.';
+COMMENT ON COLUMN public.wait_times.courts_in_use IS 'Optional: courts in play when reported.';
+
+-- 2) Migrate legacy free-text rows ------------------------------------------------
+-- Only the four bucket strings the app ever offered map to numbers; anything else stays NULL
+-- (shown as unknown / gray and left out of the forecast).
+UPDATE public.wait_times
+SET
+  wait_min_minutes = CASE
+    WHEN wait_time LIKE '%Less than 1 hour%' THEN 0
+    WHEN wait_time LIKE '%1-2 hours%' THEN 60
+    WHEN wait_time LIKE '%2-3 hours%' THEN 120
+    WHEN wait_time LIKE '%More than 3 hours%' THEN 180
+  END,
+  wait_max_minutes = CASE
+    WHEN wait_time LIKE '%Less than 1 hour%' THEN 60
+    WHEN wait_time LIKE '%1-2 hours%' THEN 120
+    WHEN wait_time LIKE '%2-3 hours%' THEN 180
+    ELSE NULL
+  END
+WHERE wait_min_minutes IS NULL;
+
+-- 3) Constraints -------------------------------------------------------------------
+ALTER TABLE public.wait_times DROP CONSTRAINT IF EXISTS wait_times_wait_range_check;
+ALTER TABLE public.wait_times
+  ADD CONSTRAINT wait_times_wait_range_check CHECK (
+    (wait_min_minutes IS NULL AND wait_max_minutes IS NULL)
+    OR (
+      wait_min_minutes >= 0
+      AND (wait_max_minutes IS NULL OR wait_max_minutes >= wait_min_minutes)
+    )
+  );
+
+ALTER TABLE public.wait_times DROP CONSTRAINT IF EXISTS wait_times_counts_check;
+ALTER TABLE public.wait_times
+  ADD CONSTRAINT wait_times_counts_check CHECK (
+    (rackets_on_fence IS NULL OR rackets_on_fence BETWEEN 0 AND 200)
+    AND (courts_in_use IS NULL OR courts_in_use BETWEEN 0 AND 100)
+  );
@@ -0,0 +1,68 @@
+-- Atomic wait-time votes: one vote per device per report, counted server-side.
+-- Replaces the client's read-then-write update: the only way to change the counts is `vote_wait_time()`.
+
+-- 1) Vote ledger ---------------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.wait_time_report_votes (
+  report_id uuid NOT NULL REFERENCES public.wait_times (id) ON DELETE CASCADE,
+  device_id text NOT NULL,
+  kind text NOT NULL
+    CONSTRAINT wait_time_report_votes_kind_check CHECK (kind IN ('confirmed', 'outdated')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (report_id, device_id)
+);
+
+COMMENT ON TABLE public.wait_time_report_votes IS
+  'One accurate/inaccurate vote per (report, device). Written only by vote_wait_time().';
+
+-- RLS on with no policies: anon/authenticated cannot read or write the ledger directly.
+ALTER TABLE public.wait_time_report_votes ENABLE ROW LEVEL SECURITY;
+
+-- 2) Vote function -----------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.vote_wait_time(p_report_id uuid, p_device_id text, p_kind text)
+RETURNS TABLE (accepted boolean, vote text, confirmed_count integer, outdated_count integer)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_inserted boolean;
+BEGIN
+  IF p_kind IS NULL OR p_kind NOT IN ('confirmed', 'outdated') THEN
+    RAISE EXCEPTION 'Unknown vote kind: %', p_kind USING ERRCODE = '22023';
+  END IF;
+  IF coalesce(length(trim(p_device_id)), 0) = 0 THEN
+    RAISE EXCEPTION 'device_id is required' USING ERRCODE = '22023';
+  END IF;
+
+  -- Row lock serializes concurrent votes on the same report.
+  PERFORM 1 FROM wait_times w WHERE w.id = p_report_id AND w.expires_at > now() FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Wait time report not found or expired' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO wait_time_report_votes (report_id, device_id, kind)
+  VALUES (p_report_id, p_device_id, p_kind)
+  ON CONFLICT (report_id, device_id) DO NOTHING;
+  v_inserted := FOUND;
+
+  IF v_inserted THEN
+    UPDATE wait_times w
+    SET
+      confirmed_count = w.confirmed_count + CASE WHEN p_kind = 'confirmed' THEN 1 ELSE 0 END,
+      outdated_count = w.outdated_count + CASE WHEN p_kind = 'outdated' THEN 1 ELSE 0 END
+    WHERE w.id = p_report_id;
+  END IF;
+
+  -- Repeat votes are not counted; the caller gets back the vote already on record.
+  RETURN QUERY
+  SELECT v_inserted, v.kind, w.confirmed_count, w.outdated_count
+  FROM wait_times w
+  JOIN wait_time_report_votes v ON v.report_id = w.id AND v.device_id = p_device_id
+  WHERE w.id = p_report_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.vote_wait_time(uuid, text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.vote_wait_time(uuid, text, text) TO anon, authenticated;
+
@@ -0,0 +1,109 @@
+-- Lock down `wait_times`: anon/authenticated keep SELECT + INSERT only, and expired rows are
+-- archived server-side instead of being deleted from browsers.
+-- The last section checks the result as `anon` and aborts the migration if writes are still open.
+
+-- 1) Table privileges -----------------------------------------------------------
+-- Policies alone are not enough: Supabase grants ALL on public tables to anon by default.
+DROP POLICY IF EXISTS "wait_times_update_public" ON public.wait_times;
+DROP POLICY IF EXISTS "wait_times_delete_public" ON public.wait_times;
+
+REVOKE UPDATE, DELETE, TRUNCATE ON public.wait_times FROM anon, authenticated;
+GRANT SELECT, INSERT ON public.wait_times TO anon, authenticated;
+
+-- 2) Archive table ---------------------------------------------------------------
+-- Same columns as wait_times plus archived_at. If wait_times gains a column, add it here and to
+-- the column lists in archive_expired_wait_times().
+CREATE TABLE IF NOT EXISTS public.wait_times_archive (
+  LIKE public.wait_times INCLUDING DEFAULTS INCLUDING CONSTRAINTS
+);
+ALTER TABLE public.wait_times_archive
+  ADD COLUMN IF NOT EXISTS archived_at timestamptz NOT NULL DEFAULT now();
+
+CREATE UNIQUE INDEX IF NOT EXISTS wait_times_archive_id_idx ON public.wait_times_archive (id);
+CREATE INDEX IF NOT EXISTS wait_times_archive_forecast_idx
+  ON public.wait_times_archive (day_of_week, hour_of_day, court_name);
+
+COMMENT ON TABLE public.wait_times_archive IS
+  'Expired wait_times rows moved by archive_expired_wait_times(); feeds wait_time_forecast.';
+
+ALTER TABLE public.wait_times_archive ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.wait_times_archive FROM anon, authenticated;
+
+-- 3) Retention function + schedule --------------------------------------------------
+CREATE OR REPLACE FUNCTION public.archive_expired_wait_times()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_moved integer;
+BEGIN
+  WITH moved AS (
+    DELETE FROM wait_times
+    WHERE expires_at <= now()
+    RETURNING *
+  )
+  INSERT INTO wait_times_archive (
+    id, court_name, wait_time, comment, device_id, confirmed_count, outdated_count, created_at,
+    expires_at, hour_of_day, day_of_week, wait_min_minutes, wait_max_minutes, rackets_on_fence,
+    courts_in_use, archived_at
+  )
+  SELECT
+    id, court_name, wait_time, comment, device_id, confirmed_count, outdated_count, created_at,
+    expires_at, hour_of_day, day_of_week, wait_min_minutes, wait_max_minutes, rackets_on_fence,
+    courts_in_use, now()
+  FROM moved
+  ON CONFLICT (id) DO NOTHING;
+  GET DIAGNOSTICS v_moved = ROW_COUNT;
+  RETURN v_moved;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.archive_expired_wait_times() FROM PUBLIC, anon, authenticated;
+
+-- Every 15 minutes via pg_cron (Dashboard → Database → Extensions → pg_cron). Without the
+-- extension, call `select public.archive_expired_wait_times();` from any scheduler instead.
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule(
+      'archive-expired-wait-times',
+      '*/15 * * * *',
+      'select public.archive_expired_wait_times()'
+    );
+  END IF;
+END;
+$$;
+
+-- 4) Verify as anon -----------------------------------------------------------------
+-- `WHERE false` touches no rows; the privilege check still runs, so an open grant fails here.
+DO $$
+BEGIN
+  SET LOCAL ROLE anon;
+
+  BEGIN
+    DELETE FROM public.wait_times WHERE false;
+    RAISE EXCEPTION 'anon can still DELETE from wait_times';
+  EXCEPTION WHEN insufficient_privilege THEN
+    NULL;
+  END;
+
+  BEGIN
+    UPDATE public.wait_times SET confirmed_count = confirmed_count + 1 WHERE false;
+    RAISE EXCEPTION 'anon can still UPDATE wait_times';
+  EXCEPTION WHEN insufficient_privilege THEN
+    NULL;
+  END;
+
+  BEGIN
+    PERFORM public.archive_expired_wait_times();
+    RAISE EXCEPTION 'anon can still run archive_expired_wait_times()';
+  EXCEPTION WHEN insufficient_privilege THEN
+    NULL;
+  END;
+
+  PERFORM 1 FROM public.wait_times LIMIT 1;
+  RESET ROLE;
+END;
+$$;
@@ -0,0 +1,38 @@
+-- Historical forecast: median wait range per court, weekday and NYC hour, over live and archived
+-- reports. "Credible" mirrors the live card: hidden once outdated >= 2 and outdated >= 2 × confirmed.
+-- Open-ended reports sort above every bounded one; the sentinel is mapped back to NULL.
+
+DROP VIEW IF EXISTS public.wait_time_forecast;
+CREATE VIEW public.wait_time_forecast AS
+WITH history AS (
+  SELECT court_name, day_of_week, hour_of_day, wait_min_minutes, wait_max_minutes,
+    confirmed_count, outdated_count, created_at
+  FROM public.wait_times
+  UNION ALL
+  SELECT court_name, day_of_week, hour_of_day, wait_min_minutes, wait_max_minutes,
+    confirmed_count, outdated_count, created_at
+  FROM public.wait_times_archive
+)
+SELECT
+  court_name,
+  day_of_week,
+  hour_of_day,
+  percentile_disc(0.5) WITHIN GROUP (ORDER BY wait_min_minutes) AS typical_min_minutes,
+  NULLIF(
+    percentile_disc(0.5) WITHIN GROUP (ORDER BY coalesce(wait_max_minutes, 2147483647)),
+    2147483647
+  ) AS typical_max_minutes,
+  count(*)::integer AS sample_count,
+  max(created_at) AS last_reported_at
+FROM history
+WHERE hour_of_day IS NOT NULL
+  AND day_of_week IS NOT NULL
+  AND wait_min_minutes IS NOT NULL
+  AND NOT (outdated_count >= 2 AND outdated_count >= 2 * confirmed_count)
+GROUP BY court_name, day_of_week, hour_of_day;
+
+COMMENT ON VIEW public.wait_time_forecast IS
+  'Median wait range per court_name / day_of_week / hour_of_day from live and archived reports.';
+
+GRANT SELECT ON public.wait_time_forecast TO anon, authenticated;
+
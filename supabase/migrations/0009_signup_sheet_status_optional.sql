@@ -0,0 +1,12 @@
+-- Sign-up sheet reports carry a reporter-picked status, a photo, or both. A photo-only report has
+-- no status; a report with neither is rejected.
+
+ALTER TABLE public.signup_sheet_reports ALTER COLUMN status DROP NOT NULL;
+
+ALTER TABLE public.signup_sheet_reports DROP CONSTRAINT IF EXISTS signup_sheet_reports_status_or_photo_check;
+ALTER TABLE public.signup_sheet_reports
+  ADD CONSTRAINT signup_sheet_reports_status_or_photo_check
+  CHECK (status IS NOT NULL OR photo_url IS NOT NULL);
+
+COMMENT ON COLUMN public.signup_sheet_reports.status IS
+  'How full the sheet is, as picked by the reporter. NULL on photo-only reports.';
@@ -0,0 +1,8 @@
+-- Server-side cap for sign-up sheet photos. The app downscales and re-encodes every photo to WebP
+-- or JPEG before upload (src/lib/signupPhoto.ts); Storage rejects anything bigger or of another type.
+
+UPDATE storage.buckets
+SET
+  file_size_limit = 2097152,
+  allowed_mime_types = ARRAY['image/webp', 'image/jpeg']
+WHERE id = 'signup-sheet-photos';
@@ -0,0 +1,49 @@
+-- Sign-up sheet photos show people's names, so the bucket is private. Reports store the object
+-- path instead of a permanent public URL; the app signs short-lived URLs, and Storage only signs
+-- photos of unexpired reports. `npm run photos:cleanup` deletes the objects of expired reports.
+
+ALTER TABLE public.signup_sheet_reports ADD COLUMN IF NOT EXISTS photo_path text;
+
+-- Older rows stored `.../storage/v1/object/public/signup-sheet-photos/<path>`.
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'signup_sheet_reports' AND column_name = 'photo_url'
+  ) THEN
+    UPDATE public.signup_sheet_reports
+    SET photo_path = substring(photo_url FROM '/object/public/signup-sheet-photos/(.+)$')
+    WHERE photo_path IS NULL AND photo_url IS NOT NULL;
+  END IF;
+END;
+$$;
+
+ALTER TABLE public.signup_sheet_reports DROP CONSTRAINT IF EXISTS signup_sheet_reports_status_or_photo_check;
+ALTER TABLE public.signup_sheet_reports DROP COLUMN IF EXISTS photo_url;
+ALTER TABLE public.signup_sheet_reports
+  ADD CONSTRAINT signup_sheet_reports_status_or_photo_check
+  CHECK (status IS NOT NULL OR photo_path IS NOT NULL);
+
+CREATE INDEX IF NOT EXISTS signup_sheet_reports_photo_path_idx
+  ON public.signup_sheet_reports (photo_path)
+  WHERE photo_path IS NOT NULL;
+
+COMMENT ON COLUMN public.signup_sheet_reports.photo_path IS
+  'Object name in the private signup-sheet-photos bucket. NULL on status-only reports.';
+
+UPDATE storage.buckets SET public = false WHERE id = 'signup-sheet-photos';
+
+-- Reading (and so signing) a photo needs a report that still shows it; the report table's own
+-- select policy already hides expired rows.
+DROP POLICY IF EXISTS "signup_photos_select_anon" ON storage.objects;
+CREATE POLICY "signup_photos_select_anon"
+  ON storage.objects
+  FOR SELECT
+  TO anon, authenticated
+  USING (
+    bucket_id = 'signup-sheet-photos'
+    AND EXISTS (
+      SELECT 1 FROM public.signup_sheet_reports r
+      WHERE r.photo_path = storage.objects.name AND r.expires_at > now()
+    )
+  );
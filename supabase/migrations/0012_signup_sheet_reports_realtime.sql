@@ -0,0 +1,16 @@
+-- Realtime for `signup_sheet_reports`, so the Sheets tab shows new reports as they arrive.
+-- Clients only receive rows the select policy lets them read, i.e. unexpired reports.
+-- Skipped when the publication does not exist (plain Postgres without supabase/local/bootstrap.sql).
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+    AND NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'signup_sheet_reports'
+    )
+  THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.signup_sheet_reports;
+  END IF;
+END;
+$$;
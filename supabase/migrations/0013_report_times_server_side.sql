@@ -0,0 +1,61 @@
+-- Report times the browser cannot skew. A queued offline report still sends its own created_at
+-- (when the player saw the court), so the API roles may backdate a report within its lifetime and
+-- no further; future times become now() and expires_at is capped at created_at + lifetime. The
+-- forecast's hour and weekday (0004) are computed from that created_at, never taken from the row.
+-- Owner and service-role inserts (imports, test fixtures) keep the values they send.
+
+CREATE OR REPLACE FUNCTION public.bound_report_times()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+  lifetime interval := TG_ARGV[0]::interval;
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') THEN
+    RETURN NEW;
+  END IF;
+  IF NEW.created_at IS NULL OR NEW.created_at > now() THEN
+    NEW.created_at := now();
+  END IF;
+  IF NEW.created_at < now() - lifetime THEN
+    RAISE EXCEPTION 'created_at is more than % in the past', lifetime
+      USING ERRCODE = 'check_violation';
+  END IF;
+  NEW.expires_at := least(NEW.expires_at, NEW.created_at + lifetime);
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_wait_time_hour_weekday()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated') OR NEW.hour_of_day IS NULL OR NEW.day_of_week IS NULL THEN
+    NEW.hour_of_day := extract(hour FROM NEW.created_at AT TIME ZONE 'America/New_York')::smallint;
+    NEW.day_of_week := extract(dow FROM NEW.created_at AT TIME ZONE 'America/New_York')::smallint;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.bound_report_times() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.set_wait_time_hour_weekday() FROM PUBLIC, anon, authenticated;
+
+-- BEFORE triggers fire in name order: the times are bounded before the hour is derived from them.
+DROP TRIGGER IF EXISTS wait_times_bound_times ON public.wait_times;
+CREATE TRIGGER wait_times_bound_times
+  BEFORE INSERT ON public.wait_times
+  FOR EACH ROW EXECUTE FUNCTION public.bound_report_times('2 hours');
+
+DROP TRIGGER IF EXISTS wait_times_hour_weekday ON public.wait_times;
+CREATE TRIGGER wait_times_hour_weekday
+  BEFORE INSERT ON public.wait_times
+  FOR EACH ROW EXECUTE FUNCTION public.set_wait_time_hour_weekday();
+
+DROP TRIGGER IF EXISTS signup_sheet_reports_bound_times ON public.signup_sheet_reports;
+CREATE TRIGGER signup_sheet_reports_bound_times
+  BEFORE INSERT ON public.signup_sheet_reports
+  FOR EACH ROW EXECUTE FUNCTION public.bound_report_times('8 hours');
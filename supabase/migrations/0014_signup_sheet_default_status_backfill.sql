@@ -0,0 +1,10 @@
+-- Until 0009 the app never asked reporters for a status: every report was a photo sent with
+-- status 'few_names' filled in by the client. Those rows show a status nobody picked, so they
+-- become photo-only reports. Rows from after 0009 was applied keep their status, since reporters
+-- can now pick 'few_names' themselves.
+
+UPDATE public.signup_sheet_reports
+SET status = NULL
+WHERE status = 'few_names'
+  AND photo_path IS NOT NULL
+  AND created_at < (SELECT applied_at FROM migrations.schema_migrations WHERE version = '0009');
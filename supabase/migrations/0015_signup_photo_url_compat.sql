@@ -0,0 +1,28 @@
+-- Two follow-ups to 0011.
+--
+-- photo_url is back as a nullable, unused column: app bundles cached from before 0011 still send
+-- it, and PostgREST rejects an insert naming a column that does not exist. Nothing reads it; a
+-- later migration drops it again once those bundles have expired.
+--
+-- `npm run photos:cleanup` now keeps expired reports and only clears their photo: it deletes the
+-- object, then sets photo_path to NULL and photo_deleted_at to when it did. A cleared photo-only
+-- report has neither status nor photo, so the check accepts photo_deleted_at instead. Browsers
+-- insert through a column grant without photo_deleted_at, so they cannot file an empty report.
+
+ALTER TABLE public.signup_sheet_reports
+  ADD COLUMN IF NOT EXISTS photo_url text,
+  ADD COLUMN IF NOT EXISTS photo_deleted_at timestamptz;
+
+COMMENT ON COLUMN public.signup_sheet_reports.photo_url IS
+  'Unused; accepted only from app bundles older than 0011. Dropped in a later migration.';
+COMMENT ON COLUMN public.signup_sheet_reports.photo_deleted_at IS
+  'When photos:cleanup deleted the photo of this expired report and cleared photo_path.';
+
+ALTER TABLE public.signup_sheet_reports DROP CONSTRAINT IF EXISTS signup_sheet_reports_status_or_photo_check;
+ALTER TABLE public.signup_sheet_reports
+  ADD CONSTRAINT signup_sheet_reports_status_or_photo_check
+  CHECK (status IS NOT NULL OR photo_path IS NOT NULL OR photo_deleted_at IS NOT NULL);
+
+REVOKE INSERT ON public.signup_sheet_reports FROM anon, authenticated;
+GRANT INSERT (id, court_name, borough, status, photo_path, photo_url, device_id, created_at, expires_at)
+  ON public.signup_sheet_reports TO anon, authenticated;
@@ -0,0 +1,20 @@
+-- A report may only show its own photo. The app names each object after its report
+-- (`<id>.jpg` or `<id>.webp`), so a browser can no longer insert a report whose photo_path points
+-- at an object another report uploaded and get it signed again after that report expired. The
+-- check is NOT VALID because rows from before this have random object names; it still applies to
+-- every new or updated row. photo_path is also unique, which covers those older objects.
+--
+-- Reports from app bundles older than 0011 send photo_url (a public URL into what is now a
+-- private bucket) and no photo_path. Their photos are intentionally not shown: the object is not
+-- named after the report, so mapping the URL to a path would reopen the hole closed here.
+
+ALTER TABLE public.signup_sheet_reports DROP CONSTRAINT IF EXISTS signup_sheet_reports_photo_path_own_check;
+ALTER TABLE public.signup_sheet_reports
+  ADD CONSTRAINT signup_sheet_reports_photo_path_own_check
+  CHECK (photo_path IS NULL OR photo_path ~ ('^' || id::text || '\.(jpg|webp)$'))
+  NOT VALID;
+
+DROP INDEX IF EXISTS public.signup_sheet_reports_photo_path_idx;
+CREATE UNIQUE INDEX IF NOT EXISTS signup_sheet_reports_photo_path_key
+  ON public.signup_sheet_reports (photo_path)
+  WHERE photo_path IS NOT NULL;
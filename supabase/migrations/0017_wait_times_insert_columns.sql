@@ -0,0 +1,10 @@
+-- Browsers could still set the vote counts by inserting a report with them filled in. Inserts now
+-- go through a column grant without confirmed_count and outdated_count, so a new report starts at
+-- zero and vote_wait_time() (0006) stays the only way to change them. hour_of_day and day_of_week
+-- stay in the grant because older app bundles send them; the 0013 trigger overwrites both.
+
+REVOKE INSERT ON public.wait_times FROM anon, authenticated;
+GRANT INSERT (
+  id, court_name, wait_time, wait_min_minutes, wait_max_minutes, rackets_on_fence, courts_in_use,
+  comment, device_id, hour_of_day, day_of_week, created_at, expires_at
+) ON public.wait_times TO anon, authenticated;
@@ -0,0 +1,12 @@
+-- The 0014 backfill again, decided by the reports alone. 0014 dated the status picker by when this
+-- database applied 0009, read from the migration runner's own table; a database migrated by other
+-- tooling has no such table, and a restored or copied one has the wrong date. The cut-over is now
+-- fixed at when 0009 was written: every report created before it had its status filled in by
+-- the client. Databases that already ran 0014 are unchanged by this. Reports whose photo
+-- photos:cleanup has since deleted (0015) count as photo reports.
+
+UPDATE public.signup_sheet_reports
+SET status = NULL
+WHERE status = 'few_names'
+  AND (photo_path IS NOT NULL OR photo_deleted_at IS NOT NULL)
+  AND created_at < '2026-10-19 16:39:47+00';
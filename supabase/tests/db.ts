@@ -0,0 +1,25 @@
+import { DEFAULT_DATABASE_URL, LOCAL_HOSTS, literal, psql, rows } from '../../scripts/psql.mjs';
+
+/** The database from `npm run db:reset`; the tests write to it, so only local hosts are allowed. */
+export const databaseUrl = process.env.DATABASE_URL || DEFAULT_DATABASE_URL;
+
+if (!LOCAL_HOSTS.has(new URL(databaseUrl).hostname)) {
+  throw new Error(`Refusing to run database tests against ${new URL(databaseUrl).hostname}.`);
+}
+
+export { literal };
+
+/**
+ * Runs `sql` in a transaction that is always rolled back, as `role` when given. The API roles are
+ * NOLOGIN in Supabase too: PostgREST connects as its own user and switches with SET ROLE, as here.
+ * Rejects with the database error when a statement fails.
+ */
+export function query(sql: string, { role }: { role?: 'anon' | 'authenticated' } = {}): string[][] {
+  const setRole = role ? `SET LOCAL ROLE ${role};\n` : '';
+  return rows(databaseUrl, null, { input: `BEGIN;\n${setRole}${sql};\nROLLBACK;\n` });
+}
+
+/** Runs and commits `sql` as the database owner, e.g. to load or remove fixtures. */
+export function execute(sql: string): void {
+  psql(databaseUrl, { sql });
+}
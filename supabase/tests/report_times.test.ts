@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { query } from './db';
+
+const COURT = 'Report Times Test Court';
+
+function reportWaitTime(columns: Record<string, string>): string {
+  const values = {
+    court_name: `'${COURT}'`,
+    wait_time: "'1-2 hours'",
+    wait_min_minutes: '60',
+    wait_max_minutes: '120',
+    expires_at: "now() + interval '2 hours'",
+    ...columns,
+  };
+  return `INSERT INTO public.wait_times (${Object.keys(values).join(', ')})
+    VALUES (${Object.values(values).join(', ')})`;
+}
+
+/** Inserts one report as anon and reads back what the database stored. */
+function storedAsAnon(columns: Record<string, string>) {
+  const [[ageSeconds, lifetimeSeconds, hour, nycHour, weekday, nycWeekday]] = query(
+    `${reportWaitTime(columns)};
+    SELECT extract(epoch FROM now() - created_at)::int, extract(epoch FROM expires_at - created_at)::int,
+      hour_of_day, extract(hour FROM created_at AT TIME ZONE 'America/New_York')::int,
+      day_of_week, extract(dow FROM created_at AT TIME ZONE 'America/New_York')::int
+    FROM public.wait_times WHERE court_name = '${COURT}'`,
+    { role: 'anon' }
+  );
+  return {
+    ageSeconds: Number(ageSeconds),
+    lifetimeSeconds: Number(lifetimeSeconds),
+    hourMatches: hour === nycHour,
+    weekdayMatches: weekday === nycWeekday,
+  };
+}
+
+// Migration 0013: browsers cannot backdate reports or pick the forecast slot.
+describe('report times as anon', () => {
+  it('keeps a queued report time within the lifetime', () => {
+    expect(storedAsAnon({ created_at: "now() - interval '90 minutes'" }).ageSeconds).toBe(90 * 60);
+  });
+
+  it('rejects a report backdated past its lifetime', () => {
+    expect(() => storedAsAnon({ created_at: "now() - interval '3 hours'" })).toThrow(
+      /created_at is more than 02:00:00 in the past/
+    );
+    expect(() =>
+      query(
+        `INSERT INTO public.signup_sheet_reports (court_name, borough, status, created_at, expires_at)
+        VALUES ('${COURT}', 'Manhattan', 'few_names', now() - interval '9 hours', now())`,
+        { role: 'anon' }
+      )
+    ).toThrow(/created_at is more than 08:00:00 in the past/);
+  });
+
+  it('moves a future report time to now', () => {
+    expect(storedAsAnon({ created_at: "now() + interval '1 day'" }).ageSeconds).toBe(0);
+  });
+
+  it('caps expires_at at the lifetime', () => {
+    expect(storedAsAnon({ expires_at: "now() + interval '1 year'" }).lifetimeSeconds).toBe(2 * 60 * 60);
+  });
+
+  it('derives the hour and weekday from created_at', () => {
+    const stored = storedAsAnon({
+      created_at: "now() - interval '1 hour'",
+      hour_of_day: '(extract(hour FROM now() AT TIME ZONE \'America/New_York\')::int + 12) % 24',
+      day_of_week: '(extract(dow FROM now() AT TIME ZONE \'America/New_York\')::int + 3) % 7',
+    });
+    expect(stored).toMatchObject({ hourMatches: true, weekdayMatches: true });
+  });
+
+  it('leaves owner inserts alone', () => {
+    const [[hour, age]] = query(
+      `${reportWaitTime({ created_at: "now() - interval '30 days'", hour_of_day: '5', day_of_week: '1' })};
+      SELECT hour_of_day, extract(day FROM now() - created_at)::int
+      FROM public.wait_times WHERE court_name = '${COURT}'`
+    );
+    expect([Number(hour), Number(age)]).toEqual([5, 30]);
+  });
+});
@@ -0,0 +1,209 @@
+import { spawn, spawnSync, type ChildProcess } from 'node:child_process';
+import { randomUUID } from 'node:crypto';
+import { existsSync, mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { databaseUrl, execute, literal, query } from './db';
+
+const PORT = 54339;
+const STORAGE_URL = `http://localhost:${PORT}/storage/v1`;
+const SERVICE_KEY = 'test-service-role-key';
+const BUCKET = 'signup-sheet-photos';
+const COURT = 'Photo Test Court';
+const PHOTO = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10]);
+
+let storage: ChildProcess;
+let filesDir: string;
+/** Every object name this file created, for the fixture cleanup. */
+const names = new Set<string>();
+
+/** A photo named after its report, as the app and migration 0016 require. */
+function newPhoto(): { id: string; name: string } {
+  const id = randomUUID();
+  names.add(`${id}.jpg`);
+  return { id, name: `${id}.jpg` };
+}
+
+/** Starts `npm run storage:local` on a spare port and directory; resolves once it listens. */
+function startStorage(): Promise<ChildProcess> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(process.execPath, ['scripts/storage-local.mjs'], {
+      env: {
+        ...process.env,
+        DATABASE_URL: databaseUrl,
+        STORAGE_PORT: String(PORT),
+        STORAGE_DIR: filesDir,
+        SUPABASE_SERVICE_ROLE_KEY: SERVICE_KEY,
+      },
+      stdio: ['ignore', 'pipe', 'inherit'],
+    });
+    child.stdout!.on('data', (chunk: Buffer) => {
+      if (chunk.toString().includes('Local storage on')) resolve(child);
+    });
+    child.on('exit', (code) => reject(new Error(`storage:local exited with ${code}`)));
+  });
+}
+
+async function upload(name: string): Promise<void> {
+  names.add(name);
+  const response = await fetch(`${STORAGE_URL}/object/${BUCKET}/${name}`, {
+    method: 'POST',
+    headers: { apikey: 'anon-key', 'Content-Type': 'image/jpeg' },
+    body: PHOTO,
+  });
+  expect(response.status).toBe(200);
+}
+
+/** Signs as anon, like the app; resolves to the signed URL or null when Storage refuses. */
+async function signAsAnon(name: string): Promise<string | null> {
+  const response = await fetch(`${STORAGE_URL}/object/sign/${BUCKET}`, {
+    method: 'POST',
+    headers: { apikey: 'anon-key', 'Content-Type': 'application/json' },
+    body: JSON.stringify({ expiresIn: 60, paths: [name] }),
+  });
+  const [result] = (await response.json()) as { signedURL: string | null }[];
+  return result.signedURL;
+}
+
+function addReport(photo: { id: string; name: string }, expires: string, status = "'few_names'"): void {
+  execute(
+    `INSERT INTO public.signup_sheet_reports (id, court_name, borough, status, photo_path, expires_at)
+     VALUES (${literal(photo.id)}, ${literal(COURT)}, 'Manhattan', ${status}, ${literal(photo.name)}, ${expires})`
+  );
+}
+
+function objectExists(name: string): boolean {
+  const [[count]] = query(
+    `SELECT count(*) FROM storage.objects WHERE bucket_id = ${literal(BUCKET)} AND name = ${literal(name)}`
+  );
+  return Number(count) > 0 && existsSync(join(filesDir, BUCKET, name));
+}
+
+function runCleanup() {
+  return spawnSync(process.execPath, ['scripts/cleanup-signup-photos.mjs'], {
+    env: {
+      ...process.env,
+      DATABASE_URL: databaseUrl,
+      NEXT_PUBLIC_SUPABASE_URL: `http://localhost:${PORT}`,
+      SUPABASE_SERVICE_ROLE_KEY: SERVICE_KEY,
+    },
+    encoding: 'utf8',
+    timeout: 60_000,
+  });
+}
+
+function removeFixtures(): void {
+  const objects = names.size > 0 ? [...names].map(literal).join(', ') : 'NULL';
+  execute(
+    `DELETE FROM public.signup_sheet_reports WHERE court_name = ${literal(COURT)};
+     DELETE FROM storage.objects WHERE bucket_id = ${literal(BUCKET)} AND name IN (${objects})`
+  );
+}
+
+beforeAll(async () => {
+  filesDir = mkdtempSync(join(tmpdir(), 'storage-local-'));
+  removeFixtures();
+  storage = await startStorage();
+}, 30_000);
+
+afterAll(() => {
+  storage?.removeAllListeners('exit');
+  storage?.kill();
+  removeFixtures();
+  rmSync(filesDir, { recursive: true, force: true });
+});
+
+// Migration 0011 and scripts/storage-local.mjs: photos are only reachable through signed URLs of
+// unexpired reports.
+describe('signup sheet photo URLs', () => {
+  it('signs a photo only while a live report shows it', async () => {
+    const photo = newPhoto();
+    const { name } = photo;
+    await upload(name);
+    expect(await signAsAnon(name)).toBeNull();
+
+    addReport(photo, "now() + interval '1 hour'");
+    const signed = await signAsAnon(name);
+    expect(signed).not.toBeNull();
+    const download = await fetch(`${STORAGE_URL}${signed}`);
+    expect(download.status).toBe(200);
+    expect(Buffer.from(await download.arrayBuffer())).toEqual(PHOTO);
+
+    execute(`UPDATE public.signup_sheet_reports SET expires_at = now() WHERE photo_path = ${literal(name)}`);
+    expect(await signAsAnon(name)).toBeNull();
+  });
+
+  it('refuses public URLs', async () => {
+    const photo = newPhoto();
+    await upload(photo.name);
+    addReport(photo, "now() + interval '1 hour'");
+    expect((await fetch(`${STORAGE_URL}/object/public/${BUCKET}/${photo.name}`)).status).toBe(400);
+  });
+
+  // Migration 0016.
+  it("refuses a report that points at another report's photo", async () => {
+    const photo = newPhoto();
+    await upload(photo.name);
+    addReport(photo, "now() - interval '1 minute'");
+    const reuse = (id: string) =>
+      query(
+        `INSERT INTO public.signup_sheet_reports (id, court_name, borough, photo_path, expires_at)
+         VALUES (${literal(id)}, ${literal(COURT)}, 'Manhattan', ${literal(photo.name)}, now() + interval '1 hour')`,
+        { role: 'anon' }
+      );
+    expect(() => reuse(randomUUID())).toThrow(/signup_sheet_reports_photo_path_own_check/);
+    expect(() => reuse(photo.id)).toThrow(/duplicate key/);
+    expect(await signAsAnon(photo.name)).toBeNull();
+  });
+});
+
+// scripts/cleanup-signup-photos.mjs and migration 0015.
+describe('photos:cleanup', () => {
+  it('deletes expired and orphaned photos and keeps the reports', async () => {
+    removeFixtures();
+    const [expiredPhoto, expiredPhotoOnlyPhoto, livePhoto, orphanPhoto, recentPhoto] = Array.from(
+      { length: 5 },
+      newPhoto
+    );
+    const [expired, expiredPhotoOnly, live, orphan, recentUpload] = [
+      expiredPhoto,
+      expiredPhotoOnlyPhoto,
+      livePhoto,
+      orphanPhoto,
+      recentPhoto,
+    ].map((photo) => photo.name);
+    for (const name of [expired, expiredPhotoOnly, live, orphan, recentUpload]) await upload(name);
+    addReport(expiredPhoto, "now() - interval '1 minute'");
+    addReport(expiredPhotoOnlyPhoto, "now() - interval '1 minute'", 'NULL');
+    addReport(livePhoto, "now() + interval '1 hour'");
+    execute(`UPDATE storage.objects SET created_at = now() - interval '2 days' WHERE name = ${literal(orphan)}`);
+
+    const result = runCleanup();
+    expect(result.stderr).toBe('');
+    expect(result.status).toBe(0);
+
+    expect([expired, expiredPhotoOnly, orphan].filter(objectExists)).toEqual([]);
+    expect([live, recentUpload].filter(objectExists)).toEqual([live, recentUpload]);
+    const reports = query(
+      `SELECT coalesce(status, 'none'), coalesce(photo_path, 'none'),
+         CASE WHEN photo_deleted_at IS NULL THEN 'photo kept' ELSE 'photo deleted' END
+       FROM public.signup_sheet_reports WHERE court_name = ${literal(COURT)} AND expires_at <= now()
+       ORDER BY status NULLS FIRST`
+    );
+    expect(reports).toEqual([
+      ['none', 'none', 'photo deleted'],
+      ['few_names', 'none', 'photo deleted'],
+    ]);
+  });
+
+  it('is the only writer of photo_deleted_at', () => {
+    expect(() =>
+      query(
+        `INSERT INTO public.signup_sheet_reports (court_name, borough, expires_at, photo_deleted_at)
+         VALUES (${literal(COURT)}, 'Manhattan', now() + interval '1 hour', now())`,
+        { role: 'anon' }
+      )
+    ).toThrow(/permission denied for table signup_sheet_reports/);
+  });
+});
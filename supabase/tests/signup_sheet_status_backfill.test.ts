@@ -0,0 +1,54 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { query } from './db';
+
+const BACKFILL = readFileSync(
+  new URL('../migrations/0018_signup_sheet_default_status_cutover.sql', import.meta.url),
+  'utf8'
+);
+const CUT_OVER = /created_at < ('[^']+')/.exec(BACKFILL)![1];
+const COURT = 'Backfill Test Court';
+
+type Photo = 'photo' | 'deleted photo' | 'none';
+
+/** Loads reports from an hour either side of the cut-over, re-runs the backfill and reads the statuses. */
+function statusesAfterBackfill(reports: { status: string; photo: Photo; beforeStatusPicker: boolean }[]) {
+  const ids = reports.map((_, i) => `00000000-0000-4000-8000-${String(i).padStart(12, '0')}`);
+  const inserts = reports.map(
+    (r, i) => `INSERT INTO public.signup_sheet_reports
+        (id, court_name, borough, status, photo_path, photo_deleted_at, created_at, expires_at)
+      VALUES ('${ids[i]}', '${COURT}', 'Manhattan', '${r.status}',
+        ${r.photo === 'photo' ? `'${ids[i]}.jpg'` : 'NULL'}, ${r.photo === 'deleted photo' ? 'now()' : 'NULL'},
+        timestamptz ${CUT_OVER} + interval '${r.beforeStatusPicker ? '-1 hour' : '1 hour'}', now())`
+  );
+  return query(
+    `${inserts.join(';\n')};
+    ${BACKFILL};
+    SELECT coalesce(status, 'none') FROM public.signup_sheet_reports
+    WHERE court_name = '${COURT}' ORDER BY id`
+  ).map(([status]) => status);
+}
+
+// Migration 0018 (0014 by a fixed date): statuses the client filled in before reporters could pick
+// one are cleared.
+describe('signup_sheet_reports status backfill', () => {
+  it('clears the defaulted status on photo reports from before 0009', () => {
+    expect(
+      statusesAfterBackfill([
+        { status: 'few_names', photo: 'photo', beforeStatusPicker: true },
+        { status: 'few_names', photo: 'deleted photo', beforeStatusPicker: true },
+      ])
+    ).toEqual(['none', 'none']);
+  });
+
+  it('keeps statuses reporters picked', () => {
+    expect(
+      statusesAfterBackfill([
+        { status: 'few_names', photo: 'photo', beforeStatusPicker: false },
+        { status: 'sheet_full', photo: 'photo', beforeStatusPicker: true },
+        { status: 'few_names', photo: 'none', beforeStatusPicker: false },
+        { status: 'few_names', photo: 'none', beforeStatusPicker: true },
+      ])
+    ).toEqual(['few_names', 'sheet_full', 'few_names', 'few_names']);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { literal, query } from './db';
+
+type Fixture = {
+  table: 'wait_times' | 'wait_times_archive';
+  court: string;
+  dow: number;
+  hour: number;
+  min: number | null;
+  max: number | null;
+  confirmed?: number;
+  outdated?: number;
+};
+
+const COURT_A = 'Forecast Test Court A';
+const COURT_B = 'Forecast Test Court B';
+
+function insert(f: Fixture): string {
+  const sqlNumber = (n: number | null) => (n === null ? 'NULL' : String(n));
+  return `INSERT INTO public.${f.table}
+    (court_name, wait_time, wait_min_minutes, wait_max_minutes, day_of_week, hour_of_day,
+     confirmed_count, outdated_count, expires_at)
+    VALUES (${literal(f.court)}, 'fixture', ${sqlNumber(f.min)}, ${sqlNumber(f.max)}, ${f.dow}, ${f.hour},
+     ${f.confirmed ?? 0}, ${f.outdated ?? 0}, now() - interval '1 day')`;
+}
+
+/** Loads the fixtures and reads the view back in one rolled-back transaction. */
+function forecast(fixtures: Fixture[]) {
+  const result = query(
+    `${fixtures.map(insert).join(';\n')};
+    SELECT court_name, day_of_week, hour_of_day, typical_min_minutes,
+      coalesce(typical_max_minutes::text, 'open'), sample_count
+    FROM public.wait_time_forecast
+    WHERE court_name IN (${literal(COURT_A)}, ${literal(COURT_B)})
+    ORDER BY court_name, day_of_week, hour_of_day`
+  );
+  return result.map(([court, dow, hour, min, max, samples]) => ({
+    court,
+    dow: Number(dow),
+    hour: Number(hour),
+    min: Number(min),
+    max: max === 'open' ? null : Number(max),
+    samples: Number(samples),
+  }));
+}
+
+// Migration 0008: median range per court, weekday and hour over live and archived reports.
+describe('wait_time_forecast', () => {
+  it('takes the median over live and archived rows of the same slot', () => {
+    const rows = forecast([
+      { table: 'wait_times', court: COURT_A, dow: 2, hour: 18, min: 0, max: 60 },
+      { table: 'wait_times_archive', court: COURT_A, dow: 2, hour: 18, min: 60, max: 120 },
+      { table: 'wait_times_archive', court: COURT_A, dow: 2, hour: 18, min: 120, max: 180 },
+    ]);
+    expect(rows).toEqual([{ court: COURT_A, dow: 2, hour: 18, min: 60, max: 120, samples: 3 }]);
+  });
+
+  it('keeps courts, hours and weekdays apart', () => {
+    const rows = forecast([
+      { table: 'wait_times_archive', court: COURT_A, dow: 2, hour: 18, min: 60, max: 120 },
+      { table: 'wait_times_archive', court: COURT_A, dow: 2, hour: 19, min: 120, max: 180 },
+      { table: 'wait_times_archive', court: COURT_A, dow: 6, hour: 18, min: 0, max: 60 },
+      { table: 'wait_times', court: COURT_B, dow: 2, hour: 18, min: 180, max: null },
+    ]);
+    expect(rows).toEqual([
+      { court: COURT_A, dow: 2, hour: 18, min: 60, max: 120, samples: 1 },
+      { court: COURT_A, dow: 2, hour: 19, min: 120, max: 180, samples: 1 },
+      { court: COURT_A, dow: 6, hour: 18, min: 0, max: 60, samples: 1 },
+      { court: COURT_B, dow: 2, hour: 18, min: 180, max: null, samples: 1 },
+    ]);
+  });
+
+  it('sorts open-ended reports above bounded ones', () => {
+    const rows = forecast([
+      { table: 'wait_times_archive', court: COURT_A, dow: 0, hour: 9, min: 120, max: 180 },
+      { table: 'wait_times_archive', court: COURT_A, dow: 0, hour: 9, min: 180, max: null },
+      { table: 'wait_times_archive', court: COURT_A, dow: 0, hour: 9, min: 180, max: null },
+    ]);
+    expect(rows).toEqual([{ court: COURT_A, dow: 0, hour: 9, min: 180, max: null, samples: 3 }]);
+  });
+
+  it('leaves out discredited and unstructured reports', () => {
+    const rows = forecast([
+      { table: 'wait_times_archive', court: COURT_A, dow: 1, hour: 8, min: 0, max: 60 },
+      // Outdated twice with no confirmations: hidden on the live card, so not history either.
+      { table: 'wait_times_archive', court: COURT_A, dow: 1, hour: 8, min: 180, max: null, outdated: 2 },
+      // Still credible: outdated 2, confirmed 2.
+      { table: 'wait_times', court: COURT_A, dow: 1, hour: 8, min: 0, max: 60, confirmed: 2, outdated: 2 },
+      // Legacy free text without minutes.
+      { table: 'wait_times_archive', court: COURT_A, dow: 1, hour: 8, min: null, max: null },
+    ]);
+    expect(rows).toEqual([{ court: COURT_A, dow: 1, hour: 8, min: 0, max: 60, samples: 2 }]);
+  });
+});
@@ -0,0 +1,72 @@
+import { randomUUID } from 'node:crypto';
+import { describe, expect, it } from 'vitest';
+import { literal, query } from './db';
+
+/** Loads a report as the owner, then runs `sql` as anon in the same rolled-back transaction. */
+function asAnonWithReport(sql: string, expiresAt = "now() + interval '2 hours'"): string[][] {
+  const id = randomUUID();
+  return query(
+    `INSERT INTO public.wait_times (id, court_name, wait_time, wait_min_minutes, wait_max_minutes, expires_at)
+     VALUES (${literal(id)}, 'Vote Test Court', '1-2 hours', 60, 120, ${expiresAt});
+     SET LOCAL ROLE anon;
+     ${sql.replaceAll(':report', literal(id))}`
+  );
+}
+
+const vote = (device: string, kind: string) =>
+  `SELECT accepted, vote, confirmed_count, outdated_count
+   FROM public.vote_wait_time(:report, ${literal(device)}, ${literal(kind)})`;
+
+// Migrations 0006 and 0017: one vote per device per report, counted only by vote_wait_time().
+describe('vote_wait_time', () => {
+  it('counts one vote per device', () => {
+    const results = asAnonWithReport(
+      [
+        vote('device-a', 'confirmed'),
+        vote('device-a', 'confirmed'),
+        vote('device-a', 'outdated'),
+        vote('device-b', 'outdated'),
+        'SELECT confirmed_count, outdated_count FROM public.wait_times WHERE id = :report',
+      ].join(';\n')
+    );
+    expect(results).toEqual([
+      ['true', 'confirmed', '1', '0'],
+      ['false', 'confirmed', '1', '0'],
+      ['false', 'confirmed', '1', '0'],
+      ['true', 'outdated', '1', '1'],
+      ['1', '1'],
+    ]);
+  });
+
+  it('refuses expired reports, unknown kinds and missing devices', () => {
+    expect(() => asAnonWithReport(vote('device-a', 'confirmed'), 'now()')).toThrow(
+      /Wait time report not found or expired/
+    );
+    expect(() => asAnonWithReport(vote('device-a', 'stale'))).toThrow(/Unknown vote kind: stale/);
+    expect(() => asAnonWithReport(vote('  ', 'confirmed'))).toThrow(/device_id is required/);
+  });
+
+  it('is the only way anon can change the counts', () => {
+    expect(() => asAnonWithReport('UPDATE public.wait_times SET confirmed_count = 100 WHERE id = :report')).toThrow(
+      /permission denied for table wait_times/
+    );
+    expect(() =>
+      asAnonWithReport(
+        `INSERT INTO public.wait_time_report_votes (report_id, device_id, kind) VALUES (:report, 'device-c', 'confirmed')`
+      )
+    ).toThrow(/permission denied for table wait_time_report_votes|row-level security/);
+    expect(() =>
+      query(
+        `INSERT INTO public.wait_times (court_name, wait_time, confirmed_count, expires_at)
+         VALUES ('Vote Test Court', '1-2 hours', 50, now() + interval '2 hours')`,
+        { role: 'anon' }
+      )
+    ).toThrow(/permission denied for table wait_times/);
+  });
+
+  it('keeps the vote ledger private', () => {
+    expect(
+      asAnonWithReport(`${vote('device-a', 'confirmed')};\nSELECT count(*) FROM public.wait_time_report_votes`)
+    ).toEqual([['true', 'confirmed', '1', '0'], ['0']]);
+  });
+});
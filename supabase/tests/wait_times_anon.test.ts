@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { query } from './db';
+
+const REPORT = `INSERT INTO public.wait_times
+  (court_name, wait_time, wait_min_minutes, wait_max_minutes, expires_at)
+  VALUES ('Central Park Tennis Center', '1-2 hours', 60, 120, now() + interval '2 hours')`;
+
+// Migration 0007: browsers may read and report wait times, nothing else.
+describe('wait_times as anon', () => {
+  it('can select', () => {
+    expect(() => query('SELECT count(*) FROM public.wait_times', { role: 'anon' })).not.toThrow();
+  });
+
+  it('can insert a report', () => {
+    const [[count]] = query(
+      `${REPORT};\nSELECT count(*) FROM public.wait_times WHERE court_name = 'Central Park Tennis Center'`,
+      { role: 'anon' }
+    );
+    expect(Number(count)).toBeGreaterThan(0);
+  });
+
+  it('cannot delete', () => {
+    expect(() => query(`${REPORT};\nDELETE FROM public.wait_times`, { role: 'anon' })).toThrow(
+      /permission denied for table wait_times/
+    );
+  });
+
+  it('cannot update', () => {
+    expect(() =>
+      query(`${REPORT};\nUPDATE public.wait_times SET confirmed_count = confirmed_count + 100`, {
+        role: 'anon',
+      })
+    ).toThrow(/permission denied for table wait_times/);
+  });
+
+  it('cannot run the archive job', () => {
+    expect(() => query('SELECT public.archive_expired_wait_times()', { role: 'anon' })).toThrow(
+      /permission denied for function archive_expired_wait_times/
+    );
+  });
+});